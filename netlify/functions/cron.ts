@@ -0,0 +1,19 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../../src/app.module';
+import { CronService } from '../../src/cron/cron.service';
+
+// Scheduled function (see netlify.toml); runs the same due jobs as GET /cron/run.
+// Prisma reads PRISMA_QUERY_ENGINE_LIBRARY from the site's environment when the
+// engine is not at its default location.
+export const handler = async () => {
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+
+  try {
+    const results = await app.get(CronService).runDue();
+    return { statusCode: 200, body: JSON.stringify(results) };
+  } finally {
+    await app.close();
+  }
+};
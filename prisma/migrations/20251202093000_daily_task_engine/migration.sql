@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "taskDate" DATE;
+
+-- Backfill existing tasks with the day they were created
+UPDATE "tasks" SET "taskDate" = "createdAt"::date;
+
+ALTER TABLE "tasks" ALTER COLUMN "taskDate" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "tasks_userId_taskDate_idx" ON "tasks"("userId", "taskDate");
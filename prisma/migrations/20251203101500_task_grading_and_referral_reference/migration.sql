@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "referral_bonuses_referrerId_referredUserId_type_key";
+
+-- AlterTable
+ALTER TABLE "referral_bonuses" ADD COLUMN     "referenceId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "referral_bonuses_referrerId_referredUserId_type_referenceId_key" ON "referral_bonuses"("referrerId", "referredUserId", "type", "referenceId");
@@ -0,0 +1,8 @@
+-- Finished sessions are kept as proof of reading, so a user may have many
+-- inactive sessions for the same content.
+
+-- DropIndex
+DROP INDEX "reading_sessions_userId_contentId_isActive_key";
+
+-- CreateIndex
+CREATE INDEX "reading_sessions_userId_contentId_idx" ON "reading_sessions"("userId", "contentId");
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "rewardRuleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "reward_rules" (
+    "id" TEXT NOT NULL,
+    "tier" "SubscriptionTier" NOT NULL,
+    "taskType" "TaskType" NOT NULL,
+    "rewardAmount" DECIMAL(65,30) NOT NULL,
+    "dailyQuota" INTEGER NOT NULL,
+    "passMark" INTEGER NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reward_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reward_rules_tier_taskType_effectiveFrom_idx" ON "reward_rules"("tier", "taskType", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_rewardRuleId_fkey" FOREIGN KEY ("rewardRuleId") REFERENCES "reward_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
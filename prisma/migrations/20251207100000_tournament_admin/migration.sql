@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "tournaments" ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "createdById" TEXT,
+ADD COLUMN     "publishedAt" TIMESTAMP(3);
+
+-- Tournaments created before drafts existed were already live
+UPDATE "tournaments" SET "publishedAt" = "createdAt";
+
+-- AlterTable
+ALTER TABLE "tournament_questions" ADD COLUMN     "order" INTEGER NOT NULL DEFAULT 0;
+
+-- Keep existing questions in creation order
+UPDATE "tournament_questions" tq
+SET "order" = ranked."position"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "tournamentId" ORDER BY "createdAt", "id") - 1 AS "position"
+    FROM "tournament_questions"
+) ranked
+WHERE tq."id" = ranked."id";
+
+-- CreateIndex
+CREATE INDEX "tournaments_status_startDate_idx" ON "tournaments"("status", "startDate");
+
+-- CreateIndex
+CREATE INDEX "tournament_questions_tournamentId_order_idx" ON "tournament_questions"("tournamentId", "order");
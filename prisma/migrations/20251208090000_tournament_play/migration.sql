@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "tournament_entries" ADD COLUMN     "finishedAt" TIMESTAMP(3),
+ADD COLUMN     "startedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "tournament_questions" ADD COLUMN     "timeLimit" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateTable
+CREATE TABLE "tournament_answers" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "answer" TEXT,
+    "isCorrect" BOOLEAN NOT NULL DEFAULT false,
+    "points" INTEGER NOT NULL DEFAULT 0,
+    "servedAt" TIMESTAMP(3) NOT NULL,
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "answeredAt" TIMESTAMP(3),
+    "timeTakenMs" INTEGER,
+
+    CONSTRAINT "tournament_answers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_answers_entryId_questionId_key" ON "tournament_answers"("entryId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "tournament_answers" ADD CONSTRAINT "tournament_answers_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "tournament_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_answers" ADD CONSTRAINT "tournament_answers_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "tournament_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
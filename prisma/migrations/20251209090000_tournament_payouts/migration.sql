@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "PayoutCurve" AS ENUM ('WINNER_TAKES_ALL', 'TOP_PERCENTAGES', 'TOP_N_FLAT');
+
+-- AlterTable
+ALTER TABLE "tournaments" ADD COLUMN     "payoutCurve" "PayoutCurve" NOT NULL DEFAULT 'TOP_PERCENTAGES',
+ADD COLUMN     "payoutPercentages" INTEGER[],
+ADD COLUMN     "payoutWinners" INTEGER;
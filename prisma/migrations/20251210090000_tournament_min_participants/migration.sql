@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "tournaments" ADD COLUMN     "minParticipants" INTEGER;
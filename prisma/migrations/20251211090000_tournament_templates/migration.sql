@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "question_templates" ADD COLUMN     "tags" TEXT[];
+
+-- AlterTable
+ALTER TABLE "tournaments" ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "tournament_templates" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "TournamentType" NOT NULL,
+    "entryFee" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "prizePool" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "maxParticipants" INTEGER,
+    "minParticipants" INTEGER,
+    "payoutCurve" "PayoutCurve" NOT NULL DEFAULT 'TOP_PERCENTAGES',
+    "payoutPercentages" INTEGER[],
+    "payoutWinners" INTEGER,
+    "firstStartDate" TIMESTAMP(3) NOT NULL,
+    "durationHours" INTEGER NOT NULL,
+    "createAheadDays" INTEGER NOT NULL DEFAULT 7,
+    "questionTags" TEXT[],
+    "questionCount" INTEGER NOT NULL DEFAULT 10,
+    "questionTimeLimit" INTEGER NOT NULL DEFAULT 30,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tournament_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "question_templates_tags_idx" ON "question_templates" USING GIN ("tags");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournaments_templateId_startDate_key" ON "tournaments"("templateId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "tournament_templates_isActive_idx" ON "tournament_templates"("isActive");
+
+-- AddForeignKey
+ALTER TABLE "tournaments" ADD CONSTRAINT "tournaments_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "tournament_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
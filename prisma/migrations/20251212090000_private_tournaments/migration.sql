@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "tournaments" ADD COLUMN     "contentId" TEXT,
+ADD COLUMN     "inviteCode" TEXT,
+ADD COLUMN     "isPrivate" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournaments_inviteCode_key" ON "tournaments"("inviteCode");
+
+-- AddForeignKey
+ALTER TABLE "tournaments" ADD CONSTRAINT "tournaments_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "contents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "SubscriptionChange" AS ENUM ('PURCHASED', 'RENEWED', 'UPGRADED', 'AUTO_RENEWED', 'EXPIRED', 'ADMIN_UPDATED');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "subscriptionAutoRenew" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "subscriptionReminderDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "subscription_history" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "change" "SubscriptionChange" NOT NULL,
+    "fromTier" "SubscriptionTier" NOT NULL,
+    "toTier" "SubscriptionTier" NOT NULL,
+    "previousExpiry" TIMESTAMP(3),
+    "newExpiry" TIMESTAMP(3),
+    "amount" DECIMAL(65,30),
+    "transactionId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "subscription_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "subscription_history_userId_createdAt_idx" ON "subscription_history"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "subscription_history" ADD CONSTRAINT "subscription_history_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
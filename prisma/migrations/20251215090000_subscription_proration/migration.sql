@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "SubscriptionChange" ADD VALUE 'DOWNGRADE_SCHEDULED';
+ALTER TYPE "SubscriptionChange" ADD VALUE 'DOWNGRADED';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "subscriptionPendingTier" "SubscriptionTier";
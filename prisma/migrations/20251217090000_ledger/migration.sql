@@ -0,0 +1,102 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccountType" AS ENUM ('USER_AVAILABLE', 'USER_LOCKED', 'PLATFORM_REVENUE', 'PRIZE_ESCROW', 'PAYOUT_CLEARING', 'PAYMENT_CLEARING', 'OPENING_BALANCE');
+
+-- CreateEnum
+CREATE TYPE "LedgerDirection" AS ENUM ('DEBIT', 'CREDIT');
+
+-- CreateTable
+CREATE TABLE "ledger_accounts" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" "LedgerAccountType" NOT NULL,
+    "walletId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "journal_entries" (
+    "id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journal_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_postings" (
+    "id" TEXT NOT NULL,
+    "journalEntryId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "direction" "LedgerDirection" NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_postings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_code_key" ON "ledger_accounts"("code");
+
+-- CreateIndex
+CREATE INDEX "ledger_accounts_walletId_idx" ON "ledger_accounts"("walletId");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_transactionId_idx" ON "journal_entries"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_createdAt_idx" ON "journal_entries"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ledger_postings_journalEntryId_idx" ON "ledger_postings"("journalEntryId");
+
+-- CreateIndex
+CREATE INDEX "ledger_postings_accountId_createdAt_idx" ON "ledger_postings"("accountId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "wallets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_postings" ADD CONSTRAINT "ledger_postings_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "journal_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_postings" ADD CONSTRAINT "ledger_postings_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Open the ledger with the balances wallets already hold, each balanced
+-- against the OPENING_BALANCE account
+INSERT INTO "ledger_accounts" ("id", "code", "type")
+VALUES (gen_random_uuid()::text, 'OPENING_BALANCE', 'OPENING_BALANCE');
+
+INSERT INTO "ledger_accounts" ("id", "code", "type", "walletId")
+SELECT gen_random_uuid()::text, 'USER_AVAILABLE:' || "id", 'USER_AVAILABLE', "id"
+FROM "wallets" WHERE "balance" <> 0;
+
+INSERT INTO "ledger_accounts" ("id", "code", "type", "walletId")
+SELECT gen_random_uuid()::text, 'USER_LOCKED:' || "id", 'USER_LOCKED', "id"
+FROM "wallets" WHERE "locked" <> 0;
+
+INSERT INTO "journal_entries" ("id", "description", "metadata")
+SELECT 'opening-' || "id", 'Opening balance', jsonb_build_object('walletId', "id")
+FROM "wallets" WHERE "balance" <> 0 OR "locked" <> 0;
+
+INSERT INTO "ledger_postings" ("id", "journalEntryId", "accountId", "direction", "amount")
+SELECT gen_random_uuid()::text, 'opening-' || w."id", a."id",
+       CASE WHEN w."balance" > 0 THEN 'CREDIT' ELSE 'DEBIT' END::"LedgerDirection", ABS(w."balance")
+FROM "wallets" w JOIN "ledger_accounts" a ON a."code" = 'USER_AVAILABLE:' || w."id";
+
+INSERT INTO "ledger_postings" ("id", "journalEntryId", "accountId", "direction", "amount")
+SELECT gen_random_uuid()::text, 'opening-' || w."id", a."id",
+       CASE WHEN w."locked" > 0 THEN 'CREDIT' ELSE 'DEBIT' END::"LedgerDirection", ABS(w."locked")
+FROM "wallets" w JOIN "ledger_accounts" a ON a."code" = 'USER_LOCKED:' || w."id";
+
+INSERT INTO "ledger_postings" ("id", "journalEntryId", "accountId", "direction", "amount")
+SELECT gen_random_uuid()::text, 'opening-' || w."id", a."id",
+       CASE WHEN w."balance" + w."locked" > 0 THEN 'DEBIT' ELSE 'CREDIT' END::"LedgerDirection", ABS(w."balance" + w."locked")
+FROM "wallets" w CROSS JOIN "ledger_accounts" a
+WHERE a."code" = 'OPENING_BALANCE' AND w."balance" + w."locked" <> 0;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'TRANSFER_IN';
+ALTER TYPE "TransactionType" ADD VALUE 'TRANSFER_OUT';
+ALTER TYPE "TransactionType" ADD VALUE 'REFUND';
+ALTER TYPE "TransactionType" ADD VALUE 'ADJUSTMENT';
+ALTER TYPE "TransactionType" ADD VALUE 'ENTRY_FEE';
+ALTER TYPE "TransactionType" ADD VALUE 'HOLD';
+ALTER TYPE "TransactionType" ADD VALUE 'RELEASE';
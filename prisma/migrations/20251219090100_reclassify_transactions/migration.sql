@@ -0,0 +1,29 @@
+-- Reclassify rows written under the old types. Kept apart from the enum
+-- migration because new enum values cannot be used in the transaction that
+-- adds them.
+
+-- Peer-to-peer transfers: the sender's leg was a WITHDRAWAL, the recipient's a TASK_REWARD
+UPDATE "transactions" SET "type" = 'TRANSFER_OUT'
+WHERE "type" = 'WITHDRAWAL' AND "metadata"->>'transferType' = 'peer_to_peer';
+
+UPDATE "transactions" SET "type" = 'TRANSFER_IN'
+WHERE "type" = 'TASK_REWARD' AND "metadata"->>'transferType' = 'peer_to_peer';
+
+-- Funds holds (tournament entry fees) were WITHDRAWALs; captured ones are paid entry fees
+UPDATE "transactions" SET "type" = 'ENTRY_FEE'
+WHERE "type" = 'WITHDRAWAL' AND "metadata"->>'lockType' = 'funds_locked' AND "status" = 'COMPLETED';
+
+UPDATE "transactions" SET "type" = 'HOLD'
+WHERE "type" = 'WITHDRAWAL' AND "metadata"->>'lockType' = 'funds_locked';
+
+-- Released holds were TASK_REWARDs
+UPDATE "transactions" SET "type" = 'RELEASE'
+WHERE "type" = 'TASK_REWARD' AND "metadata"->>'unlockType' = 'funds_unlocked';
+
+-- Payment refunds were WITHDRAWALs
+UPDATE "transactions" SET "type" = 'REFUND'
+WHERE "type" = 'WITHDRAWAL' AND "metadata" ? 'paymentId' AND "metadata" ? 'refundedBy';
+
+-- Proration credits on downgrade were SUBSCRIPTION_PAYMENTs
+UPDATE "transactions" SET "type" = 'ADJUSTMENT'
+WHERE "type" = 'SUBSCRIPTION_PAYMENT' AND "metadata"->>'kind' = 'proration_credit';
@@ -0,0 +1,15 @@
+-- Close all but the newest open session per user and content. They end with
+-- no duration, so they add nothing to the reading time of a task.
+UPDATE "reading_sessions" s
+SET "isActive" = false, "endTime" = s."startTime", "duration" = 0
+WHERE s."isActive" = true
+  AND EXISTS (
+    SELECT 1 FROM "reading_sessions" newer
+    WHERE newer."userId" = s."userId"
+      AND newer."contentId" = s."contentId"
+      AND newer."isActive" = true
+      AND (newer."startTime", newer."id") > (s."startTime", s."id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reading_sessions_userId_contentId_open_key" ON "reading_sessions"("userId", "contentId") WHERE "isActive";
@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "cron_jobs" (
+    "name" TEXT NOT NULL,
+    "lastRunAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cron_jobs_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "subscription_history" ADD COLUMN     "periodPaid" DECIMAL(65,30);
+
+-- Backfill from each change's own charge. This misses earlier payments in
+-- the same period, so backfilled downgrade credits can only come out lower.
+UPDATE "subscription_history"
+SET "periodPaid" = GREATEST("amount", 0)
+WHERE "amount" IS NOT NULL
+  AND "change" <> 'EXPIRED';
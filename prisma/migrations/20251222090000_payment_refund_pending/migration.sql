@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'REFUND_PENDING' BEFORE 'REFUNDED';
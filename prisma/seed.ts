@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, SubscriptionTier, TaskType } from '@prisma/client';
 const prisma = new PrismaClient();
 
 async function main() {
@@ -38,6 +38,32 @@ async function main() {
   });
 
   console.log('Test users created:', { user1: user1.email, user2: user2.email });
+
+  // Default reward schedule (only when no rules exist yet)
+  const existingRules = await prisma.rewardRule.count();
+  if (existingRules === 0) {
+    const dailyQuotas = {
+      [SubscriptionTier.ENTRY]: 1,
+      [SubscriptionTier.INTERMEDIATE]: 2,
+      [SubscriptionTier.PRO]: 3,
+    };
+
+    await prisma.rewardRule.createMany({
+      data: Object.values(SubscriptionTier).flatMap((tier) =>
+        Object.values(TaskType).map((taskType) => ({
+          tier,
+          taskType,
+          rewardAmount: 1,
+          dailyQuota: dailyQuotas[tier],
+          passMark: 70,
+          effectiveFrom: new Date(0),
+          notes: 'Default schedule',
+        })),
+      ),
+    });
+
+    console.log('Default reward rules created');
+  }
 }
 
 main()
@@ -1,10 +1,21 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConditionalModule, ConfigModule } from '@nestjs/config';
 import { AuthModule } from './auth/auth.module';
 import { PrismaModule } from './prisma/prisma.module';
 import { WalletModule } from './wallet/wallet.module';
 import { EmailModule } from './email/email.module';
 import { ContentModule } from './content/content.module';
+import { TasksModule } from './tasks/tasks.module';
+import { QuestionBankModule } from './question-bank/question-bank.module';
+import { CronModule } from './cron/cron.module';
+import { RewardsModule } from './rewards/rewards.module';
+import { TournamentsModule } from './tournaments/tournaments.module';
+import { SubscriptionsModule } from './subscriptions/subscriptions.module';
+import { PaymentsModule } from './payments/payments.module';
+import { MockPaymentsModule } from './payments/mock-payments.module';
+import { isMockPaymentsEnabled } from './payments/providers/payment-provider.factory';
+import { PromoCodesModule } from './promo-codes/promo-codes.module';
+import { LedgerModule } from './ledger/ledger.module';
 @Module({
   imports: [
     ConfigModule.forRoot({
@@ -15,6 +26,18 @@ import { ContentModule } from './content/content.module';
     WalletModule,
     EmailModule,
     ContentModule,
+    TasksModule,
+    QuestionBankModule,
+    CronModule,
+    RewardsModule,
+    TournamentsModule,
+    SubscriptionsModule,
+    PaymentsModule,
+    ConditionalModule.registerWhen(MockPaymentsModule, (env) =>
+      isMockPaymentsEnabled((key) => env[key]),
+    ),
+    PromoCodesModule,
+    LedgerModule,
   ],
 })
 export class AppModule {}
\ No newline at end of file
@@ -90,11 +90,6 @@ export class SignUpDto {
   @IsNotEmpty()
   lastName: string;
 
-  @ApiProperty({ enum: SubscriptionTier, default: SubscriptionTier.ENTRY })
-  @IsEnum(SubscriptionTier)
-  @IsOptional()
-  subscriptionTier?: SubscriptionTier;
-
   @ApiProperty({ example: 'referral-code-123', required: false })
   @IsString()
   @IsOptional()
@@ -160,11 +155,6 @@ export class UpdateProfileDto {
   @IsPhoneNumber()
   @IsOptional()
   phone?: string;
-
-  @ApiProperty({ enum: SubscriptionTier, required: false })
-  @IsEnum(SubscriptionTier)
-  @IsOptional()
-  subscriptionTier?: SubscriptionTier;
 }
 
 // Change Password DTO
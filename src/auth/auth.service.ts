@@ -24,7 +24,24 @@ import { UserEntity } from './entities/user.entity';
 import { WalletService } from '../wallet/wallet.service';
 import { EmailService } from '../email/email.service';
 import { ReferralService } from '../referral/referral.service';
-import { UserRole } from '@prisma/client';
+import {
+  SubscriptionChange,
+  SubscriptionTier,
+  User,
+  UserRole,
+} from '@prisma/client';
+
+/**
+ * Claims signed into access and refresh tokens
+ */
+export interface JwtPayload {
+  sub: string;
+  email: string;
+  role: UserRole;
+  tier: SubscriptionTier;
+  // ISO date the subscription ends; null on ENTRY
+  tierExpiresAt: string | null;
+}
 
 @Injectable()
 export class AuthService {
@@ -37,7 +54,7 @@ export class AuthService {
   ) {}
 
   async signUp(signUpDto: SignUpDto): Promise<{ user: UserEntity; tokens: TokenResponseDto }> {
-    const { email, phone, password, firstName, lastName, subscriptionTier, referralCode } = signUpDto;
+    const { email, phone, password, firstName, lastName, referralCode } = signUpDto;
 
     // Check if user already exists
     const existingUser = await this.prisma.user.findFirst({
@@ -81,7 +98,6 @@ export class AuthService {
         password: hashedPassword,
         firstName,
         lastName,
-        subscriptionTier: subscriptionTier || 'ENTRY',
         referredById,
         emailVerificationToken,
         emailVerificationExpires,
@@ -108,7 +124,7 @@ export class AuthService {
     });
 
     // Generate tokens
-    const tokens = await this.generateTokens(user.id, user.email, user.role);
+    const tokens = await this.generateTokens(user);
 
     // Send verification email
     try {
@@ -172,7 +188,7 @@ export class AuthService {
       throw new UnauthorizedException('Please verify your email address before signing in');
     }
 
-    const tokens = await this.generateTokens(user.id, user.email, user.role);
+    const tokens = await this.generateTokens(user);
 
     // Convert Decimal to number for the response
     const userResponse = {
@@ -650,6 +666,21 @@ export class AuthService {
       }
     }
 
+    // Keep the subscription history complete for support
+    if (adminUpdateUserDto.subscriptionTier && adminUpdateUserDto.subscriptionTier !== user.subscriptionTier) {
+      await this.prisma.subscriptionHistory.create({
+        data: {
+          userId,
+          change: SubscriptionChange.ADMIN_UPDATED,
+          fromTier: user.subscriptionTier,
+          toTier: adminUpdateUserDto.subscriptionTier,
+          previousExpiry: user.subscriptionExpiry,
+          newExpiry: user.subscriptionExpiry,
+          reason: 'Changed by an administrator',
+        },
+      });
+    }
+
     const updatedUser = await this.prisma.user.update({
       where: { id: userId },
       data: adminUpdateUserDto,
@@ -748,8 +779,15 @@ export class AuthService {
     return null;
   }
 
-  private async generateTokens(userId: string, email: string, role: string): Promise<TokenResponseDto> {
-    const payload = { sub: userId, email, role };
+  private async generateTokens(user: User): Promise<TokenResponseDto> {
+    // Tier claims are a hint for clients; TierGuard always reads the database
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      tier: user.subscriptionTier,
+      tierExpiresAt: user.subscriptionExpiry?.toISOString() ?? null,
+    };
 
     const [accessToken, refreshToken] = await Promise.all([
       this.jwtService.signAsync(payload),
@@ -777,6 +815,6 @@ export class AuthService {
       throw new UnauthorizedException('User not found');
     }
 
-    return this.generateTokens(user.id, user.email, user.role);
+    return this.generateTokens(user);
   }
 }
\ No newline at end of file
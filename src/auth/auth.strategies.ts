@@ -3,7 +3,7 @@ import { PassportStrategy } from '@nestjs/passport';
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Strategy as LocalStrategy } from 'passport-local';
-import { AuthService } from './auth.service';
+import { AuthService, JwtPayload } from './auth.service';
 
 /**
  * Local Strategy for email/password authentication
@@ -43,11 +43,15 @@ export class JwtAuthStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  async validate(payload: any) {
+  async validate(payload: JwtPayload) {
     return {
       userId: payload.sub,
       email: payload.email,
       role: payload.role,
+      tier: payload.tier,
+      tierExpiresAt: payload.tierExpiresAt
+        ? new Date(payload.tierExpiresAt)
+        : null,
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { SubscriptionTier } from '@prisma/client';
+
+export const TIER_KEY = 'requiredTier';
+export const RequiresTier = (tier: SubscriptionTier) =>
+  SetMetadata(TIER_KEY, tier);
@@ -0,0 +1,45 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Allows requests carrying CRON_SECRET as a bearer token (Vercel Cron) or in
+ * the x-cron-secret header. Denies everything when CRON_SECRET is not set.
+ */
+@Injectable()
+export class CronSecretGuard implements CanActivate {
+  constructor(private configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const secret = this.configService.get<string>('CRON_SECRET');
+
+    if (!secret) {
+      throw new UnauthorizedException('Cron endpoints are not configured');
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const authorization: string | undefined = request.headers['authorization'];
+    const provided =
+      request.headers['x-cron-secret'] ??
+      (authorization?.startsWith('Bearer ')
+        ? authorization.slice('Bearer '.length)
+        : undefined);
+
+    if (!provided || !this.matches(String(provided), secret)) {
+      throw new UnauthorizedException('Invalid cron secret');
+    }
+
+    return true;
+  }
+
+  private matches(provided: string, secret: string): boolean {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(secret);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SubscriptionTier, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TierGuard } from './tier.guard';
+
+describe('TierGuard', () => {
+  let guard: TierGuard;
+
+  const reflector = { getAllAndOverride: jest.fn() };
+  const prisma = { user: { findUnique: jest.fn() } };
+
+  const nextMonth = () => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+  // The token claims are deliberately stale so that only the database counts
+  const context = (claims: Record<string, unknown> = {}) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({ user: { userId: 'user-1', ...claims } }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const requires = (tier: SubscriptionTier | undefined) =>
+    reflector.getAllAndOverride.mockReturnValue(tier);
+
+  const stored = (
+    subscriptionTier: SubscriptionTier,
+    subscriptionExpiry: Date | null,
+    role: UserRole = UserRole.READER,
+  ) =>
+    prisma.user.findUnique.mockResolvedValue({
+      role,
+      subscriptionTier,
+      subscriptionExpiry,
+    });
+
+  const rejection = async (execution: ExecutionContext) => {
+    try {
+      await guard.canActivate(execution);
+    } catch (error) {
+      return error as HttpException;
+    }
+    throw new Error('Expected the guard to reject the request');
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TierGuard,
+        { provide: Reflector, useValue: reflector },
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    guard = module.get<TierGuard>(TierGuard);
+  });
+
+  it('allows routes without a tier requirement', async () => {
+    requires(undefined);
+    await expect(guard.canActivate(context())).resolves.toBe(true);
+
+    requires(SubscriptionTier.ENTRY);
+    await expect(guard.canActivate(context())).resolves.toBe(true);
+
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('allows an active subscription at or above the required tier', async () => {
+    requires(SubscriptionTier.INTERMEDIATE);
+    stored(SubscriptionTier.PRO, nextMonth());
+
+    await expect(
+      guard.canActivate(context({ subscriptionTier: SubscriptionTier.ENTRY })),
+    ).resolves.toBe(true);
+  });
+
+  it('responds 402 when a qualifying subscription has expired', async () => {
+    const expiredAt = new Date(Date.now() - 1000);
+    requires(SubscriptionTier.PRO);
+    stored(SubscriptionTier.PRO, expiredAt);
+
+    const error = await rejection(
+      context({
+        subscriptionTier: SubscriptionTier.PRO,
+        subscriptionExpiry: nextMonth().toISOString(),
+      }),
+    );
+
+    expect(error.getStatus()).toBe(HttpStatus.PAYMENT_REQUIRED);
+    expect(error.getResponse()).toMatchObject({
+      details: { currentTier: SubscriptionTier.ENTRY, expiredAt },
+    });
+  });
+
+  it('responds 403 when the tier is too low', async () => {
+    requires(SubscriptionTier.PRO);
+    stored(SubscriptionTier.INTERMEDIATE, nextMonth());
+
+    const error = await rejection(context());
+
+    expect(error.getStatus()).toBe(HttpStatus.FORBIDDEN);
+    expect(error.getResponse()).toMatchObject({
+      details: {
+        requiredTier: SubscriptionTier.PRO,
+        currentTier: SubscriptionTier.INTERMEDIATE,
+        upgradeTiers: [SubscriptionTier.PRO],
+      },
+    });
+  });
+
+  it('ignores a tier claim the database no longer backs', async () => {
+    requires(SubscriptionTier.PRO);
+    stored(SubscriptionTier.ENTRY, null);
+
+    const error = await rejection(
+      context({
+        subscriptionTier: SubscriptionTier.PRO,
+        subscriptionExpiry: nextMonth().toISOString(),
+      }),
+    );
+
+    expect(error.getStatus()).toBe(HttpStatus.FORBIDDEN);
+  });
+
+  it('allows admins whatever their tier', async () => {
+    requires(SubscriptionTier.PRO);
+    stored(SubscriptionTier.ENTRY, null, UserRole.ADMIN);
+
+    await expect(guard.canActivate(context())).resolves.toBe(true);
+  });
+
+  it('rejects a user who no longer exists', async () => {
+    requires(SubscriptionTier.PRO);
+    prisma.user.findUnique.mockResolvedValue(null);
+
+    await expect(guard.canActivate(context())).resolves.toBe(false);
+  });
+});
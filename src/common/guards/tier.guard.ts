@@ -0,0 +1,110 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SubscriptionTier, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TIER_KEY } from '../decorators/requires-tier.decorator';
+
+const tierOrder: SubscriptionTier[] = [
+  SubscriptionTier.ENTRY,
+  SubscriptionTier.INTERMEDIATE,
+  SubscriptionTier.PRO,
+];
+
+/**
+ * Allows users whose subscription is at or above the tier set by
+ * @RequiresTier and has not expired. Use after AuthGuard('jwt').
+ * The tier claims in the token are only a hint for clients: a token outlives
+ * refunds, downgrades and expiry, so the user is always re-read. Responds 402
+ * when a qualifying subscription has lapsed and 403 when the tier is too low.
+ */
+@Injectable()
+export class TierGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredTier = this.reflector.getAllAndOverride<SubscriptionTier>(
+      TIER_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredTier || requiredTier === SubscriptionTier.ENTRY) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest();
+
+    if (!user) {
+      return false;
+    }
+
+    const current = await this.prisma.user.findUnique({
+      where: { id: user.userId },
+      select: { role: true, subscriptionTier: true, subscriptionExpiry: true },
+    });
+
+    if (!current) {
+      return false;
+    }
+
+    if (
+      current.role === UserRole.ADMIN ||
+      this.satisfies(
+        current.subscriptionTier,
+        current.subscriptionExpiry,
+        requiredTier,
+      )
+    ) {
+      return true;
+    }
+
+    const lapsed =
+      this.rank(current.subscriptionTier) >= this.rank(requiredTier);
+    const status = lapsed ? HttpStatus.PAYMENT_REQUIRED : HttpStatus.FORBIDDEN;
+
+    throw new HttpException(
+      {
+        statusCode: status,
+        message: lapsed
+          ? `Your ${current.subscriptionTier} subscription has expired. Renew it to use this feature.`
+          : `This feature requires the ${requiredTier} tier or higher.`,
+        details: {
+          requiredTier,
+          currentTier: lapsed
+            ? SubscriptionTier.ENTRY
+            : current.subscriptionTier,
+          expiredAt: lapsed ? current.subscriptionExpiry : undefined,
+          upgradeTiers: tierOrder.filter(
+            (tier) => this.rank(tier) >= this.rank(requiredTier),
+          ),
+          plansUrl: '/api/v1/subscriptions/plans',
+        },
+      },
+      status,
+    );
+  }
+
+  private satisfies(
+    tier: SubscriptionTier,
+    expiresAt: Date | null,
+    requiredTier: SubscriptionTier,
+  ): boolean {
+    return (
+      this.rank(tier) >= this.rank(requiredTier) &&
+      !!expiresAt &&
+      expiresAt > new Date()
+    );
+  }
+
+  private rank(tier: SubscriptionTier): number {
+    return tierOrder.indexOf(tier);
+  }
+}
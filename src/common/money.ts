@@ -0,0 +1,36 @@
+import { Decimal } from '@prisma/client/runtime/library';
+
+/**
+ * Money is always a Prisma Decimal, from DTO to database, never a JS number.
+ *
+ * Rounding policy: amounts are kept to MONEY_SCALE decimal places (cents).
+ * Amounts the platform charges round half up (roundCharge); amounts it pays
+ * out or credits, such as bonuses, discounts and prize shares, round down
+ * (roundPayout) so a calculation never pays out more than it allows. Any
+ * remainder is left with the caller to allocate.
+ */
+export type Money = Decimal;
+
+/**
+ * Anything that converts to Money exactly. Numbers are taken at their
+ * shortest decimal representation, so 0.1 becomes exactly 0.1.
+ */
+export type MoneyValue = Decimal | number | string;
+
+export const MONEY_SCALE = 2;
+
+export function toMoney(value: MoneyValue): Money {
+  return new Decimal(value);
+}
+
+export function roundCharge(value: MoneyValue): Money {
+  return toMoney(value).toDecimalPlaces(MONEY_SCALE, Decimal.ROUND_HALF_UP);
+}
+
+export function roundPayout(value: MoneyValue): Money {
+  return toMoney(value).toDecimalPlaces(MONEY_SCALE, Decimal.ROUND_DOWN);
+}
+
+export function formatMoney(value: MoneyValue): string {
+  return toMoney(value).toFixed(MONEY_SCALE);
+}
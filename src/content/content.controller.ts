@@ -44,9 +44,11 @@ import {
   CurrentReadersResponseDto,
   ContentAnalyticsResponseDto,
 } from './content.dtos';
-import { ContentType, UserRole } from '@prisma/client';
+import { ContentType, SubscriptionTier, UserRole } from '@prisma/client';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { TierGuard } from '../common/guards/tier.guard';
+import { RequiresTier } from '../common/decorators/requires-tier.decorator';
 import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
 import { GetUser } from '../auth/get-user.decorator';
 
@@ -227,9 +229,13 @@ export class ContentController {
   }
 
   @Get('search')
+  @UseGuards(AuthGuard('jwt'), TierGuard)
+  @RequiresTier(SubscriptionTier.INTERMEDIATE)
+  @ApiBearerAuth()
   @ApiOperation({
     summary: 'Search content',
-    description: 'Searches content by title, description, source, or category.',
+    description:
+      'Searches content by title, description, source, or category. Requires an active INTERMEDIATE or PRO subscription.',
   })
   @ApiQuery({ name: 'query', required: true, type: String })
   @ApiQuery({ name: 'limit', required: false, type: Number })
@@ -238,6 +244,16 @@ export class ContentController {
     description: 'Search completed successfully',
     type: SuccessResponse<ContentResponseDto[]>,
   })
+  @ApiResponse({
+    status: 402,
+    description: 'Subscription expired - renew to search content',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - INTERMEDIATE tier or higher required',
+    type: ErrorResponse,
+  })
   async searchContent(
     @Query('query') query: string,
     @Query('limit') limit: number = 10,
@@ -343,8 +359,8 @@ export class ContentController {
     type: ErrorResponse,
   })
   async startReadingSession(
-    @GetUser('id') userId: string,
-    @Param('id', ParseUUIDPipe) contentId: string,
+    @GetUser('userId') userId: string,
+    @Param('id') contentId: string,
   ): Promise<SuccessResponse<StartReadingSessionResponseDto>> {
     const result = await this.contentService.startReadingSession(userId, contentId);
     return new SuccessResponse(
@@ -372,9 +388,10 @@ export class ContentController {
     type: ErrorResponse,
   })
   async endReadingSession(
-    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @GetUser('userId') userId: string,
+    @Param('sessionId') sessionId: string,
   ): Promise<SuccessResponse<EndReadingSessionResponseDto>> {
-    const result = await this.contentService.endReadingSession(sessionId);
+    const result = await this.contentService.endReadingSession(sessionId, userId);
     return new SuccessResponse(
       HttpStatus.OK,
       'Reading session ended successfully',
@@ -228,23 +228,41 @@ export class ContentService {
       return { message: 'Reading session already active', sessionId: existingSession.id };
     }
 
-    // Create new reading session
-    const session = await this.prisma.readingSession.create({
-      data: {
-        userId,
-        contentId,
-        isActive: true,
-      },
-    });
+    // Create new reading session. A partial unique index allows one open session
+    // per user and content, so a concurrent start loses here instead of opening
+    // a second session that would also count as proof of reading.
+    let session;
+    try {
+      session = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.readingSession.create({
+          data: {
+            userId,
+            contentId,
+            isActive: true,
+          },
+        });
+
+        // Update content read count and current readers
+        await tx.content.update({
+          where: { id: contentId },
+          data: {
+            readCount: { increment: 1 },
+            currentReaders: { increment: 1 },
+          },
+        });
 
-    // Update content read count and current readers
-    await this.prisma.content.update({
-      where: { id: contentId },
-      data: {
-        readCount: { increment: 1 },
-        currentReaders: { increment: 1 },
-      },
-    });
+        return created;
+      });
+    } catch (error) {
+      if (error.code !== 'P2002') {
+        throw error;
+      }
+
+      const activeSession = await this.prisma.readingSession.findFirstOrThrow({
+        where: { userId, contentId, isActive: true },
+      });
+      return { message: 'Reading session already active', sessionId: activeSession.id };
+    }
 
     this.logger.log(`Reading session started: ${session.id}`);
     return { message: 'Reading session started', sessionId: session.id };
@@ -253,7 +271,7 @@ export class ContentService {
   /**
    * End reading session
    */
-  async endReadingSession(sessionId: string): Promise<{ message: string; duration: number }> {
+  async endReadingSession(sessionId: string, userId: string): Promise<{ message: string; duration: number }> {
     this.logger.log(`Ending reading session: ${sessionId}`);
 
     const session = await this.prisma.readingSession.findUnique({
@@ -261,7 +279,8 @@ export class ContentService {
       include: { content: true },
     });
 
-    if (!session) {
+    // Sessions count as proof of reading, so only the reader may end them
+    if (!session || session.userId !== userId) {
       throw new NotFoundException('Reading session not found');
     }
 
@@ -272,9 +291,9 @@ export class ContentService {
     const endTime = new Date();
     const duration = Math.floor((endTime.getTime() - session.startTime.getTime()) / 1000); // Duration in seconds
 
-    // Update session
-    await this.prisma.readingSession.update({
-      where: { id: sessionId },
+    // Update session; the isActive guard stops a concurrent end from counting it twice
+    const ended = await this.prisma.readingSession.updateMany({
+      where: { id: sessionId, isActive: true },
       data: {
         endTime,
         duration,
@@ -282,6 +301,10 @@ export class ContentService {
       },
     });
 
+    if (ended.count === 0) {
+      throw new BadRequestException('Reading session already ended');
+    }
+
     // Update content current readers
     await this.prisma.content.update({
       where: { id: session.contentId },
@@ -570,16 +593,26 @@ export class ContentService {
   }
 
   /**
-   * Get random content for daily tasks
+   * Get random content for daily tasks, optionally only content with active questions
    */
-  async getRandomContent(type: ContentType, limit: number = 5): Promise<ContentResponseDto[]> {
+  async getRandomContent(
+    type: ContentType,
+    limit: number = 5,
+    options: { withQuestions?: boolean } = {},
+  ): Promise<ContentResponseDto[]> {
     this.logger.log(`Getting random ${type} content, limit: ${limit}`);
 
+    const { withQuestions = false } = options;
+
     // Using raw query for random sampling (more efficient than orderBy random)
     const randomContent = await this.prisma.$queryRawUnsafe(`
-      SELECT * FROM "contents" 
-      WHERE "isActive" = true 
-      AND "type" = $1 
+      SELECT * FROM "contents" c
+      WHERE c."isActive" = true 
+      AND c."type" = $1::"ContentType" 
+      ${withQuestions ? `AND EXISTS (
+        SELECT 1 FROM "question_templates" qt
+        WHERE qt."contentId" = c."id" AND qt."isActive" = true
+      )` : ''}
       ORDER BY RANDOM() 
       LIMIT $2
     `, type, limit);
@@ -0,0 +1,132 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiHeader,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CronService, CronJobResult } from './cron.service';
+import { CronSecretGuard } from '../common/guards/cron-secret.guard';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+
+@ApiTags('Cron')
+@Controller('cron')
+@UseGuards(CronSecretGuard)
+@ApiBearerAuth()
+@ApiHeader({
+  name: 'x-cron-secret',
+  required: false,
+  description: 'CRON_SECRET, as an alternative to the bearer token',
+})
+export class CronController {
+  constructor(private readonly cronService: CronService) {}
+
+  @Get('jobs')
+  @ApiOperation({
+    summary: 'List scheduled jobs',
+    description: 'Lists the names of all registered background jobs.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Jobs retrieved successfully',
+    type: SuccessResponse<string[]>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid cron secret',
+    type: ErrorResponse,
+  })
+  getJobs(): SuccessResponse<string[]> {
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Jobs retrieved successfully',
+      this.cronService.getJobNames(),
+    );
+  }
+
+  @Get('run')
+  @ApiOperation({
+    summary: 'Run due jobs',
+    description:
+      'Runs every background job whose interval has passed since its last scheduled run, so jobs keep their own schedule under a single trigger that fires every minute. A job that fails is retried on the next trigger. Intended for platform schedulers such as Vercel Cron, which issue GET requests.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Jobs executed',
+    type: SuccessResponse<CronJobResult[]>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid cron secret',
+    type: ErrorResponse,
+  })
+  async runDue(): Promise<SuccessResponse<CronJobResult[]>> {
+    const results = await this.cronService.runDue();
+    return new SuccessResponse(HttpStatus.OK, 'Jobs executed', results);
+  }
+
+  @Get('run/:job')
+  @ApiOperation({
+    summary: 'Run a job',
+    description:
+      'Runs a single background job by name. Intended for platform schedulers such as Vercel Cron, which issue GET requests.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Job executed',
+    type: SuccessResponse<CronJobResult>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid cron secret',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Job not found',
+    type: ErrorResponse,
+  })
+  async runJob(
+    @Param('job') job: string,
+  ): Promise<SuccessResponse<CronJobResult>> {
+    const result = await this.cronService.run(job);
+    return new SuccessResponse(HttpStatus.OK, 'Job executed', result);
+  }
+
+  @Post('run/:job')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Trigger a job',
+    description: 'Runs a single background job by name on demand.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Job executed',
+    type: SuccessResponse<CronJobResult>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid cron secret',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Job not found',
+    type: ErrorResponse,
+  })
+  async triggerJob(
+    @Param('job') job: string,
+  ): Promise<SuccessResponse<CronJobResult>> {
+    const result = await this.cronService.run(job);
+    return new SuccessResponse(HttpStatus.OK, 'Job executed', result);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CronService } from './cron.service';
+import { CronController } from './cron.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [CronController],
+  providers: [CronService],
+  exports: [CronService],
+})
+export class CronModule {}
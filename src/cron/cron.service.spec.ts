@@ -0,0 +1,65 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma/prisma.service';
+import { CronService } from './cron.service';
+
+describe('CronService', () => {
+  let service: CronService;
+
+  const prisma = {
+    $executeRaw: jest.fn<Promise<number>, unknown[]>(),
+  };
+
+  // The SQL text of the nth $executeRaw call
+  const sql = (call: number) =>
+    (prisma.$executeRaw.mock.calls[call][0] as TemplateStringsArray).join('?');
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.$executeRaw.mockResolvedValue(1);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CronService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<CronService>(CronService);
+  });
+
+  it('keeps the claim of a job that succeeded', async () => {
+    service.register('report', 60 * 1000, () => Promise.resolve('done'));
+
+    const [result] = await service.runDue();
+
+    expect(result.success).toBe(true);
+    expect(prisma.$executeRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the claim of a job that failed', async () => {
+    service.register('report', 60 * 60 * 1000, () =>
+      Promise.reject(new Error('Database unavailable')),
+    );
+
+    const [result] = await service.runDue();
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Database unavailable',
+    });
+    expect(sql(1)).toContain('UPDATE "cron_jobs" SET "lastRunAt"');
+
+    // Back-dated by the interval, and only if the claim is still ours
+    const [, previous, name, claimedAt] = prisma.$executeRaw.mock.calls[1];
+    expect(name).toBe('report');
+    expect((claimedAt as Date).getTime() - (previous as Date).getTime()).toBe(
+      60 * 60 * 1000,
+    );
+  });
+
+  it('skips a job another instance has claimed', async () => {
+    const handler = jest.fn();
+    service.register('report', 60 * 1000, handler);
+    prisma.$executeRaw.mockResolvedValue(0);
+
+    expect(await service.runDue()).toEqual([]);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
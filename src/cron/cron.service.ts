@@ -0,0 +1,197 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface CronJobResult {
+  job: string;
+  success: boolean;
+  durationMs: number;
+  result?: unknown;
+  error?: string;
+}
+
+interface CronJob {
+  name: string;
+  intervalMs: number;
+  handler: () => Promise<unknown>;
+  running: boolean;
+}
+
+/**
+ * Scheduled triggers fire every minute on Vercel and Netlify, so a job runs
+ * at most a minute after its interval has passed. It counts as due slightly
+ * early to absorb jitter in when the trigger fires.
+ */
+const SCHEDULE_TOLERANCE_MS = 30 * 1000;
+
+/**
+ * In-process job registry. Jobs run on an interval under main.ts and can be
+ * triggered over HTTP where there is no long-lived process (serverless).
+ */
+@Injectable()
+export class CronService implements OnModuleDestroy {
+  private readonly logger = new Logger(CronService.name);
+
+  private readonly jobs = new Map<string, CronJob>();
+
+  private readonly timers: NodeJS.Timeout[] = [];
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Register a job; handlers must be idempotent since runs can overlap across instances
+   */
+  register(
+    name: string,
+    intervalMs: number,
+    handler: () => Promise<unknown>,
+  ): void {
+    if (this.jobs.has(name)) {
+      throw new Error(`Cron job "${name}" is already registered`);
+    }
+
+    this.jobs.set(name, { name, intervalMs, handler, running: false });
+    this.logger.log(
+      `Registered cron job: ${name} (every ${intervalMs / 1000}s)`,
+    );
+  }
+
+  getJobNames(): string[] {
+    return [...this.jobs.keys()];
+  }
+
+  /**
+   * Run a single job by name, skipping it if a previous run is still in progress
+   */
+  async run(name: string): Promise<CronJobResult> {
+    const job = this.jobs.get(name);
+
+    if (!job) {
+      throw new NotFoundException(`Cron job "${name}" not found`);
+    }
+
+    if (job.running) {
+      return {
+        job: name,
+        success: false,
+        durationMs: 0,
+        error: 'Job is already running',
+      };
+    }
+
+    const startedAt = Date.now();
+    job.running = true;
+
+    try {
+      const result = await job.handler();
+      const durationMs = Date.now() - startedAt;
+      this.logger.log(`Cron job ${name} finished in ${durationMs}ms`);
+      return { job: name, success: true, durationMs, result };
+    } catch (error) {
+      this.logger.error(
+        `Cron job ${name} failed: ${error.message}`,
+        error.stack,
+      );
+      return {
+        job: name,
+        success: false,
+        durationMs: Date.now() - startedAt,
+        error: error.message,
+      };
+    } finally {
+      job.running = false;
+    }
+  }
+
+  /**
+   * Run, in sequence, every job whose interval has passed since its last
+   * scheduled run. Used by platform schedulers, which trigger all jobs on
+   * one clock; jobs named explicitly through run() are not throttled.
+   * A job that fails is released so the next trigger retries it.
+   */
+  async runDue(): Promise<CronJobResult[]> {
+    const results: CronJobResult[] = [];
+
+    for (const job of this.jobs.values()) {
+      const claimedAt = await this.claimScheduledRun(job);
+
+      if (!claimedAt) {
+        continue;
+      }
+
+      const result = await this.run(job.name);
+      if (!result.success) {
+        await this.releaseScheduledRun(job, claimedAt);
+      }
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Start interval timers for all jobs. Only called from main.ts.
+   */
+  start(): void {
+    for (const job of this.jobs.values()) {
+      const timer = setInterval(() => void this.run(job.name), job.intervalMs);
+      timer.unref();
+      this.timers.push(timer);
+    }
+
+    this.logger.log(`Scheduler started with ${this.jobs.size} jobs`);
+  }
+
+  /**
+   * Record a scheduled run if the job is due and return its time. The
+   * conditional upsert lets only one of several instances triggered at the
+   * same time claim the run.
+   */
+  private async claimScheduledRun(job: CronJob): Promise<Date | null> {
+    const now = new Date();
+    const dueBefore = new Date(
+      now.getTime() - job.intervalMs + SCHEDULE_TOLERANCE_MS,
+    );
+
+    const claimed = await this.prisma.$executeRaw`
+      INSERT INTO "cron_jobs" ("name", "lastRunAt")
+      VALUES (${job.name}, ${now})
+      ON CONFLICT ("name") DO UPDATE SET "lastRunAt" = EXCLUDED."lastRunAt"
+      WHERE "cron_jobs"."lastRunAt" <= ${dueBefore}
+    `;
+
+    return claimed > 0 ? now : null;
+  }
+
+  /**
+   * Back-date a failed run by the job's interval so that it is due again,
+   * unless another instance has claimed a later run since
+   */
+  private async releaseScheduledRun(
+    job: CronJob,
+    claimedAt: Date,
+  ): Promise<void> {
+    const previous = new Date(claimedAt.getTime() - job.intervalMs);
+
+    try {
+      await this.prisma.$executeRaw`
+        UPDATE "cron_jobs" SET "lastRunAt" = ${previous}
+        WHERE "name" = ${job.name} AND "lastRunAt" = ${claimedAt}
+      `;
+    } catch (error) {
+      this.logger.error(
+        `Failed to release cron job ${job.name}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  onModuleDestroy(): void {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers.length = 0;
+  }
+}
@@ -108,7 +108,7 @@ export class EmailService {
           <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
             <h3 style="color: #4F46E5; margin-top: 0;">What you can do now:</h3>
             <ul>
-              <li>Complete daily reading tasks and earn $1 per task</li>
+              <li>Complete daily reading tasks and earn a reward for every task you pass</li>
               <li>Watch educational videos and answer questions</li>
               <li>Join weekly tournaments for bigger rewards</li>
               <li>Refer friends and earn 25% commission</li>
@@ -162,6 +162,95 @@ export class EmailService {
     return this.transporter.sendMail(mailOptions);
   }
 
+  async sendTournamentCancelledEmail(
+    email: string,
+    firstName: string,
+    tournamentTitle: string,
+    refundAmount: string | null,
+    reason?: string,
+  ) {
+    const mailOptions = {
+      from: this.configService.get('EMAIL_USER'),
+      to: email,
+      subject: `Tournament Cancelled: ${tournamentTitle} - Rigaby`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #4F46E5;">Tournament Cancelled</h2>
+          <p>Hello ${firstName},</p>
+          <p>Unfortunately the tournament <strong>${tournamentTitle}</strong> you joined has been cancelled.</p>
+          ${reason ? `<p><strong>Reason:</strong> ${reason}</p>` : ''}
+          
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            ${
+              refundAmount
+                ? `<p style="margin: 0;">Your entry fee of <strong>${refundAmount}</strong> has been refunded to your wallet and is available to use right away.</p>`
+                : `<p style="margin: 0;">This tournament was free to enter, so there is nothing to refund.</p>`
+            }
+          </div>
+          
+          <p>Open the Rigaby app to find another tournament to join.</p>
+        </div>
+      `,
+    };
+
+    return this.transporter.sendMail(mailOptions);
+  }
+
+  async sendSubscriptionReminderEmail(
+    email: string,
+    firstName: string,
+    tier: string,
+    expiresAt: Date,
+    renewalPrice: string | null,
+  ) {
+    const mailOptions = {
+      from: this.configService.get('EMAIL_USER'),
+      to: email,
+      subject: `Your ${tier} subscription expires soon - Rigaby`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #4F46E5;">Subscription Reminder</h2>
+          <p>Hello ${firstName},</p>
+          <p>Your <strong>${tier}</strong> subscription expires on <strong>${expiresAt.toDateString()}</strong>.</p>
+          
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            ${
+              renewalPrice
+                ? `<p style="margin: 0;">Auto-renewal is on, so <strong>${renewalPrice}</strong> will be charged to your wallet on that date. Make sure your wallet has enough funds.</p>`
+                : `<p style="margin: 0;">Renew from the Rigaby app before then to keep your benefits, or you will be moved to the ENTRY tier.</p>`
+            }
+          </div>
+        </div>
+      `,
+    };
+
+    return this.transporter.sendMail(mailOptions);
+  }
+
+  async sendSubscriptionExpiredEmail(
+    email: string,
+    firstName: string,
+    tier: string,
+    renewalFailed: boolean,
+  ) {
+    const mailOptions = {
+      from: this.configService.get('EMAIL_USER'),
+      to: email,
+      subject: `Your ${tier} subscription has expired - Rigaby`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #4F46E5;">Subscription Expired</h2>
+          <p>Hello ${firstName},</p>
+          <p>Your <strong>${tier}</strong> subscription has expired and your account is now on the ENTRY tier.</p>
+          ${renewalFailed ? `<p>We could not renew it automatically because your wallet balance was too low.</p>` : ''}
+          <p>You can subscribe again at any time from the Rigaby app.</p>
+        </div>
+      `,
+    };
+
+    return this.transporter.sendMail(mailOptions);
+  }
+
   // Generate a user-friendly token (6-digit code)
   generateVerificationToken(): string {
     return Math.floor(100000 + Math.random() * 900000).toString();
@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { CronService } from '../cron/cron.service';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+describe('IdempotencyInterceptor', () => {
+  let interceptor: IdempotencyInterceptor;
+
+  const prisma = {
+    idempotencyKey: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const duplicateKey = new Prisma.PrismaClientKnownRequestError(
+    'Unique constraint failed',
+    { code: 'P2002', clientVersion: '6.19.0' },
+  );
+
+  const context = (body: unknown, key: string | null = 'key-1') =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          headers: key === null ? {} : { 'idempotency-key': key },
+          user: { userId: 'user-1' },
+          method: 'POST',
+          route: { path: '/api/v1/wallet/withdraw' },
+          body,
+        }),
+      }),
+    }) as ExecutionContext;
+
+  const handler = (response: unknown = { id: 'tx-1' }) => ({
+    handle: jest.fn(() => of(response)),
+  });
+
+  const run = async (
+    execution: ExecutionContext,
+    next: CallHandler,
+  ): Promise<unknown> =>
+    await lastValueFrom(await interceptor.intercept(execution, next));
+
+  // The record stored by a first request with the same key and body
+  const firstRequest = async (body: unknown) => {
+    prisma.idempotencyKey.create.mockImplementationOnce(({ data }) =>
+      Promise.resolve({ id: 'record-1', ...data, createdAt: new Date() }),
+    );
+    await run(context(body), handler());
+    return prisma.idempotencyKey.create.mock.calls[0][0].data;
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyInterceptor,
+        IdempotencyService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: CronService, useValue: { register: jest.fn() } },
+      ],
+    }).compile();
+
+    interceptor = module.get<IdempotencyInterceptor>(IdempotencyInterceptor);
+  });
+
+  it('passes requests without the header straight through', async () => {
+    const next = handler();
+
+    await expect(run(context({}, null), next)).resolves.toEqual({
+      id: 'tx-1',
+    });
+    expect(prisma.idempotencyKey.create).not.toHaveBeenCalled();
+  });
+
+  it('stores the response of the first request', async () => {
+    await firstRequest({ amount: 10 });
+
+    expect(prisma.idempotencyKey.update).toHaveBeenCalledWith({
+      where: { id: 'record-1' },
+      data: { response: { id: 'tx-1' }, completedAt: expect.any(Date) },
+    });
+  });
+
+  it('replays the stored response without running the handler again', async () => {
+    const stored = await firstRequest({ amount: 10, currency: 'USD' });
+    prisma.idempotencyKey.create.mockRejectedValue(duplicateKey);
+    prisma.idempotencyKey.findUnique.mockResolvedValue({
+      id: 'record-1',
+      ...stored,
+      response: { id: 'tx-1' },
+      completedAt: new Date(),
+      createdAt: new Date(),
+    });
+    const next = handler({ id: 'tx-2' });
+
+    // Same body with the keys in another order
+    await expect(
+      run(context({ currency: 'USD', amount: 10 }), next),
+    ).resolves.toEqual({ id: 'tx-1' });
+    expect(next.handle).not.toHaveBeenCalled();
+  });
+
+  it('rejects a different body with the same key, even while in flight', async () => {
+    const stored = await firstRequest({ amount: 10 });
+    prisma.idempotencyKey.create.mockRejectedValue(duplicateKey);
+    prisma.idempotencyKey.findUnique.mockResolvedValue({
+      id: 'record-1',
+      ...stored,
+      response: null,
+      completedAt: null,
+      createdAt: new Date(),
+    });
+    const next = handler();
+
+    await expect(run(context({ amount: 20 }), next)).rejects.toThrow(
+      UnprocessableEntityException,
+    );
+    expect(next.handle).not.toHaveBeenCalled();
+  });
+
+  it('refuses a retry while the first request is in flight', async () => {
+    const stored = await firstRequest({ amount: 10 });
+    prisma.idempotencyKey.create.mockRejectedValue(duplicateKey);
+    prisma.idempotencyKey.findUnique.mockResolvedValue({
+      id: 'record-1',
+      ...stored,
+      response: null,
+      completedAt: null,
+      createdAt: new Date(),
+    });
+    const next = handler();
+
+    await expect(run(context({ amount: 10 }), next)).rejects.toThrow(
+      'A request with this idempotency key is still being processed',
+    );
+    expect(next.handle).not.toHaveBeenCalled();
+  });
+
+  it('refuses a retry of a request that never finished', async () => {
+    const stored = await firstRequest({ amount: 10 });
+    prisma.idempotencyKey.create.mockRejectedValue(duplicateKey);
+    prisma.idempotencyKey.findUnique.mockResolvedValue({
+      id: 'record-1',
+      ...stored,
+      response: null,
+      completedAt: null,
+      createdAt: new Date(Date.now() - 60 * 60 * 1000),
+    });
+
+    await expect(run(context({ amount: 10 }), handler())).rejects.toThrow(
+      new ConflictException(
+        'The request with this idempotency key did not finish. Check its outcome before retrying with a new key',
+      ),
+    );
+  });
+
+  it('frees the key when the handler fails', async () => {
+    prisma.idempotencyKey.create.mockResolvedValue({ id: 'record-1' });
+    const error = new Error('Insufficient funds');
+
+    await expect(
+      run(context({ amount: 10 }), {
+        handle: () => throwError(() => error),
+      }),
+    ).rejects.toBe(error);
+    expect(prisma.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'record-1' },
+    });
+  });
+
+  it('keeps the key when storing the response fails', async () => {
+    prisma.idempotencyKey.create.mockResolvedValue({ id: 'record-1' });
+    prisma.idempotencyKey.update.mockRejectedValue(new Error('Timed out'));
+
+    await expect(run(context({ amount: 10 }), handler())).rejects.toThrow(
+      'Timed out',
+    );
+    expect(prisma.idempotencyKey.deleteMany).not.toHaveBeenCalled();
+  });
+});
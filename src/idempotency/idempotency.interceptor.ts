@@ -0,0 +1,71 @@
+import {
+  Injectable,
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable, catchError, from, mergeMap, of, throwError } from 'rxjs';
+import {
+  IdempotencyService,
+  IDEMPOTENCY_KEY_HEADER,
+} from './idempotency.service';
+
+/**
+ * Makes a route safe to retry: a request repeated with the same
+ * Idempotency-Key header and body gets the original response instead of
+ * running again. Requests without the header are unaffected.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const req = context.switchToHttp().getRequest();
+    const key = req.headers[IDEMPOTENCY_KEY_HEADER];
+
+    if (key === undefined) {
+      return next.handle();
+    }
+
+    if (typeof key !== 'string' || !key.trim() || key.length > 255) {
+      throw new BadRequestException(
+        'Idempotency-Key must be between 1 and 255 characters',
+      );
+    }
+
+    const userId = req.user?.userId || req.user?.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const record = await this.idempotencyService.begin(
+      userId,
+      key,
+      `${req.method} ${req.route?.path ?? req.path}`,
+      req.body,
+    );
+
+    if (record.completedAt) {
+      return of(record.response);
+    }
+
+    // Only a failed handler frees the key. If storing the response fails the
+    // request has already taken effect, so the key stays uncompleted.
+    return next.handle().pipe(
+      catchError((error) =>
+        from(this.idempotencyService.release(record.id)).pipe(
+          mergeMap(() => throwError(() => error)),
+        ),
+      ),
+      mergeMap(async (response) => {
+        await this.idempotencyService.complete(record.id, response);
+        return response;
+      }),
+    );
+  }
+}
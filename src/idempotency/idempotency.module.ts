@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CronModule } from '../cron/cron.module';
+
+@Module({
+  imports: [PrismaModule, CronModule],
+  providers: [IdempotencyService, IdempotencyInterceptor],
+  exports: [IdempotencyService, IdempotencyInterceptor],
+})
+export class IdempotencyModule {}
@@ -0,0 +1,167 @@
+import {
+  Injectable,
+  ConflictException,
+  UnprocessableEntityException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { CronService } from '../cron/cron.service';
+import { IdempotencyKey, Prisma } from '@prisma/client';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/** How long a completed key is remembered; retries after this run as new requests */
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Longer than any request takes, so an older uncompleted key never finished */
+const IN_FLIGHT_MS = 5 * 60 * 1000;
+
+/**
+ * Remembers the response to each request sent with an Idempotency-Key so a
+ * retry of the same request returns it instead of running again.
+ */
+@Injectable()
+export class IdempotencyService implements OnModuleInit {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private cronService: CronService,
+  ) {}
+
+  onModuleInit() {
+    this.cronService.register('idempotency-key-cleanup', 60 * 60 * 1000, () =>
+      this.deleteExpiredKeys(),
+    );
+  }
+
+  /**
+   * Claim a key for a request. Returns a new, uncompleted record when the
+   * request should run, or the completed record of an earlier identical one.
+   * A key whose request ran but whose response was never stored is kept and
+   * refused for good: its effects may have been applied, so running it again
+   * could repeat them.
+   */
+  async begin(
+    userId: string,
+    key: string,
+    endpoint: string,
+    body: unknown,
+  ): Promise<IdempotencyKey> {
+    const requestHash = this.hashBody(body);
+
+    try {
+      // The unique index lets exactly one of several parallel retries claim the key
+      return await this.prisma.idempotencyKey.create({
+        data: { userId, key, endpoint, requestHash },
+      });
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== 'P2002'
+      ) {
+        throw error;
+      }
+    }
+
+    const existing = await this.prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+
+    // Released by a failed request since the insert
+    if (!existing) {
+      throw new ConflictException(
+        'A request with this idempotency key is still being processed',
+      );
+    }
+
+    if (
+      existing.endpoint !== endpoint ||
+      existing.requestHash !== requestHash
+    ) {
+      throw new UnprocessableEntityException(
+        'Idempotency key was already used for a different request',
+      );
+    }
+
+    if (!existing.completedAt) {
+      const abandoned =
+        existing.createdAt.getTime() < Date.now() - IN_FLIGHT_MS;
+
+      throw new ConflictException(
+        abandoned
+          ? 'The request with this idempotency key did not finish. Check its outcome before retrying with a new key'
+          : 'A request with this idempotency key is still being processed',
+      );
+    }
+
+    return existing;
+  }
+
+  /**
+   * Store the response of a successful request for replay
+   */
+  async complete(id: string, response: unknown): Promise<void> {
+    await this.prisma.idempotencyKey.update({
+      where: { id },
+      data: {
+        response: JSON.parse(JSON.stringify(response)) as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Free the key of a failed request so that it can be retried
+   */
+  async release(id: string): Promise<void> {
+    await this.prisma.idempotencyKey.deleteMany({ where: { id } });
+  }
+
+  /**
+   * Scheduled job: forget completed keys past their TTL. Uncompleted keys
+   * are kept so that a request that may have run is never run again.
+   */
+  async deleteExpiredKeys(): Promise<{ deleted: number }> {
+    const { count } = await this.prisma.idempotencyKey.deleteMany({
+      where: {
+        completedAt: { not: null },
+        createdAt: { lt: new Date(Date.now() - KEY_TTL_MS) },
+      },
+    });
+
+    if (count > 0) {
+      this.logger.log(`Deleted ${count} expired idempotency keys`);
+    }
+
+    return { deleted: count };
+  }
+
+  /**
+   * Hash of the body with object keys sorted, so that key order does not
+   * make the same request look different
+   */
+  private hashBody(body: unknown): string {
+    const canonical = (value: unknown): unknown => {
+      if (Array.isArray(value)) {
+        return value.map(canonical);
+      }
+
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.keys(value)
+            .sort()
+            .map((key) => [key, canonical(value[key])]),
+        );
+      }
+
+      return value;
+    };
+
+    return createHash('sha256')
+      .update(JSON.stringify(canonical(body ?? {})))
+      .digest('hex');
+  }
+}
@@ -0,0 +1,148 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { LedgerService } from './ledger.service';
+import {
+  JournalEntryListResponseDto,
+  JournalEntryQueryDto,
+  LedgerReconciliationResponseDto,
+  TrialBalanceResponseDto,
+  WalletLedgerResponseDto,
+} from './ledger.dtos';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+
+@ApiTags('Ledger')
+@Controller('ledger')
+@ApiBearerAuth()
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.ADMIN)
+export class LedgerController {
+  constructor(private readonly ledgerService: LedgerService) {}
+
+  @Get('trial-balance')
+  @ApiOperation({
+    summary: 'Get trial balance (Admin only)',
+    description:
+      'Balances of every ledger account type, including platform revenue, prize escrow and payout clearing, and whether total debits equal total credits.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Trial balance retrieved successfully',
+    type: SuccessResponse<TrialBalanceResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  async getTrialBalance(): Promise<SuccessResponse<TrialBalanceResponseDto>> {
+    const result = await this.ledgerService.getTrialBalance();
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Trial balance retrieved successfully',
+      result,
+    );
+  }
+
+  @Get('entries')
+  @ApiOperation({
+    summary: 'Get journal entries (Admin only)',
+    description:
+      'Retrieves journal entries with their postings, newest first, optionally for one wallet transaction or wallet.',
+  })
+  @ApiQuery({ name: 'transactionId', required: false, type: String })
+  @ApiQuery({ name: 'walletId', required: false, type: String })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Journal entries retrieved successfully',
+    type: SuccessResponse<JournalEntryListResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  async getEntries(
+    @Query() query: JournalEntryQueryDto,
+  ): Promise<SuccessResponse<JournalEntryListResponseDto>> {
+    const result = await this.ledgerService.getEntries(query);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Journal entries retrieved successfully',
+      result,
+    );
+  }
+
+  @Get('wallets/:userId')
+  @ApiOperation({
+    summary: "Check a user's wallet against the ledger (Admin only)",
+    description:
+      'Compares the balance and locked amount stored on the wallet with the amounts derived from its postings.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Wallet ledger retrieved successfully',
+    type: SuccessResponse<WalletLedgerResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Wallet not found',
+    type: ErrorResponse,
+  })
+  async getWalletLedger(
+    @Param('userId') userId: string,
+  ): Promise<SuccessResponse<WalletLedgerResponseDto>> {
+    const result = await this.ledgerService.getWalletLedger(userId);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Wallet ledger retrieved successfully',
+      result,
+    );
+  }
+
+  @Post('reconcile')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reconcile wallets with the ledger (Admin only)',
+    description:
+      'Runs the daily reconciliation now and lists wallets whose stored balances differ from their postings.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ledger reconciled successfully',
+    type: SuccessResponse<LedgerReconciliationResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  async reconcile(): Promise<SuccessResponse<LedgerReconciliationResponseDto>> {
+    const result = await this.ledgerService.reconcile();
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Ledger reconciled successfully',
+      result,
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { LedgerAccountType, LedgerDirection } from '@prisma/client';
+
+export class JournalEntryQueryDto {
+  @ApiPropertyOptional({
+    description: 'Entries recording a wallet transaction',
+  })
+  @IsOptional()
+  @IsString()
+  transactionId?: string;
+
+  @ApiPropertyOptional({ description: 'Entries touching a wallet' })
+  @IsOptional()
+  @IsString()
+  walletId?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number = 20;
+}
+
+export class LedgerPostingDto {
+  @ApiProperty({ example: 'USER_AVAILABLE:clx0wallet' })
+  account: string;
+
+  @ApiProperty({ enum: LedgerAccountType })
+  accountType: LedgerAccountType;
+
+  @ApiProperty({ enum: LedgerDirection })
+  direction: LedgerDirection;
+
+  @ApiProperty({ example: '10.00' })
+  amount: string;
+}
+
+export class JournalEntryResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  description: string;
+
+  @ApiPropertyOptional()
+  transactionId?: string;
+
+  @ApiProperty({ type: [LedgerPostingDto] })
+  postings: LedgerPostingDto[];
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class JournalEntryListResponseDto {
+  @ApiProperty({ type: [JournalEntryResponseDto] })
+  entries: JournalEntryResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class LedgerAccountBalanceDto {
+  @ApiProperty({ enum: LedgerAccountType })
+  type: LedgerAccountType;
+
+  @ApiProperty({
+    example: '120.00',
+    description: 'Credits minus debits, across all accounts of the type',
+  })
+  balance: string;
+}
+
+export class TrialBalanceResponseDto {
+  @ApiProperty({ type: [LedgerAccountBalanceDto] })
+  accounts: LedgerAccountBalanceDto[];
+
+  @ApiProperty({ example: '5400.00' })
+  totalDebits: string;
+
+  @ApiProperty({ example: '5400.00' })
+  totalCredits: string;
+
+  @ApiProperty({ description: 'Whether debits equal credits' })
+  balanced: boolean;
+}
+
+export class WalletLedgerResponseDto {
+  @ApiProperty()
+  walletId: string;
+
+  @ApiProperty({ example: '25.00', description: 'Stored on the wallet' })
+  balance: string;
+
+  @ApiProperty({ example: '25.00', description: 'Derived from the postings' })
+  ledgerBalance: string;
+
+  @ApiProperty({ example: '5.00' })
+  locked: string;
+
+  @ApiProperty({ example: '5.00' })
+  ledgerLocked: string;
+
+  @ApiProperty({ description: 'Whether the wallet agrees with the ledger' })
+  matches: boolean;
+}
+
+export class LedgerReconciliationResponseDto {
+  @ApiProperty({ description: 'Wallets compared with the ledger' })
+  checked: number;
+
+  @ApiProperty({
+    type: [String],
+    description: 'Wallets whose balances differ from their postings',
+  })
+  mismatched: string[];
+
+  @ApiProperty({ description: 'Whether debits equal credits' })
+  balanced: boolean;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { LedgerService } from './ledger.service';
+import { LedgerController } from './ledger.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CronModule } from '../cron/cron.module';
+
+@Module({
+  imports: [PrismaModule, CronModule],
+  controllers: [LedgerController],
+  providers: [LedgerService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
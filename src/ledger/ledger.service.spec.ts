@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LedgerAccountType, LedgerDirection, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CronService } from '../cron/cron.service';
+import { LedgerService, systemAccount, walletAccount } from './ledger.service';
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+
+  const tx = {
+    $executeRaw: jest.fn(),
+    ledgerAccount: { findUniqueOrThrow: jest.fn() },
+    journalEntry: { create: jest.fn() },
+  };
+  const client = tx as unknown as Prisma.TransactionClient;
+
+  const wallet = walletAccount('wallet-1');
+  const revenue = systemAccount(LedgerAccountType.PLATFORM_REVENUE);
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    tx.ledgerAccount.findUniqueOrThrow.mockImplementation(({ where }) =>
+      Promise.resolve({ id: `account:${where.code}` }),
+    );
+    tx.journalEntry.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'entry-1', ...data }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LedgerService,
+        { provide: PrismaService, useValue: {} },
+        { provide: CronService, useValue: { register: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<LedgerService>(LedgerService);
+  });
+
+  describe('transfer', () => {
+    it('debits the source and credits the destination', async () => {
+      await service.transfer(client, wallet, revenue, '12.50', 'Fee', 'tx-1');
+
+      const { data } = tx.journalEntry.create.mock.calls[0][0];
+      expect(data.description).toBe('Fee');
+      expect(data.transactionId).toBe('tx-1');
+      expect(data.postings.create).toEqual([
+        expect.objectContaining({
+          account: { connect: { id: 'account:USER_AVAILABLE:wallet-1' } },
+          direction: LedgerDirection.DEBIT,
+        }),
+        expect.objectContaining({
+          account: { connect: { id: 'account:PLATFORM_REVENUE' } },
+          direction: LedgerDirection.CREDIT,
+        }),
+      ]);
+      expect(
+        data.postings.create.map((posting) => posting.amount.toFixed(2)),
+      ).toEqual(['12.50', '12.50']);
+    });
+
+    it('rejects a zero amount', async () => {
+      await expect(
+        service.transfer(client, wallet, revenue, 0, 'Nothing'),
+      ).rejects.toThrow('Posting amounts must be positive');
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('post', () => {
+    it('rejects an entry whose debits and credits differ', async () => {
+      await expect(
+        service.post(client, {
+          description: 'Lopsided',
+          postings: [
+            { account: wallet, direction: LedgerDirection.DEBIT, amount: 10 },
+            {
+              account: revenue,
+              direction: LedgerDirection.CREDIT,
+              amount: 9.99,
+            },
+          ],
+        }),
+      ).rejects.toThrow(
+        'Unbalanced journal entry "Lopsided": debits 10.00, credits 9.99',
+      );
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects an entry with a single posting', async () => {
+      await expect(
+        service.post(client, {
+          description: 'One-sided',
+          postings: [
+            { account: wallet, direction: LedgerDirection.DEBIT, amount: 10 },
+          ],
+        }),
+      ).rejects.toThrow('A journal entry needs at least two postings');
+    });
+
+    it('rejects a negative posting', async () => {
+      await expect(
+        service.post(client, {
+          description: 'Negative',
+          postings: [
+            { account: wallet, direction: LedgerDirection.DEBIT, amount: -5 },
+            { account: revenue, direction: LedgerDirection.CREDIT, amount: -5 },
+          ],
+        }),
+      ).rejects.toThrow('Posting amounts must be positive');
+    });
+
+    it('balances exactly without floating point error', async () => {
+      await service.post(client, {
+        description: 'Split',
+        postings: [
+          { account: wallet, direction: LedgerDirection.DEBIT, amount: 0.3 },
+          { account: revenue, direction: LedgerDirection.CREDIT, amount: 0.1 },
+          { account: revenue, direction: LedgerDirection.CREDIT, amount: 0.2 },
+        ],
+      });
+
+      expect(tx.journalEntry.create).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,408 @@
+import {
+  Injectable,
+  NotFoundException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { CronService } from '../cron/cron.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import { MoneyValue } from '../common/money';
+import {
+  JournalEntry,
+  LedgerAccountType,
+  LedgerDirection,
+  LedgerPosting,
+  Prisma,
+} from '@prisma/client';
+import {
+  JournalEntryListResponseDto,
+  JournalEntryQueryDto,
+  JournalEntryResponseDto,
+  LedgerReconciliationResponseDto,
+  TrialBalanceResponseDto,
+  WalletLedgerResponseDto,
+} from './ledger.dtos';
+
+type UserAccountType =
+  | typeof LedgerAccountType.USER_AVAILABLE
+  | typeof LedgerAccountType.USER_LOCKED;
+
+type SystemAccountType = Exclude<LedgerAccountType, UserAccountType>;
+
+export type LedgerAccountRef =
+  | { type: UserAccountType; walletId: string }
+  | { type: SystemAccountType };
+
+export interface LedgerPostingInput {
+  account: LedgerAccountRef;
+  direction: LedgerDirection;
+  amount: MoneyValue;
+}
+
+export interface JournalEntryInput {
+  description: string;
+  transactionId?: string;
+  metadata?: Prisma.InputJsonValue;
+  postings: LedgerPostingInput[];
+}
+
+type WalletLedgerRow = {
+  walletId: string;
+  balance: Decimal;
+  locked: Decimal;
+  ledgerAvailable: Decimal;
+  ledgerLocked: Decimal;
+};
+
+export const walletAccount = (
+  walletId: string,
+  type: UserAccountType = LedgerAccountType.USER_AVAILABLE,
+): LedgerAccountRef => ({ type, walletId });
+
+export const systemAccount = (type: SystemAccountType): LedgerAccountRef => ({
+  type,
+});
+
+/**
+ * Double-entry ledger behind the wallets. Every movement of money is a
+ * journal entry whose debit and credit postings balance. Wallet.balance and
+ * Wallet.locked are kept as the fast path and reconciled against the
+ * postings.
+ */
+@Injectable()
+export class LedgerService implements OnModuleInit {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private cronService: CronService,
+  ) {}
+
+  onModuleInit() {
+    this.cronService.register(
+      'ledger-reconciliation',
+      24 * 60 * 60 * 1000,
+      () => this.reconcile(),
+    );
+  }
+
+  /**
+   * Record a balanced journal entry inside the caller's transaction
+   */
+  async post(
+    tx: Prisma.TransactionClient,
+    entry: JournalEntryInput,
+  ): Promise<JournalEntry> {
+    this.assertBalanced(entry);
+
+    const postings: Prisma.LedgerPostingCreateWithoutJournalEntryInput[] = [];
+    for (const posting of entry.postings) {
+      const accountId = await this.getAccountId(tx, posting.account);
+      postings.push({
+        account: { connect: { id: accountId } },
+        direction: posting.direction,
+        amount: new Decimal(posting.amount),
+      });
+    }
+
+    return await tx.journalEntry.create({
+      data: {
+        description: entry.description,
+        transactionId: entry.transactionId,
+        metadata: entry.metadata,
+        postings: { create: postings },
+      },
+    });
+  }
+
+  /**
+   * Move an amount between two accounts: debit `from`, credit `to`
+   */
+  async transfer(
+    tx: Prisma.TransactionClient,
+    from: LedgerAccountRef,
+    to: LedgerAccountRef,
+    amount: MoneyValue,
+    description: string,
+    transactionId?: string,
+  ): Promise<JournalEntry> {
+    return await this.post(tx, {
+      description,
+      transactionId,
+      postings: [
+        { account: from, direction: LedgerDirection.DEBIT, amount },
+        { account: to, direction: LedgerDirection.CREDIT, amount },
+      ],
+    });
+  }
+
+  /**
+   * Balance of an account derived from its postings
+   */
+  async getBalance(
+    account: LedgerAccountRef,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<Decimal> {
+    const totals = await client.ledgerPosting.groupBy({
+      by: ['direction'],
+      where: { account: { code: this.getCode(account) } },
+      _sum: { amount: true },
+    });
+
+    return this.netCredits(totals);
+  }
+
+  /**
+   * Compare a wallet's stored balances with its postings
+   */
+  async getWalletLedger(userId: string): Promise<WalletLedgerResponseDto> {
+    const wallet = await this.prisma.wallet.findUnique({
+      where: { userId },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    const [available, locked] = await Promise.all([
+      this.getBalance(walletAccount(wallet.id)),
+      this.getBalance(walletAccount(wallet.id, LedgerAccountType.USER_LOCKED)),
+    ]);
+
+    return {
+      walletId: wallet.id,
+      balance: wallet.balance.toFixed(2),
+      ledgerBalance: available.toFixed(2),
+      locked: wallet.locked.toFixed(2),
+      ledgerLocked: locked.toFixed(2),
+      matches: available.equals(wallet.balance) && locked.equals(wallet.locked),
+    };
+  }
+
+  /**
+   * Balances of the system accounts and whether all postings balance
+   */
+  async getTrialBalance(): Promise<TrialBalanceResponseDto> {
+    const [byType, totals] = await Promise.all([
+      this.prisma.$queryRaw<
+        {
+          type: LedgerAccountType;
+          direction: LedgerDirection;
+          total: Decimal;
+        }[]
+      >`
+        SELECT a."type", p."direction", SUM(p."amount") AS "total"
+        FROM "ledger_postings" p
+        JOIN "ledger_accounts" a ON a."id" = p."accountId"
+        GROUP BY a."type", p."direction"
+      `,
+      this.prisma.ledgerPosting.groupBy({
+        by: ['direction'],
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const accounts = Object.values(LedgerAccountType).map((type) => {
+      const rows = byType.filter((row) => row.type === type);
+      return {
+        type,
+        balance: this.netCredits(
+          rows.map((row) => ({
+            direction: row.direction,
+            _sum: { amount: new Decimal(row.total) },
+          })),
+        ).toFixed(2),
+      };
+    });
+
+    const debits = this.sumDirection(totals, LedgerDirection.DEBIT);
+    const credits = this.sumDirection(totals, LedgerDirection.CREDIT);
+
+    return {
+      accounts,
+      totalDebits: debits.toFixed(2),
+      totalCredits: credits.toFixed(2),
+      balanced: debits.equals(credits),
+    };
+  }
+
+  /**
+   * Get journal entries, newest first
+   */
+  async getEntries(
+    query: JournalEntryQueryDto,
+  ): Promise<JournalEntryListResponseDto> {
+    const { transactionId, walletId, page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.JournalEntryWhereInput = {};
+
+    if (transactionId) {
+      where.transactionId = transactionId;
+    }
+
+    if (walletId) {
+      where.postings = { some: { account: { walletId } } };
+    }
+
+    const [entries, total] = await Promise.all([
+      this.prisma.journalEntry.findMany({
+        where,
+        include: { postings: { include: { account: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.journalEntry.count({ where }),
+    ]);
+
+    return {
+      entries: entries.map((entry) => this.mapEntryToDto(entry)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Scheduled job: find wallets whose stored balances differ from their
+   * postings. Mismatches are logged for investigation, not corrected.
+   */
+  async reconcile(): Promise<LedgerReconciliationResponseDto> {
+    const rows = await this.prisma.$queryRaw<WalletLedgerRow[]>`
+      SELECT w."id" AS "walletId", w."balance", w."locked",
+        COALESCE(SUM(CASE WHEN a."type" = 'USER_AVAILABLE'
+          THEN CASE p."direction" WHEN 'CREDIT' THEN p."amount" ELSE -p."amount" END
+        END), 0) AS "ledgerAvailable",
+        COALESCE(SUM(CASE WHEN a."type" = 'USER_LOCKED'
+          THEN CASE p."direction" WHEN 'CREDIT' THEN p."amount" ELSE -p."amount" END
+        END), 0) AS "ledgerLocked"
+      FROM "wallets" w
+      LEFT JOIN "ledger_accounts" a ON a."walletId" = w."id"
+      LEFT JOIN "ledger_postings" p ON p."accountId" = a."id"
+      GROUP BY w."id", w."balance", w."locked"
+    `;
+
+    const mismatched = rows.filter(
+      (row) =>
+        !new Decimal(row.balance).equals(row.ledgerAvailable) ||
+        !new Decimal(row.locked).equals(row.ledgerLocked),
+    );
+
+    for (const row of mismatched) {
+      this.logger.error(
+        `Wallet ${row.walletId} does not match the ledger: balance ${row.balance.toFixed(2)} vs ${row.ledgerAvailable.toFixed(2)}, locked ${row.locked.toFixed(2)} vs ${row.ledgerLocked.toFixed(2)}`,
+      );
+    }
+
+    const { balanced } = await this.getTrialBalance();
+    if (!balanced) {
+      this.logger.error('Ledger postings do not balance');
+    }
+
+    return {
+      checked: rows.length,
+      mismatched: mismatched.map((row) => row.walletId),
+      balanced,
+    };
+  }
+
+  private assertBalanced(entry: JournalEntryInput): void {
+    if (entry.postings.length < 2) {
+      throw new Error('A journal entry needs at least two postings');
+    }
+
+    let debits = new Decimal(0);
+    let credits = new Decimal(0);
+    for (const posting of entry.postings) {
+      const amount = new Decimal(posting.amount);
+
+      if (amount.lessThanOrEqualTo(0)) {
+        throw new Error('Posting amounts must be positive');
+      }
+
+      if (posting.direction === LedgerDirection.DEBIT) {
+        debits = debits.plus(amount);
+      } else {
+        credits = credits.plus(amount);
+      }
+    }
+
+    if (!debits.equals(credits)) {
+      throw new Error(
+        `Unbalanced journal entry "${entry.description}": debits ${debits.toFixed(2)}, credits ${credits.toFixed(2)}`,
+      );
+    }
+  }
+
+  /**
+   * Accounts are created on first use. ON CONFLICT keeps concurrent first
+   * postings to the same account from failing the transaction.
+   */
+  private async getAccountId(
+    tx: Prisma.TransactionClient,
+    account: LedgerAccountRef,
+  ): Promise<string> {
+    const code = this.getCode(account);
+    const walletId = 'walletId' in account ? account.walletId : null;
+
+    await tx.$executeRaw`
+      INSERT INTO "ledger_accounts" ("id", "code", "type", "walletId")
+      VALUES (${randomUUID()}, ${code}, ${account.type}::"LedgerAccountType", ${walletId})
+      ON CONFLICT ("code") DO NOTHING
+    `;
+
+    const { id } = await tx.ledgerAccount.findUniqueOrThrow({
+      where: { code },
+      select: { id: true },
+    });
+
+    return id;
+  }
+
+  private getCode(account: LedgerAccountRef): string {
+    return 'walletId' in account
+      ? `${account.type}:${account.walletId}`
+      : account.type;
+  }
+
+  private netCredits(
+    totals: { direction: LedgerDirection; _sum: { amount: Decimal | null } }[],
+  ): Decimal {
+    return this.sumDirection(totals, LedgerDirection.CREDIT).minus(
+      this.sumDirection(totals, LedgerDirection.DEBIT),
+    );
+  }
+
+  private sumDirection(
+    totals: { direction: LedgerDirection; _sum: { amount: Decimal | null } }[],
+    direction: LedgerDirection,
+  ): Decimal {
+    return totals
+      .filter((total) => total.direction === direction)
+      .reduce((sum, total) => sum.plus(total._sum.amount ?? 0), new Decimal(0));
+  }
+
+  private mapEntryToDto(
+    entry: JournalEntry & {
+      postings: (LedgerPosting & {
+        account: { code: string; type: LedgerAccountType };
+      })[];
+    },
+  ): JournalEntryResponseDto {
+    return {
+      id: entry.id,
+      description: entry.description,
+      transactionId: entry.transactionId ?? undefined,
+      postings: entry.postings.map((posting) => ({
+        account: posting.account.code,
+        accountType: posting.account.type,
+        direction: posting.direction,
+        amount: posting.amount.toFixed(2),
+      })),
+      createdAt: entry.createdAt,
+    };
+  }
+}
@@ -4,11 +4,14 @@ import { Logger, ValidationPipe } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ConfigService } from '@nestjs/config';
 import helmet from 'helmet';
+import { CronService } from './cron/cron.service';
 
 async function bootstrap() {
   const logger = new Logger('Main');
   const app = await NestFactory.create(AppModule, {
     logger: ['error', 'warn', 'log', 'debug', 'verbose'],
+    // Payment webhooks are verified against the unparsed body
+    rawBody: true,
   });
 
   const configService = app.get(ConfigService);
@@ -37,6 +40,7 @@ async function bootstrap() {
       'Authorization',
       'Accept',
       'X-Requested-With',
+      'Idempotency-Key',
     ],
     credentials: true,
     preflightContinue: false,
@@ -77,6 +81,10 @@ async function bootstrap() {
   // 6. START APPLICATION
   // ==========================================================
   await app.listen(port);
+
+  // Background jobs only run in this long-lived process; serverless
+  // deployments trigger them through the /cron endpoints instead
+  app.get(CronService).start();
   logger.log(`Application is running on: ${await app.getUrl()}`);
   logger.log(
     `Swagger documentation is available at: http://localhost:${port}/docs`,
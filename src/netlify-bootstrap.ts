@@ -14,6 +14,7 @@ export async function createNetlifyApp() {
     new ExpressAdapter(server),
     {
       logger: ['error', 'warn', 'log'],
+      rawBody: true,
     },
   );
 
@@ -28,6 +29,7 @@ export async function createNetlifyApp() {
       'Authorization',
       'Accept',
       'X-Requested-With',
+      'Idempotency-Key',
     ],
     credentials: true,
     preflightContinue: false,
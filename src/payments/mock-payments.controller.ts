@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PaymentsService } from './payments.service';
+import { PaymentResponseDto } from './payments.dtos';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+
+/**
+ * Checkout completion for the mock provider. Registered only by
+ * MockPaymentsModule, which is loaded when PAYMENT_MOCK_ENABLED is set
+ * outside production.
+ */
+@ApiTags('Payments')
+@Controller('payments')
+export class MockPaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  @Post('mock/:reference/complete')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Complete a mock checkout (mock provider only)',
+    description:
+      'Settles a payment made with the local mock provider and delivers its signed webhook. Amounts ending in .13 are declined. Only available outside production with PAYMENT_MOCK_ENABLED.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Mock payment completed',
+    type: SuccessResponse<PaymentResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Payment not found or not made with the mock provider',
+    type: ErrorResponse,
+  })
+  async completeMockPayment(
+    @Req() req,
+    @Param('reference') reference: string,
+  ): Promise<SuccessResponse<PaymentResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.paymentsService.completeMockPayment(
+      userId,
+      reference,
+    );
+    return new SuccessResponse(HttpStatus.OK, 'Mock payment completed', result);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MockPaymentsController } from './mock-payments.controller';
+import { PaymentsModule } from './payments.module';
+
+/**
+ * Routes for the mock payment provider. AppModule imports this module only
+ * when isMockPaymentsEnabled, so production never serves them.
+ */
+@Module({
+  imports: [PaymentsModule],
+  controllers: [MockPaymentsController],
+})
+export class MockPaymentsModule {}
@@ -0,0 +1,299 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { PaymentPurpose, PaymentStatus, UserRole } from '@prisma/client';
+import { PaymentsService } from './payments.service';
+import {
+  InitializeDepositDto,
+  InitializeSubscriptionPaymentDto,
+  PaymentInitializationResponseDto,
+  PaymentListResponseDto,
+  PaymentQueryDto,
+  PaymentResponseDto,
+  PaymentWebhookResponseDto,
+  RefundPaymentDto,
+} from './payments.dtos';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+
+@ApiTags('Payments')
+@Controller('payments')
+export class PaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  @Post('deposits')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Start a wallet deposit',
+    description:
+      'Creates a pending payment with the payment provider and returns the URL where the user completes it. The wallet is credited when the provider confirms the charge.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Payment started successfully',
+    type: SuccessResponse<PaymentInitializationResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid amount',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  async initializeDeposit(
+    @Req() req,
+    @Body() depositDto: InitializeDepositDto,
+  ): Promise<SuccessResponse<PaymentInitializationResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.paymentsService.initializeDeposit(
+      userId,
+      depositDto,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Payment started successfully',
+      result,
+    );
+  }
+
+  @Post('subscriptions')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Pay for a subscription by card',
+    description:
+      'Creates a pending payment for the tier price. Once the charge succeeds it is credited to the wallet and the subscription is bought from the wallet.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Payment started successfully',
+    type: SuccessResponse<PaymentInitializationResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Free tier requested',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  async initializeSubscriptionPayment(
+    @Req() req,
+    @Body() subscriptionDto: InitializeSubscriptionPaymentDto,
+  ): Promise<SuccessResponse<PaymentInitializationResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.paymentsService.initializeSubscriptionPayment(
+      userId,
+      subscriptionDto,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Payment started successfully',
+      result,
+    );
+  }
+
+  @Get()
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get my payments',
+    description:
+      "Retrieves the authenticated user's payments with pagination and filtering.",
+  })
+  @ApiQuery({ name: 'status', required: false, enum: PaymentStatus })
+  @ApiQuery({ name: 'purpose', required: false, enum: PaymentPurpose })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Payments retrieved successfully',
+    type: SuccessResponse<PaymentListResponseDto>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  async getPayments(
+    @Req() req,
+    @Query() query: PaymentQueryDto,
+  ): Promise<SuccessResponse<PaymentListResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.paymentsService.getPayments(userId, query);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Payments retrieved successfully',
+      result,
+    );
+  }
+
+  @Post('webhook')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Payment provider webhook',
+    description:
+      'Receives signed events from the payment provider: the Stripe-Signature header for Stripe, or an x-payment-signature HMAC-SHA256 of the raw body for the mock provider. Events that were already processed, are for an unknown payment or are not used by the app are acknowledged without being applied.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Event received',
+    type: SuccessResponse<PaymentWebhookResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Malformed event',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid signature',
+    type: ErrorResponse,
+  })
+  async handleWebhook(
+    @Req() req: RawBodyRequest<Request>,
+  ): Promise<SuccessResponse<PaymentWebhookResponseDto>> {
+    const result = await this.paymentsService.handleWebhook(
+      req.rawBody,
+      req.headers,
+    );
+    return new SuccessResponse(HttpStatus.OK, 'Event received', result);
+  }
+
+  @Post(':reference/verify')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Verify a payment',
+    description:
+      'Checks a pending payment with the provider and applies the result. Useful when returning from checkout before the webhook has arrived.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment verified successfully',
+    type: SuccessResponse<PaymentResponseDto>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Payment not found',
+    type: ErrorResponse,
+  })
+  async verifyPayment(
+    @Req() req,
+    @Param('reference') reference: string,
+  ): Promise<SuccessResponse<PaymentResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.paymentsService.verifyPayment(userId, reference);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Payment verified successfully',
+      result,
+    );
+  }
+
+  @Post(':id/refund')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Refund a payment (Admin only)',
+    description:
+      'Reverses the wallet credit and refunds the charge with the provider. Fails if the user no longer has the funds in their wallet. A refund the provider declines gives the funds back; if the provider cannot be reached the payment stays REFUND_PENDING and the request can be retried.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment refunded successfully',
+    type: SuccessResponse<PaymentResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Insufficient wallet balance or refund declined by the provider',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Payment has not succeeded or was already refunded',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Payment provider unavailable; retry the refund',
+    type: ErrorResponse,
+  })
+  async refundPayment(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() refundDto: RefundPaymentDto,
+  ): Promise<SuccessResponse<PaymentResponseDto>> {
+    const result = await this.paymentsService.refundPayment(
+      id,
+      refundDto,
+      req.user.userId,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Payment refunded successfully',
+      result,
+    );
+  }
+}
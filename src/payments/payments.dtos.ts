@@ -0,0 +1,151 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  PaymentPurpose,
+  PaymentStatus,
+  SubscriptionTier,
+} from '@prisma/client';
+
+export class InitializeDepositDto {
+  @ApiProperty({ example: 20, description: 'Amount to add to the wallet' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(1)
+  @Max(10000)
+  @Type(() => Number)
+  amount: number;
+}
+
+export class InitializeSubscriptionPaymentDto {
+  @ApiProperty({ enum: SubscriptionTier, example: SubscriptionTier.PRO })
+  @IsEnum(SubscriptionTier)
+  tier: SubscriptionTier;
+
+  @ApiPropertyOptional({
+    example: 'SPRING25',
+    description: 'Used when the subscription is bought after the payment',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  promoCode?: string;
+}
+
+export class RefundPaymentDto {
+  @ApiPropertyOptional({ description: 'Reason recorded with the refund' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class PaymentQueryDto {
+  @ApiPropertyOptional({ enum: PaymentStatus })
+  @IsOptional()
+  @IsEnum(PaymentStatus)
+  status?: PaymentStatus;
+
+  @ApiPropertyOptional({ enum: PaymentPurpose })
+  @IsOptional()
+  @IsEnum(PaymentPurpose)
+  purpose?: PaymentPurpose;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number = 20;
+}
+
+export class PaymentResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty({ example: 'mock' })
+  provider: string;
+
+  @ApiProperty()
+  reference: string;
+
+  @ApiProperty({ enum: PaymentPurpose })
+  purpose: PaymentPurpose;
+
+  @ApiProperty({ example: '20.00' })
+  amount: string;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ enum: PaymentStatus })
+  status: PaymentStatus;
+
+  @ApiPropertyOptional({ description: 'Wallet credit for the payment' })
+  transactionId?: string;
+
+  @ApiPropertyOptional()
+  paidAt?: Date;
+
+  @ApiPropertyOptional()
+  refundedAt?: Date;
+
+  @ApiPropertyOptional()
+  metadata?: any;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<PaymentResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class PaymentInitializationResponseDto {
+  @ApiProperty({ type: PaymentResponseDto })
+  payment: PaymentResponseDto;
+
+  @ApiProperty({ description: 'Where the user completes the payment' })
+  authorizationUrl: string;
+}
+
+export class PaymentListResponseDto {
+  @ApiProperty({ type: [PaymentResponseDto] })
+  payments: PaymentResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class PaymentWebhookResponseDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({ description: 'The event had already been processed' })
+  duplicate: boolean;
+}
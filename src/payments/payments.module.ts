@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { PaymentsService } from './payments.service';
+import { PaymentsController } from './payments.controller';
+import { ConfigService } from '@nestjs/config';
+import { createPaymentProvider } from './providers/payment-provider.factory';
+import { PAYMENT_PROVIDER } from './providers/payment-provider.interface';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletModule } from '../wallet/wallet.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+
+@Module({
+  imports: [PrismaModule, WalletModule, SubscriptionsModule],
+  controllers: [PaymentsController],
+  providers: [
+    PaymentsService,
+    {
+      provide: PAYMENT_PROVIDER,
+      inject: [ConfigService, PrismaService],
+      useFactory: createPaymentProvider,
+    },
+  ],
+  exports: [PaymentsService],
+})
+export class PaymentsModule {}
@@ -0,0 +1,169 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  Payment,
+  PaymentPurpose,
+  PaymentStatus,
+  TransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletService } from '../wallet/wallet.service';
+import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { PaymentsService } from './payments.service';
+import { PAYMENT_PROVIDER } from './providers/payment-provider.interface';
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let stored: Payment;
+
+  const tx = {
+    $queryRaw: jest.fn(),
+    payment: { findUniqueOrThrow: jest.fn(), update: jest.fn() },
+  };
+  const prisma = {
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+  };
+  const walletService = {
+    addFunds: jest.fn(),
+    deductFunds: jest.fn(),
+  };
+  const provider = {
+    refundCharge: jest.fn(),
+  };
+
+  const payment = (overrides: Partial<Payment> = {}): Payment =>
+    ({
+      id: 'payment-1',
+      userId: 'user-1',
+      provider: 'mock',
+      reference: 'pay_1',
+      purpose: PaymentPurpose.DEPOSIT,
+      amount: new Decimal(25),
+      currency: 'USD',
+      status: PaymentStatus.SUCCEEDED,
+      transactionId: 'transaction-1',
+      paidAt: new Date(),
+      refundedAt: null,
+      metadata: null,
+      ...overrides,
+    }) as Payment;
+
+  const refund = () =>
+    service.refundPayment('payment-1', { reason: 'Duplicate' }, 'admin-1');
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    stored = payment();
+    tx.$queryRaw.mockResolvedValue([{ id: 'payment-1' }]);
+    tx.payment.findUniqueOrThrow.mockImplementation(() => stored);
+    tx.payment.update.mockImplementation(({ data }) => {
+      stored = { ...stored, ...data } as Payment;
+      return stored;
+    });
+    walletService.deductFunds.mockResolvedValue({ id: 'reversal-1' });
+    walletService.addFunds.mockResolvedValue({ id: 'restore-1' });
+    provider.refundCharge.mockResolvedValue({
+      reference: 'pay_1',
+      refundId: 'refund-1',
+      amount: new Decimal(25),
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: WalletService, useValue: walletService },
+        { provide: SubscriptionsService, useValue: {} },
+        { provide: PAYMENT_PROVIDER, useValue: provider },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+  });
+
+  it('calls the provider outside the transactions', async () => {
+    provider.refundCharge.mockImplementation(() => {
+      expect(stored.status).toBe(PaymentStatus.REFUND_PENDING);
+      return {
+        reference: 'pay_1',
+        refundId: 'refund-1',
+        amount: new Decimal(25),
+      };
+    });
+
+    const result = await refund();
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+    expect(walletService.deductFunds).toHaveBeenCalledWith(
+      'user-1',
+      new Decimal(25),
+      TransactionType.REFUND,
+      'Refund of payment pay_1',
+      expect.objectContaining({ paymentId: 'payment-1' }),
+      tx,
+    );
+    expect(result.status).toBe(PaymentStatus.REFUNDED);
+    expect(stored.metadata).toMatchObject({
+      refundId: 'refund-1',
+      reversalTransactionId: 'reversal-1',
+    });
+  });
+
+  it('gives the funds back when the provider declines the refund', async () => {
+    provider.refundCharge.mockRejectedValue(
+      new BadRequestException('Charge cannot be refunded'),
+    );
+
+    await expect(refund()).rejects.toThrow(BadRequestException);
+
+    expect(walletService.addFunds).toHaveBeenCalledWith(
+      'user-1',
+      new Decimal(25),
+      TransactionType.REFUND,
+      'Refund of payment pay_1 declined by the provider',
+      expect.objectContaining({ direction: 'credit' }),
+      tx,
+    );
+    expect(stored.status).toBe(PaymentStatus.SUCCEEDED);
+    expect(stored.metadata).toMatchObject({
+      refundError: 'Charge cannot be refunded',
+    });
+  });
+
+  it('keeps the refund pending when its outcome is unknown', async () => {
+    provider.refundCharge.mockRejectedValue(new ServiceUnavailableException());
+
+    await expect(refund()).rejects.toThrow(ServiceUnavailableException);
+
+    expect(walletService.addFunds).not.toHaveBeenCalled();
+    expect(stored.status).toBe(PaymentStatus.REFUND_PENDING);
+  });
+
+  it('retries a pending refund without reversing the credit again', async () => {
+    stored = payment({ status: PaymentStatus.REFUND_PENDING });
+
+    const result = await refund();
+
+    expect(walletService.deductFunds).not.toHaveBeenCalled();
+    expect(provider.refundCharge).toHaveBeenCalledWith(
+      'pay_1',
+      new Decimal(25),
+    );
+    expect(result.status).toBe(PaymentStatus.REFUNDED);
+  });
+
+  it('refuses to refund a payment that has not succeeded', async () => {
+    stored = payment({ status: PaymentStatus.REFUNDED });
+
+    await expect(refund()).rejects.toThrow(
+      'Only successful payments can be refunded',
+    );
+    expect(provider.refundCharge).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,646 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletService } from '../wallet/wallet.service';
+import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  Payment,
+  PaymentPurpose,
+  PaymentStatus,
+  Prisma,
+  SubscriptionTier,
+  TransactionType,
+} from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+  PaymentWebhookEvent,
+} from './providers/payment-provider.interface';
+import { MockPaymentProvider } from './providers/mock-payment.provider';
+import {
+  InitializeDepositDto,
+  InitializeSubscriptionPaymentDto,
+  PaymentInitializationResponseDto,
+  PaymentListResponseDto,
+  PaymentQueryDto,
+  PaymentResponseDto,
+  PaymentWebhookResponseDto,
+  RefundPaymentDto,
+} from './payments.dtos';
+
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private walletService: WalletService,
+    private subscriptionsService: SubscriptionsService,
+    @Inject(PAYMENT_PROVIDER) private provider: PaymentProvider,
+  ) {}
+
+  private readonly currency = 'USD';
+
+  /**
+   * Start a card payment that tops up the wallet
+   */
+  async initializeDeposit(
+    userId: string,
+    depositDto: InitializeDepositDto,
+  ): Promise<PaymentInitializationResponseDto> {
+    return await this.createPayment(
+      userId,
+      PaymentPurpose.DEPOSIT,
+      new Decimal(depositDto.amount),
+      {},
+    );
+  }
+
+  /**
+   * Start a card payment for a subscription, for the amount quoted now (the
+   * prorated difference when upgrading, less any promo code). The payment is credited to the
+   * wallet and the subscription is then charged from it.
+   */
+  async initializeSubscriptionPayment(
+    userId: string,
+    subscriptionDto: InitializeSubscriptionPaymentDto,
+  ): Promise<PaymentInitializationResponseDto> {
+    const { tier, promoCode } = subscriptionDto;
+    const quote = await this.subscriptionsService.getQuote(userId, {
+      tier,
+      promoCode,
+    });
+    const amountDue = new Decimal(quote.amountDue);
+
+    if (amountDue.lessThanOrEqualTo(0)) {
+      throw new BadRequestException(
+        `Nothing to pay for ${tier}; subscribe from the wallet instead`,
+      );
+    }
+
+    return await this.createPayment(
+      userId,
+      PaymentPurpose.SUBSCRIPTION,
+      amountDue,
+      { tier, promoCode },
+    );
+  }
+
+  /**
+   * Get the user's payments with pagination and filtering
+   */
+  async getPayments(
+    userId: string,
+    query: PaymentQueryDto,
+  ): Promise<PaymentListResponseDto> {
+    const { status, purpose, page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PaymentWhereInput = { userId };
+    if (status) where.status = status;
+    if (purpose) where.purpose = purpose;
+
+    const [payments, total] = await Promise.all([
+      this.prisma.payment.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.payment.count({ where }),
+    ]);
+
+    return {
+      payments: payments.map((payment) => this.mapPaymentToDto(payment)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Check a pending payment with the provider, for clients returning from
+   * checkout before the webhook arrives
+   */
+  async verifyPayment(
+    userId: string,
+    reference: string,
+  ): Promise<PaymentResponseDto> {
+    const payment = await this.getUserPayment(userId, reference);
+
+    if (payment.status !== PaymentStatus.PENDING) {
+      return this.mapPaymentToDto(payment);
+    }
+
+    const verification = await this.provider.verifyCharge(reference);
+
+    if (verification.status === 'succeeded') {
+      return this.mapPaymentToDto(
+        await this.fulfilPayment(payment.id, verification.amount),
+      );
+    }
+
+    if (verification.status === 'failed') {
+      return this.mapPaymentToDto(
+        await this.failPayment(payment.id, 'Declined by provider'),
+      );
+    }
+
+    return this.mapPaymentToDto(payment);
+  }
+
+  /**
+   * Verify and process a provider webhook. Events are stored by provider
+   * event id, so redelivered events are acknowledged without side effects.
+   */
+  async handleWebhook(
+    rawBody: Buffer | undefined,
+    headers: IncomingHttpHeaders,
+  ): Promise<PaymentWebhookResponseDto> {
+    if (!rawBody) {
+      throw new BadRequestException('Missing webhook body');
+    }
+
+    const signature = headers[this.provider.signatureHeader];
+    const event = this.provider.parseWebhook(
+      rawBody,
+      typeof signature === 'string' ? signature : undefined,
+    );
+    const key = {
+      provider_eventId: { provider: this.provider.name, eventId: event.id },
+    };
+
+    let stored = await this.prisma.paymentEvent.findUnique({ where: key });
+    if (stored?.processedAt) {
+      return { eventId: event.id, duplicate: true };
+    }
+
+    const payment = await this.prisma.payment.findUnique({
+      where: { reference: event.reference },
+    });
+
+    if (!stored) {
+      try {
+        stored = await this.prisma.paymentEvent.create({
+          data: {
+            provider: this.provider.name,
+            eventId: event.id,
+            type: event.type,
+            paymentId: payment?.id,
+            payload: event.payload as Prisma.InputJsonObject,
+          },
+        });
+      } catch (error) {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          // A concurrent delivery of the same event is processing it
+          return { eventId: event.id, duplicate: true };
+        }
+        throw error;
+      }
+    }
+
+    try {
+      await this.processEvent(event, payment);
+      await this.prisma.paymentEvent.update({
+        where: { id: stored.id },
+        data: { processedAt: new Date(), error: null },
+      });
+    } catch (error) {
+      // Left unprocessed so the provider's retry runs it again
+      await this.prisma.paymentEvent.update({
+        where: { id: stored.id },
+        data: { error: error.message },
+      });
+      this.logger.error(`Failed to process webhook ${event.id}`, error.stack);
+      throw error;
+    }
+
+    return { eventId: event.id, duplicate: false };
+  }
+
+  /**
+   * Admin: refund a successful payment. The wallet credit is reversed first,
+   * so the refund fails if the user has already spent the funds. The
+   * provider is called outside any transaction: a declined refund gives the
+   * funds back, and a refund whose outcome is unknown stays REFUND_PENDING
+   * until it is retried here or the provider's refund webhook arrives.
+   */
+  async refundPayment(
+    paymentId: string,
+    refundDto: RefundPaymentDto,
+    adminId: string,
+  ): Promise<PaymentResponseDto> {
+    const reserved = await this.reserveRefund(paymentId, refundDto, adminId);
+
+    let refundId: string;
+    try {
+      const refund = await this.provider.refundCharge(
+        reserved.reference,
+        reserved.amount,
+      );
+      refundId = refund.refundId;
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        await this.cancelRefund(paymentId, error.message);
+      } else {
+        this.logger.error(
+          `Refund of payment ${reserved.reference} has an unknown outcome; retry it`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      }
+      throw error;
+    }
+
+    const payment = await this.completeRefund(paymentId, refundId);
+
+    this.logger.log(`Payment ${paymentId} refunded by ${adminId}`);
+    return this.mapPaymentToDto(payment);
+  }
+
+  /**
+   * Reverse the wallet credit and mark the payment REFUND_PENDING. A payment
+   * that is already pending was reversed by an earlier attempt, so it is
+   * returned as it is for the provider call to be retried.
+   */
+  private async reserveRefund(
+    paymentId: string,
+    refundDto: RefundPaymentDto,
+    adminId: string,
+  ): Promise<Payment> {
+    return await this.prisma.$transaction(async (tx) => {
+      const payment = await this.lockPayment(tx, paymentId);
+
+      if (payment.status === PaymentStatus.REFUND_PENDING) {
+        return payment;
+      }
+
+      if (payment.status !== PaymentStatus.SUCCEEDED) {
+        throw new ConflictException('Only successful payments can be refunded');
+      }
+
+      const reversal = await this.walletService.deductFunds(
+        payment.userId,
+        payment.amount,
+        TransactionType.REFUND,
+        `Refund of payment ${payment.reference}`,
+        { paymentId, reason: refundDto.reason, refundedBy: adminId },
+        tx,
+      );
+
+      return await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          status: PaymentStatus.REFUND_PENDING,
+          metadata: {
+            ...((payment.metadata as Prisma.JsonObject) ?? {}),
+            refundReason: refundDto.reason,
+            refundedBy: adminId,
+            reversalTransactionId: reversal.id,
+          },
+        },
+      });
+    });
+  }
+
+  /**
+   * Mark a pending refund as done. Also reached from the refund webhook, so
+   * whichever arrives second leaves the payment as it is.
+   */
+  private async completeRefund(
+    paymentId: string,
+    refundId: string,
+  ): Promise<Payment> {
+    return await this.prisma.$transaction(async (tx) => {
+      const payment = await this.lockPayment(tx, paymentId);
+
+      if (payment.status !== PaymentStatus.REFUND_PENDING) {
+        return payment;
+      }
+
+      return await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          status: PaymentStatus.REFUNDED,
+          refundedAt: new Date(),
+          metadata: {
+            ...((payment.metadata as Prisma.JsonObject) ?? {}),
+            refundId,
+          },
+        },
+      });
+    });
+  }
+
+  /**
+   * The provider declined the refund: give the reversed funds back and
+   * return the payment to SUCCEEDED
+   */
+  private async cancelRefund(paymentId: string, reason: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const payment = await this.lockPayment(tx, paymentId);
+
+      if (payment.status !== PaymentStatus.REFUND_PENDING) {
+        return;
+      }
+
+      const restore = await this.walletService.addFunds(
+        payment.userId,
+        payment.amount,
+        TransactionType.REFUND,
+        `Refund of payment ${payment.reference} declined by the provider`,
+        { paymentId, direction: 'credit', reason },
+        tx,
+      );
+
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          status: PaymentStatus.SUCCEEDED,
+          metadata: {
+            ...((payment.metadata as Prisma.JsonObject) ?? {}),
+            refundError: reason,
+            refundRestoreTransactionId: restore.id,
+          },
+        },
+      });
+    });
+
+    this.logger.warn(`Refund of payment ${paymentId} declined: ${reason}`);
+  }
+
+  private async lockPayment(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+  ): Promise<Payment> {
+    const locked = await tx.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "payments" WHERE "id" = ${paymentId} FOR UPDATE
+    `;
+
+    if (locked.length === 0) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    return await tx.payment.findUniqueOrThrow({ where: { id: paymentId } });
+  }
+
+  /**
+   * Complete a mock checkout and deliver its webhook. Only available when the
+   * mock provider is the active provider.
+   */
+  async completeMockPayment(
+    userId: string,
+    reference: string,
+  ): Promise<PaymentResponseDto> {
+    if (!(this.provider instanceof MockPaymentProvider)) {
+      throw new NotFoundException('Mock payments are not available');
+    }
+
+    await this.getUserPayment(userId, reference);
+
+    const webhook = await this.provider.completeCharge(reference);
+    await this.handleWebhook(Buffer.from(webhook.payload), {
+      [this.provider.signatureHeader]: webhook.signature,
+    });
+
+    return this.mapPaymentToDto(await this.getUserPayment(userId, reference));
+  }
+
+  private async createPayment(
+    userId: string,
+    purpose: PaymentPurpose,
+    amount: Decimal,
+    metadata: Prisma.JsonObject,
+  ): Promise<PaymentInitializationResponseDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const payment = await this.prisma.payment.create({
+      data: {
+        userId,
+        provider: this.provider.name,
+        reference: `pay_${randomBytes(12).toString('hex')}`,
+        purpose,
+        amount,
+        currency: this.currency,
+        metadata,
+      },
+    });
+
+    const charge = await this.provider.initializeCharge({
+      reference: payment.reference,
+      amount,
+      currency: this.currency,
+      email: user.email,
+      metadata: { ...metadata, paymentId: payment.id, purpose },
+    });
+
+    this.logger.log(
+      `Payment ${payment.reference} started: ${purpose} ${amount.toFixed(2)} for user ${userId}`,
+    );
+
+    return {
+      payment: this.mapPaymentToDto(payment),
+      authorizationUrl: charge.authorizationUrl,
+    };
+  }
+
+  private async processEvent(
+    event: PaymentWebhookEvent,
+    payment: Payment | null,
+  ): Promise<void> {
+    if (event.type === 'ignored') {
+      return;
+    }
+
+    // Acknowledged rather than rejected, as the provider would otherwise
+    // keep redelivering an event that can never be applied
+    if (!payment) {
+      this.logger.warn(
+        `Webhook ${event.id} is for unknown payment ${event.reference}`,
+      );
+      return;
+    }
+
+    switch (event.type) {
+      case 'charge.succeeded':
+        await this.fulfilPayment(payment.id, event.amount);
+        break;
+      case 'charge.failed':
+        await this.failPayment(payment.id, 'Declined by provider');
+        break;
+      case 'refund.succeeded':
+        // Refunds are started through refundPayment; this settles one whose
+        // provider call did not return. Refunds made from the provider
+        // dashboard need review.
+        if (payment.status === PaymentStatus.REFUND_PENDING) {
+          await this.completeRefund(payment.id, event.id);
+        } else if (payment.status !== PaymentStatus.REFUNDED) {
+          this.logger.warn(
+            `Payment ${payment.reference} was refunded outside the app`,
+          );
+        }
+        break;
+    }
+  }
+
+  /**
+   * Credit a successful charge to the wallet once. Subscription payments then
+   * buy the subscription from the wallet.
+   */
+  private async fulfilPayment(
+    paymentId: string,
+    paidAmount: Decimal,
+  ): Promise<Payment> {
+    const { payment, fulfilled } = await this.prisma.$transaction(
+      async (tx) => {
+        await tx.$queryRaw`
+          SELECT "id" FROM "payments" WHERE "id" = ${paymentId} FOR UPDATE
+        `;
+
+        const payment = await tx.payment.findUniqueOrThrow({
+          where: { id: paymentId },
+        });
+
+        if (payment.status !== PaymentStatus.PENDING) {
+          return { payment, fulfilled: false };
+        }
+
+        if (!paidAmount.equals(payment.amount)) {
+          this.logger.error(
+            `Payment ${payment.reference} paid ${paidAmount.toFixed(2)}, expected ${payment.amount.toFixed(2)}`,
+          );
+          const failed = await tx.payment.update({
+            where: { id: paymentId },
+            data: {
+              status: PaymentStatus.FAILED,
+              metadata: {
+                ...((payment.metadata as Prisma.JsonObject) ?? {}),
+                failureReason: 'Amount mismatch',
+                paidAmount: paidAmount.toFixed(2),
+              },
+            },
+          });
+          return { payment: failed, fulfilled: false };
+        }
+
+        const credit = await this.walletService.addFunds(
+          payment.userId,
+          payment.amount,
+          TransactionType.DEPOSIT,
+          payment.purpose === PaymentPurpose.SUBSCRIPTION
+            ? 'Card payment for subscription'
+            : 'Wallet deposit',
+          { paymentId, reference: payment.reference },
+          tx,
+        );
+
+        const updated = await tx.payment.update({
+          where: { id: paymentId },
+          data: {
+            status: PaymentStatus.SUCCEEDED,
+            transactionId: credit.id,
+            paidAt: new Date(),
+          },
+        });
+        return { payment: updated, fulfilled: true };
+      },
+    );
+
+    if (fulfilled && payment.purpose === PaymentPurpose.SUBSCRIPTION) {
+      return await this.applySubscription(payment);
+    }
+
+    return payment;
+  }
+
+  /**
+   * If the subscription cannot be bought the funds stay in the wallet
+   */
+  private async applySubscription(payment: Payment): Promise<Payment> {
+    const metadata = (payment.metadata as Prisma.JsonObject) ?? {};
+
+    try {
+      const subscription = await this.subscriptionsService.subscribe(
+        payment.userId,
+        {
+          tier: metadata.tier as SubscriptionTier,
+          promoCode: (metadata.promoCode as string) ?? undefined,
+        },
+      );
+      metadata.subscriptionTransactionId = subscription.transactionId;
+    } catch (error) {
+      this.logger.warn(
+        `Payment ${payment.reference} credited but subscription failed: ${error.message}`,
+      );
+      metadata.subscriptionError = error.message;
+    }
+
+    return await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: { metadata },
+    });
+  }
+
+  private async failPayment(
+    paymentId: string,
+    reason: string,
+  ): Promise<Payment> {
+    await this.prisma.payment.updateMany({
+      where: { id: paymentId, status: PaymentStatus.PENDING },
+      data: { status: PaymentStatus.FAILED },
+    });
+
+    const payment = await this.prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+    });
+
+    if (payment.status === PaymentStatus.FAILED) {
+      this.logger.log(`Payment ${payment.reference} failed: ${reason}`);
+    }
+
+    return payment;
+  }
+
+  private async getUserPayment(
+    userId: string,
+    reference: string,
+  ): Promise<Payment> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { reference },
+    });
+
+    if (!payment || payment.userId !== userId) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    return payment;
+  }
+
+  private mapPaymentToDto(payment: Payment): PaymentResponseDto {
+    return new PaymentResponseDto({
+      ...payment,
+      amount: payment.amount.toFixed(2),
+      transactionId: payment.transactionId ?? undefined,
+      paidAt: payment.paidAt ?? undefined,
+      refundedAt: payment.refundedAt ?? undefined,
+    });
+  }
+}
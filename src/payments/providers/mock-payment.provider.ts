@@ -0,0 +1,197 @@
+import {
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Decimal } from '@prisma/client/runtime/library';
+import { Payment, PaymentStatus } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ChargeInitialization,
+  ChargeStatus,
+  ChargeVerification,
+  InitializeChargeParams,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  PaymentWebhookType,
+  RefundResult,
+} from './payment-provider.interface';
+
+type MockWebhookPayload = {
+  id: string;
+  type: PaymentWebhookType;
+  data: { reference: string; amount: string; currency: string };
+};
+
+/**
+ * Offline payment provider for development and tests, enabled only with
+ * PAYMENT_MOCK_ENABLED outside production. It has no backend of its own, so
+ * the state of a charge is read from its payment row, which keeps it working
+ * when each request may reach a different serverless instance. Charges are
+ * settled with completeCharge, which returns the webhook the provider would
+ * send.
+ * Outcomes are deterministic: amounts ending in .13 are declined and
+ * everything else succeeds.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+
+  readonly signatureHeader = 'x-payment-signature';
+
+  private readonly logger = new Logger(MockPaymentProvider.name);
+
+  private readonly declinedCents = 13;
+
+  constructor(
+    private prisma: PrismaService,
+    private webhookSecret: string,
+  ) {}
+
+  initializeCharge(
+    params: InitializeChargeParams,
+  ): Promise<ChargeInitialization> {
+    const appUrl = process.env.APP_URL || 'https://app.rigaby.com';
+    return Promise.resolve({
+      reference: params.reference,
+      authorizationUrl: `${appUrl}/payments/mock/checkout?reference=${params.reference}`,
+    });
+  }
+
+  async verifyCharge(reference: string): Promise<ChargeVerification> {
+    const payment = await this.getPayment(reference);
+
+    return {
+      reference,
+      status: this.getStatus(payment),
+      amount: payment.amount,
+      currency: payment.currency,
+      paidAt: payment.paidAt ?? undefined,
+    };
+  }
+
+  async refundCharge(
+    reference: string,
+    amount: Decimal,
+  ): Promise<RefundResult> {
+    const payment = await this.getPayment(reference);
+
+    // The payment is REFUND_PENDING while its refund is being requested
+    if (payment.status !== PaymentStatus.REFUND_PENDING) {
+      throw new BadRequestException('Charge cannot be refunded');
+    }
+
+    if (!amount.equals(payment.amount)) {
+      throw new BadRequestException('Only full refunds are supported');
+    }
+
+    return {
+      reference,
+      refundId: `mock_refund_${reference}`,
+      amount,
+    };
+  }
+
+  parseWebhook(
+    rawBody: Buffer,
+    signature: string | undefined,
+  ): PaymentWebhookEvent {
+    if (!signature || !this.matches(signature, this.sign(rawBody))) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    let payload: MockWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new BadRequestException('Malformed webhook payload');
+    }
+
+    const data = payload?.data;
+
+    if (
+      typeof payload?.id !== 'string' ||
+      typeof payload.type !== 'string' ||
+      typeof data?.reference !== 'string' ||
+      typeof data.amount !== 'string' ||
+      !/^\d+(\.\d+)?$/.test(data.amount)
+    ) {
+      throw new BadRequestException('Malformed webhook payload');
+    }
+
+    return {
+      id: payload.id,
+      type: payload.type,
+      reference: data.reference,
+      amount: new Decimal(data.amount),
+      payload,
+    };
+  }
+
+  /**
+   * Settle a pending charge as the user paying would, returning the signed
+   * webhook body the provider sends for it
+   */
+  async completeCharge(
+    reference: string,
+  ): Promise<{ payload: string; signature: string }> {
+    const payment = await this.getPayment(reference);
+    let status = this.getStatus(payment);
+
+    if (status === 'pending') {
+      const cents = payment.amount.times(100).modulo(100).toNumber();
+      status = cents === this.declinedCents ? 'failed' : 'succeeded';
+      this.logger.debug(`Mock charge ${reference} ${status}`);
+    }
+
+    const type: PaymentWebhookType =
+      status === 'succeeded' ? 'charge.succeeded' : 'charge.failed';
+
+    // Event ids are stable so that redelivering a webhook is a duplicate
+    const payload = JSON.stringify({
+      id: `mock_evt_${type}_${reference}`,
+      type,
+      data: {
+        reference,
+        amount: payment.amount.toFixed(2),
+        currency: payment.currency,
+      },
+    });
+
+    return { payload, signature: this.sign(Buffer.from(payload)) };
+  }
+
+  private async getPayment(reference: string): Promise<Payment> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { reference },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Charge not found');
+    }
+
+    return payment;
+  }
+
+  private getStatus(payment: Payment): ChargeStatus {
+    switch (payment.status) {
+      case PaymentStatus.PENDING:
+        return 'pending';
+      case PaymentStatus.FAILED:
+        return 'failed';
+      default:
+        return 'succeeded';
+    }
+  }
+
+  private sign(body: Buffer): string {
+    return createHmac('sha256', this.webhookSecret).update(body).digest('hex');
+  }
+
+  private matches(provided: string, expected: string): boolean {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,70 @@
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaymentProvider } from './payment-provider.interface';
+import { MockPaymentProvider } from './mock-payment.provider';
+import { StripePaymentProvider } from './stripe-payment.provider';
+
+/**
+ * Whether the mock provider and its checkout completion route are enabled.
+ * They settle payments without taking any money, so PAYMENT_MOCK_ENABLED
+ * stops the app at startup when NODE_ENV is production.
+ */
+export function isMockPaymentsEnabled(
+  get: (key: string) => string | undefined,
+): boolean {
+  if (get('PAYMENT_MOCK_ENABLED') !== 'true') {
+    return false;
+  }
+
+  if (get('NODE_ENV') === 'production') {
+    throw new Error('PAYMENT_MOCK_ENABLED must not be set in production');
+  }
+
+  return true;
+}
+
+/**
+ * Build the provider named by PAYMENT_PROVIDER. Missing or unsafe payment
+ * settings stop the app at startup rather than failing on the first webhook.
+ */
+export function createPaymentProvider(
+  configService: ConfigService,
+  prisma: PrismaService,
+): PaymentProvider {
+  const get = (key: string) => configService.get<string>(key);
+  const name = get('PAYMENT_PROVIDER');
+  const webhookSecret = get('PAYMENT_WEBHOOK_SECRET');
+  const mockEnabled = isMockPaymentsEnabled(get);
+
+  if (!webhookSecret) {
+    throw new Error(
+      'PAYMENT_WEBHOOK_SECRET is not defined in environment variables',
+    );
+  }
+
+  switch (name) {
+    case 'stripe': {
+      const secretKey = get('STRIPE_SECRET_KEY');
+
+      if (!secretKey) {
+        throw new Error(
+          'STRIPE_SECRET_KEY is not defined in environment variables',
+        );
+      }
+      return new StripePaymentProvider(secretKey, webhookSecret);
+    }
+    case 'mock':
+      if (!mockEnabled) {
+        throw new Error(
+          'The mock payment provider requires PAYMENT_MOCK_ENABLED=true',
+        );
+      }
+      return new MockPaymentProvider(prisma, webhookSecret);
+    default:
+      throw new Error(
+        name
+          ? `Unknown PAYMENT_PROVIDER "${name}"`
+          : 'PAYMENT_PROVIDER is not defined in environment variables',
+      );
+  }
+}
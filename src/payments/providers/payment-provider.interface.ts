@@ -0,0 +1,84 @@
+import { Decimal } from '@prisma/client/runtime/library';
+
+/** Injection token for the active payment provider */
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+export type ChargeStatus = 'pending' | 'succeeded' | 'failed';
+
+export type PaymentWebhookType =
+  | 'charge.succeeded'
+  | 'charge.failed'
+  | 'refund.succeeded'
+  // Events the app does not act on; they are acknowledged and stored
+  | 'ignored';
+
+export interface InitializeChargeParams {
+  reference: string;
+  amount: Decimal;
+  currency: string;
+  email: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ChargeInitialization {
+  reference: string;
+  authorizationUrl: string;
+}
+
+export interface ChargeVerification {
+  reference: string;
+  status: ChargeStatus;
+  amount: Decimal;
+  currency: string;
+  paidAt?: Date;
+}
+
+export interface RefundResult {
+  reference: string;
+  refundId: string;
+  amount: Decimal;
+}
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookType;
+  reference: string;
+  amount: Decimal;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * A payment gateway. Charges are identified by our own reference so that
+ * webhooks and verification calls can be matched to a stored payment.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  /** Request header carrying the webhook signature, in lower case */
+  readonly signatureHeader: string;
+
+  /** Start a charge and return where the user completes it */
+  initializeCharge(
+    params: InitializeChargeParams,
+  ): Promise<ChargeInitialization>;
+
+  /** Ask the provider for the current state of a charge */
+  verifyCharge(reference: string): Promise<ChargeVerification>;
+
+  /**
+   * Refund a successful charge in full. Repeating the call for the same
+   * charge must not refund it twice. Throws BadRequestException when the
+   * provider declines the refund; any other error leaves the outcome unknown.
+   */
+  refundCharge(reference: string, amount: Decimal): Promise<RefundResult>;
+
+  /**
+   * Check the webhook signature against the raw request body and parse it.
+   * Throws UnauthorizedException when the signature does not match and
+   * BadRequestException when the body is not a valid event.
+   */
+  parseWebhook(
+    rawBody: Buffer,
+    signature: string | undefined,
+  ): PaymentWebhookEvent;
+}
@@ -0,0 +1,105 @@
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { StripePaymentProvider } from './stripe-payment.provider';
+
+describe('StripePaymentProvider', () => {
+  const provider = new StripePaymentProvider('sk_test_key', 'whsec_secret');
+
+  const body = (type: string, object: Record<string, unknown>) =>
+    Buffer.from(JSON.stringify({ id: 'evt_1', type, data: { object } }));
+
+  // Signs like Stripe does: an HMAC of "timestamp.body"
+  const sign = (payload: Buffer, signedAt = Math.floor(Date.now() / 1000)) =>
+    `t=${signedAt},v1=${createHmac('sha256', 'whsec_secret')
+      .update(`${signedAt}.`)
+      .update(payload)
+      .digest('hex')}`;
+
+  const paidSession = body('checkout.session.completed', {
+    client_reference_id: 'pay_1',
+    payment_status: 'paid',
+    amount_total: 1250,
+  });
+
+  it('maps a paid checkout to a successful charge', () => {
+    const event = provider.parseWebhook(paidSession, sign(paidSession));
+
+    expect(event.id).toBe('evt_1');
+    expect(event.type).toBe('charge.succeeded');
+    expect(event.reference).toBe('pay_1');
+    expect(event.amount.toFixed(2)).toBe('12.50');
+  });
+
+  it('accepts any of several signatures', () => {
+    const signature = sign(paidSession).replace(',', ',v1=rotated,');
+
+    expect(provider.parseWebhook(paidSession, signature).type).toBe(
+      'charge.succeeded',
+    );
+  });
+
+  it('rejects a missing or wrong signature', () => {
+    expect(() => provider.parseWebhook(paidSession, undefined)).toThrow(
+      UnauthorizedException,
+    );
+    expect(() =>
+      provider.parseWebhook(paidSession, sign(Buffer.from('other body'))),
+    ).toThrow('Invalid webhook signature');
+  });
+
+  it('rejects a replayed event with an old signature', () => {
+    const anHourAgo = Math.floor(Date.now() / 1000) - 60 * 60;
+
+    expect(() =>
+      provider.parseWebhook(paidSession, sign(paidSession, anHourAgo)),
+    ).toThrow('Webhook signature has expired');
+  });
+
+  it('waits for delayed payment methods to settle', () => {
+    const pending = body('checkout.session.completed', {
+      client_reference_id: 'pay_1',
+      payment_status: 'unpaid',
+      amount_total: 1250,
+    });
+
+    expect(provider.parseWebhook(pending, sign(pending)).type).toBe('ignored');
+  });
+
+  it('fails the charge when the checkout expires', () => {
+    const expired = body('checkout.session.expired', {
+      client_reference_id: 'pay_1',
+      payment_status: 'unpaid',
+      amount_total: 1250,
+    });
+
+    expect(provider.parseWebhook(expired, sign(expired)).type).toBe(
+      'charge.failed',
+    );
+  });
+
+  it('reads the payment reference of a refunded charge', () => {
+    const refunded = body('charge.refunded', {
+      amount_refunded: 1250,
+      metadata: { reference: 'pay_1' },
+    });
+
+    const event = provider.parseWebhook(refunded, sign(refunded));
+
+    expect(event.type).toBe('refund.succeeded');
+    expect(event.reference).toBe('pay_1');
+  });
+
+  it('ignores events the app does not use', () => {
+    const other = body('customer.created', { id: 'cus_1' });
+
+    expect(provider.parseWebhook(other, sign(other)).type).toBe('ignored');
+  });
+
+  it('rejects a signed body that is not an event', () => {
+    const malformed = Buffer.from('{"id": 1}');
+
+    expect(() => provider.parseWebhook(malformed, sign(malformed))).toThrow(
+      BadRequestException,
+    );
+  });
+});
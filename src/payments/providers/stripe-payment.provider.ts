@@ -0,0 +1,362 @@
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  ChargeInitialization,
+  ChargeStatus,
+  ChargeVerification,
+  InitializeChargeParams,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  PaymentWebhookType,
+  RefundResult,
+} from './payment-provider.interface';
+
+// The fields of the Stripe API objects that are used here
+type StripeCheckoutSession = {
+  url: string;
+  client_reference_id: string | null;
+  payment_status: 'paid' | 'unpaid' | 'no_payment_required';
+  amount_total: number;
+};
+
+type StripePaymentIntent = {
+  id: string;
+  status: string;
+  amount: number;
+  amount_received: number;
+  currency: string;
+};
+
+type StripeCharge = {
+  amount_refunded: number;
+  metadata: Record<string, string>;
+};
+
+type StripeRefund = {
+  id: string;
+  amount: number;
+};
+
+type StripeEvent = {
+  id: string;
+  type: string;
+  data: { object: StripeCheckoutSession & StripeCharge };
+};
+
+/**
+ * Stripe Checkout. A charge is a Checkout Session whose client_reference_id
+ * is our payment reference; the reference is also copied to the
+ * PaymentIntent and its charges so that they can be found and refunded.
+ * The webhook endpoint must be subscribed to the checkout.session.* events
+ * and charge.refunded, and PAYMENT_WEBHOOK_SECRET is its signing secret.
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe';
+
+  readonly signatureHeader = 'stripe-signature';
+
+  private readonly logger = new Logger(StripePaymentProvider.name);
+
+  private readonly apiUrl = 'https://api.stripe.com/v1';
+
+  // Stripe's default: older signed events are rejected as replays
+  private readonly signatureToleranceSeconds = 300;
+
+  constructor(
+    private secretKey: string,
+    private webhookSecret: string,
+  ) {}
+
+  async initializeCharge(
+    params: InitializeChargeParams,
+  ): Promise<ChargeInitialization> {
+    const appUrl = process.env.APP_URL || 'https://app.rigaby.com';
+    const returnUrl = `${appUrl}/payments/return?reference=${params.reference}`;
+
+    const session = await this.request<StripeCheckoutSession>(
+      'POST',
+      '/checkout/sessions',
+      {
+        mode: 'payment',
+        client_reference_id: params.reference,
+        customer_email: params.email,
+        success_url: returnUrl,
+        cancel_url: returnUrl,
+        'line_items[0][quantity]': '1',
+        'line_items[0][price_data][currency]': params.currency.toLowerCase(),
+        'line_items[0][price_data][unit_amount]': this.toMinorUnits(
+          params.amount,
+        ),
+        'line_items[0][price_data][product_data][name]':
+          params.metadata?.purpose === 'SUBSCRIPTION'
+            ? 'Rigaby subscription'
+            : 'Rigaby wallet deposit',
+        'metadata[reference]': params.reference,
+        'payment_intent_data[metadata][reference]': params.reference,
+      },
+      `charge_${params.reference}`,
+    );
+
+    return {
+      reference: params.reference,
+      authorizationUrl: session.url,
+    };
+  }
+
+  async verifyCharge(reference: string): Promise<ChargeVerification> {
+    const intent = await this.findPaymentIntent(reference);
+
+    // Stripe creates the PaymentIntent once the customer submits the checkout
+    if (!intent) {
+      return {
+        reference,
+        status: 'pending',
+        amount: new Decimal(0),
+        currency: '',
+      };
+    }
+
+    const status: ChargeStatus =
+      intent.status === 'succeeded'
+        ? 'succeeded'
+        : intent.status === 'canceled'
+          ? 'failed'
+          : 'pending';
+
+    return {
+      reference,
+      status,
+      amount: this.fromMinorUnits(
+        status === 'succeeded' ? intent.amount_received : intent.amount,
+      ),
+      currency: String(intent.currency).toUpperCase(),
+    };
+  }
+
+  async refundCharge(
+    reference: string,
+    amount: Decimal,
+  ): Promise<RefundResult> {
+    const intent = await this.findPaymentIntent(reference);
+
+    if (!intent || intent.status !== 'succeeded') {
+      throw new BadRequestException('Charge cannot be refunded');
+    }
+
+    // The idempotency key makes a retry after a timeout return the same refund
+    const refund = await this.request<StripeRefund>(
+      'POST',
+      '/refunds',
+      {
+        payment_intent: intent.id,
+        amount: this.toMinorUnits(amount),
+        'metadata[reference]': reference,
+      },
+      `refund_${reference}`,
+    );
+
+    return {
+      reference,
+      refundId: refund.id,
+      amount: this.fromMinorUnits(refund.amount),
+    };
+  }
+
+  parseWebhook(
+    rawBody: Buffer,
+    signature: string | undefined,
+  ): PaymentWebhookEvent {
+    this.verifySignature(rawBody, signature);
+
+    let event: StripeEvent;
+    try {
+      event = JSON.parse(rawBody.toString('utf8')) as StripeEvent;
+    } catch {
+      throw new BadRequestException('Malformed webhook payload');
+    }
+
+    const object = event?.data?.object;
+
+    if (
+      typeof event?.id !== 'string' ||
+      typeof event.type !== 'string' ||
+      !object ||
+      typeof object !== 'object'
+    ) {
+      throw new BadRequestException('Malformed webhook payload');
+    }
+
+    const { type, reference, amount } = this.mapEvent(event.type, object);
+
+    return {
+      id: event.id,
+      type,
+      reference: reference ?? '',
+      amount: this.fromMinorUnits(amount ?? 0),
+      payload: event,
+    };
+  }
+
+  private mapEvent(
+    eventType: string,
+    object: StripeEvent['data']['object'],
+  ): { type: PaymentWebhookType; reference?: string; amount?: number } {
+    switch (eventType) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded':
+        return {
+          // Bank debits complete later with async_payment_succeeded
+          type:
+            object.payment_status === 'paid' ? 'charge.succeeded' : 'ignored',
+          reference: object.client_reference_id,
+          amount: object.amount_total,
+        };
+      case 'checkout.session.async_payment_failed':
+      case 'checkout.session.expired':
+        return {
+          type: 'charge.failed',
+          reference: object.client_reference_id,
+          amount: object.amount_total,
+        };
+      case 'charge.refunded':
+        return {
+          type: 'refund.succeeded',
+          reference: object.metadata?.reference,
+          amount: object.amount_refunded,
+        };
+      default:
+        return { type: 'ignored' };
+    }
+  }
+
+  /**
+   * The Stripe-Signature header holds a timestamp and one or more HMACs of
+   * "timestamp.body"; any of them may match
+   */
+  private verifySignature(rawBody: Buffer, header: string | undefined): void {
+    const parts = (header ?? '').split(',').map((part) => part.split('='));
+    const signedAt = parts.find(([key]) => key === 't')?.[1];
+    const timestamp = Number(signedAt);
+    const signatures = parts
+      .filter(([key]) => key === 'v1')
+      .map(([, value]) => value);
+
+    const expected = createHmac('sha256', this.webhookSecret)
+      .update(`${signedAt}.`)
+      .update(rawBody)
+      .digest('hex');
+
+    if (
+      !signedAt ||
+      !Number.isFinite(timestamp) ||
+      !signatures.some((provided) => this.matches(provided, expected))
+    ) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    const age = Math.abs(Date.now() / 1000 - timestamp);
+    if (age > this.signatureToleranceSeconds) {
+      throw new UnauthorizedException('Webhook signature has expired');
+    }
+  }
+
+  private async findPaymentIntent(
+    reference: string,
+  ): Promise<StripePaymentIntent | undefined> {
+    const result = await this.request<{ data: StripePaymentIntent[] }>(
+      'GET',
+      '/payment_intents/search',
+      {
+        query: `metadata['reference']:'${reference}'`,
+        limit: '1',
+      },
+    );
+
+    return result.data[0];
+  }
+
+  /**
+   * Call the Stripe API. Requests Stripe rejects throw BadRequestException;
+   * network errors, rate limits and Stripe outages throw
+   * ServiceUnavailableException, as the request may or may not have applied.
+   */
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    params: Record<string, string>,
+    idempotencyKey?: string,
+  ): Promise<T> {
+    const query = new URLSearchParams(params).toString();
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.secretKey}`,
+    };
+
+    if (method === 'POST') {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    }
+
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(
+        method === 'GET'
+          ? `${this.apiUrl}${path}?${query}`
+          : `${this.apiUrl}${path}`,
+        {
+          method,
+          headers,
+          body: method === 'POST' ? query : undefined,
+          signal: AbortSignal.timeout(15000),
+        },
+      );
+    } catch (error) {
+      this.logger.error(`Stripe ${method} ${path} failed: ${String(error)}`);
+      throw new ServiceUnavailableException(
+        'Payment provider is not reachable',
+      );
+    }
+
+    const body = (await response.json().catch(() => ({}))) as T & {
+      error?: { message?: string };
+    };
+
+    if (response.ok) {
+      return body;
+    }
+
+    const message = body.error?.message ?? `Stripe returned ${response.status}`;
+    this.logger.error(`Stripe ${method} ${path} failed: ${message}`);
+
+    // 409 is a concurrent request with the same idempotency key
+    if ([409, 429].includes(response.status) || response.status >= 500) {
+      throw new ServiceUnavailableException(
+        'Payment provider is not available',
+      );
+    }
+
+    throw new BadRequestException(message);
+  }
+
+  private toMinorUnits(amount: Decimal): string {
+    return amount.times(100).toFixed(0);
+  }
+
+  private fromMinorUnits(amount: number): Decimal {
+    return new Decimal(amount).dividedBy(100);
+  }
+
+  private matches(provided: string, expected: string): boolean {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
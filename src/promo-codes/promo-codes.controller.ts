@@ -0,0 +1,252 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PromoCodeTarget, UserRole } from '@prisma/client';
+import { PromoCodesService } from './promo-codes.service';
+import {
+  CheckPromoCodeDto,
+  CreatePromoCodeDto,
+  PromoCodeCheckResponseDto,
+  PromoCodeListResponseDto,
+  PromoCodeQueryDto,
+  PromoCodeResponseDto,
+  UpdatePromoCodeDto,
+} from './promo-codes.dtos';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+
+@ApiTags('Promo Codes')
+@Controller('promo-codes')
+@ApiBearerAuth()
+export class PromoCodesController {
+  constructor(private readonly promoCodesService: PromoCodesService) {}
+
+  @Post('check')
+  @UseGuards(AuthGuard('jwt'))
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Check a promo code',
+    description:
+      'Checks that the authenticated user can use a code for a subscription or tournament entry without using it up. The discounted subscription price is shown by GET /subscriptions/quote.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promo code is valid',
+    type: SuccessResponse<PromoCodeCheckResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Code inactive, expired, fully redeemed, already used or not valid for this purchase',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Promo code is not valid',
+    type: ErrorResponse,
+  })
+  async checkPromoCode(
+    @Req() req,
+    @Body() checkDto: CheckPromoCodeDto,
+  ): Promise<SuccessResponse<PromoCodeCheckResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.promoCodesService.checkPromoCode(
+      userId,
+      checkDto,
+    );
+    return new SuccessResponse(HttpStatus.OK, 'Promo code is valid', result);
+  }
+
+  @Post()
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Create promo code (Admin only)',
+    description:
+      'Creates a percentage or fixed discount for subscription checkout and/or tournament entry, with optional usage limits, validity window and tier restrictions.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Promo code created successfully',
+    type: SuccessResponse<PromoCodeResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid discount or validity window',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Promo code already exists',
+    type: ErrorResponse,
+  })
+  async createPromoCode(
+    @Req() req,
+    @Body() createDto: CreatePromoCodeDto,
+  ): Promise<SuccessResponse<PromoCodeResponseDto>> {
+    const result = await this.promoCodesService.createPromoCode(
+      createDto,
+      req.user.userId,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Promo code created successfully',
+      result,
+    );
+  }
+
+  @Get()
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get promo codes (Admin only)',
+    description: 'Retrieves promo codes with their usage, newest first.',
+  })
+  @ApiQuery({ name: 'target', required: false, enum: PromoCodeTarget })
+  @ApiQuery({ name: 'isActive', required: false, type: Boolean })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Promo codes retrieved successfully',
+    type: SuccessResponse<PromoCodeListResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  async getPromoCodes(
+    @Query() query: PromoCodeQueryDto,
+  ): Promise<SuccessResponse<PromoCodeListResponseDto>> {
+    const result = await this.promoCodesService.getPromoCodes(query);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Promo codes retrieved successfully',
+      result,
+    );
+  }
+
+  @Get(':id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get promo code by ID (Admin only)',
+    description: 'Retrieves a promo code and how many times it has been used.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promo code retrieved successfully',
+    type: SuccessResponse<PromoCodeResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Promo code not found',
+    type: ErrorResponse,
+  })
+  async getPromoCodeById(
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<PromoCodeResponseDto>> {
+    const result = await this.promoCodesService.getPromoCodeById(id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Promo code retrieved successfully',
+      result,
+    );
+  }
+
+  @Put(':id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update promo code (Admin only)',
+    description:
+      'Updates the discount, limits or validity window of a promo code. Redemptions already made are unaffected.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promo code updated successfully',
+    type: SuccessResponse<PromoCodeResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid discount or validity window',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Promo code not found',
+    type: ErrorResponse,
+  })
+  async updatePromoCode(
+    @Param('id') id: string,
+    @Body() updateDto: UpdatePromoCodeDto,
+  ): Promise<SuccessResponse<PromoCodeResponseDto>> {
+    const result = await this.promoCodesService.updatePromoCode(id, updateDto);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Promo code updated successfully',
+      result,
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Delete promo code (Admin only)',
+    description:
+      'Deactivates a promo code so it can no longer be used. Its redemption history is kept.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promo code deleted successfully',
+    type: SuccessResponse<{ message: string }>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Promo code not found',
+    type: ErrorResponse,
+  })
+  async deletePromoCode(
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<{ message: string }>> {
+    const result = await this.promoCodesService.deletePromoCode(id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Promo code deleted successfully',
+      result,
+    );
+  }
+}
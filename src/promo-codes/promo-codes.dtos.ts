@@ -0,0 +1,283 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  DiscountType,
+  PromoCodeTarget,
+  SubscriptionTier,
+} from '@prisma/client';
+
+export class CreatePromoCodeDto {
+  @ApiProperty({
+    example: 'SPRING25',
+    description: 'Letters, digits, dashes and underscores; stored upper case',
+  })
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, {
+    message: 'code must be 3-32 letters, digits, dashes or underscores',
+  })
+  code: string;
+
+  @ApiPropertyOptional({ example: '25% off your first month' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ enum: DiscountType, example: DiscountType.PERCENTAGE })
+  @IsEnum(DiscountType)
+  discountType: DiscountType;
+
+  @ApiProperty({
+    example: 25,
+    description: 'Percentage off (up to 100), or the amount off',
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @Type(() => Number)
+  discountValue: number;
+
+  @ApiProperty({
+    enum: PromoCodeTarget,
+    isArray: true,
+    example: [PromoCodeTarget.SUBSCRIPTION],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(PromoCodeTarget, { each: true })
+  targets: PromoCodeTarget[];
+
+  @ApiPropertyOptional({
+    enum: SubscriptionTier,
+    isArray: true,
+    description:
+      "Limits the code to these tiers: the tier bought at subscription checkout, or the entrant's current tier for tournament entry. Any tier if empty.",
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(SubscriptionTier, { each: true })
+  tiers?: SubscriptionTier[];
+
+  @ApiPropertyOptional({
+    example: 100,
+    description: 'Total uses across all users; unlimited if omitted',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  maxRedemptions?: number;
+
+  @ApiPropertyOptional({ example: 1, default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  perUserLimit?: number;
+
+  @ApiPropertyOptional({ example: '2026-01-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional({ example: '2026-02-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class UpdatePromoCodeDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ enum: DiscountType })
+  @IsOptional()
+  @IsEnum(DiscountType)
+  discountType?: DiscountType;
+
+  @ApiPropertyOptional({ example: 25 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @Type(() => Number)
+  discountValue?: number;
+
+  @ApiPropertyOptional({ enum: PromoCodeTarget, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(PromoCodeTarget, { each: true })
+  targets?: PromoCodeTarget[];
+
+  @ApiPropertyOptional({ enum: SubscriptionTier, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(SubscriptionTier, { each: true })
+  tiers?: SubscriptionTier[];
+
+  @ApiPropertyOptional({ example: 100 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  maxRedemptions?: number;
+
+  @ApiPropertyOptional({ example: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  perUserLimit?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class PromoCodeQueryDto {
+  @ApiPropertyOptional({ enum: PromoCodeTarget })
+  @IsOptional()
+  @IsEnum(PromoCodeTarget)
+  target?: PromoCodeTarget;
+
+  @ApiPropertyOptional({ description: 'Filter by active status' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number = 20;
+}
+
+export class CheckPromoCodeDto {
+  @ApiProperty({ example: 'SPRING25' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @ApiProperty({ enum: PromoCodeTarget })
+  @IsEnum(PromoCodeTarget)
+  target: PromoCodeTarget;
+
+  @ApiPropertyOptional({
+    enum: SubscriptionTier,
+    description: 'Tier being bought, for subscription checkout',
+  })
+  @IsOptional()
+  @IsEnum(SubscriptionTier)
+  tier?: SubscriptionTier;
+}
+
+export class PromoCodeResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 'SPRING25' })
+  code: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiProperty({ enum: DiscountType })
+  discountType: DiscountType;
+
+  @ApiProperty({ example: '25.00' })
+  discountValue: string;
+
+  @ApiProperty({ enum: PromoCodeTarget, isArray: true })
+  targets: PromoCodeTarget[];
+
+  @ApiProperty({ enum: SubscriptionTier, isArray: true })
+  tiers: SubscriptionTier[];
+
+  @ApiPropertyOptional()
+  maxRedemptions?: number;
+
+  @ApiProperty()
+  perUserLimit: number;
+
+  @ApiProperty()
+  redemptionCount: number;
+
+  @ApiPropertyOptional()
+  startsAt?: Date;
+
+  @ApiPropertyOptional()
+  expiresAt?: Date;
+
+  @ApiProperty()
+  isActive: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class PromoCodeListResponseDto {
+  @ApiProperty({ type: [PromoCodeResponseDto] })
+  promoCodes: PromoCodeResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class PromoCodeCheckResponseDto {
+  @ApiProperty({ example: 'SPRING25' })
+  code: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiProperty({ enum: DiscountType })
+  discountType: DiscountType;
+
+  @ApiProperty({ example: '25.00' })
+  discountValue: string;
+
+  @ApiProperty({ description: 'Uses left for the authenticated user' })
+  remainingUses: number;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PromoCodesService } from './promo-codes.service';
+import { PromoCodesController } from './promo-codes.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [PromoCodesController],
+  providers: [PromoCodesService],
+  exports: [PromoCodesService],
+})
+export class PromoCodesModule {}
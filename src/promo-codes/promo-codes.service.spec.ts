@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  DiscountType,
+  PromoCode,
+  PromoCodeTarget,
+  SubscriptionTier,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PromoCodesService } from './promo-codes.service';
+
+describe('PromoCodesService', () => {
+  let service: PromoCodesService;
+
+  const prisma = {
+    promoCode: { findUnique: jest.fn() },
+    promoCodeRedemption: { count: jest.fn() },
+    user: { findUnique: jest.fn() },
+  };
+
+  const promoCode = (overrides: Partial<PromoCode> = {}): PromoCode => ({
+    id: 'promo-1',
+    code: 'SPRING25',
+    description: null,
+    discountType: DiscountType.PERCENTAGE,
+    discountValue: new Decimal(25),
+    targets: [PromoCodeTarget.SUBSCRIPTION, PromoCodeTarget.TOURNAMENT_ENTRY],
+    tiers: [],
+    maxRedemptions: null,
+    redemptionCount: 0,
+    perUserLimit: 1,
+    startsAt: null,
+    expiresAt: null,
+    isActive: true,
+    createdById: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const discountFor = (code: PromoCode, amount: number) => {
+    prisma.promoCode.findUnique.mockResolvedValue(code);
+    return service.calculateDiscount('user-1', ' spring25 ', {
+      target: PromoCodeTarget.SUBSCRIPTION,
+      amount: new Decimal(amount),
+      tier: SubscriptionTier.PRO,
+    });
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.promoCodeRedemption.count.mockResolvedValue(0);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromoCodesService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<PromoCodesService>(PromoCodesService);
+  });
+
+  it('takes a percentage off the price', async () => {
+    const discount = await discountFor(promoCode(), 25);
+
+    expect(prisma.promoCode.findUnique).toHaveBeenCalledWith({
+      where: { code: 'SPRING25' },
+    });
+    expect(discount.discountAmount.toFixed(2)).toBe('6.25');
+    expect(discount.amountPaid.toFixed(2)).toBe('18.75');
+  });
+
+  it('rounds a percentage discount down to the cent', async () => {
+    const discount = await discountFor(
+      promoCode({ discountValue: new Decimal(33) }),
+      0.99,
+    );
+
+    // 33% of 0.99 is 0.3267
+    expect(discount.discountAmount.toFixed(2)).toBe('0.32');
+    expect(discount.amountPaid.toFixed(2)).toBe('0.67');
+  });
+
+  it('takes a fixed amount off the price', async () => {
+    const discount = await discountFor(
+      promoCode({
+        discountType: DiscountType.FIXED_AMOUNT,
+        discountValue: new Decimal(4),
+      }),
+      10,
+    );
+
+    expect(discount.discountAmount.toFixed(2)).toBe('4.00');
+    expect(discount.amountPaid.toFixed(2)).toBe('6.00');
+  });
+
+  it('never takes a fixed discount below zero', async () => {
+    const discount = await discountFor(
+      promoCode({
+        discountType: DiscountType.FIXED_AMOUNT,
+        discountValue: new Decimal(15),
+      }),
+      10,
+    );
+
+    expect(discount.discountAmount.toFixed(2)).toBe('10.00');
+    expect(discount.amountPaid.toFixed(2)).toBe('0.00');
+  });
+
+  it('rejects an unknown code', async () => {
+    prisma.promoCode.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.calculateDiscount('user-1', 'NOPE', {
+        target: PromoCodeTarget.SUBSCRIPTION,
+        amount: new Decimal(10),
+      }),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('rejects an expired code', async () => {
+    await expect(
+      discountFor(promoCode({ expiresAt: new Date(Date.now() - 1000) }), 10),
+    ).rejects.toThrow('Promo code is not active');
+  });
+
+  it('rejects a code for another target', async () => {
+    await expect(
+      discountFor(
+        promoCode({ targets: [PromoCodeTarget.TOURNAMENT_ENTRY] }),
+        10,
+      ),
+    ).rejects.toThrow('Promo code cannot be used for subscriptions');
+  });
+
+  it('rejects a code for another tier', async () => {
+    await expect(
+      discountFor(promoCode({ tiers: [SubscriptionTier.INTERMEDIATE] }), 10),
+    ).rejects.toThrow('Promo code is only valid for INTERMEDIATE');
+  });
+
+  it('rejects a code the user has used up', async () => {
+    prisma.promoCodeRedemption.count.mockResolvedValue(1);
+
+    await expect(discountFor(promoCode(), 10)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('rejects a fully redeemed code', async () => {
+    await expect(
+      discountFor(promoCode({ maxRedemptions: 5, redemptionCount: 5 }), 10),
+    ).rejects.toThrow('Promo code has been fully redeemed');
+  });
+});
@@ -0,0 +1,430 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import { roundPayout } from '../common/money';
+import {
+  DiscountType,
+  Prisma,
+  PromoCode,
+  PromoCodeTarget,
+  SubscriptionTier,
+} from '@prisma/client';
+import {
+  CheckPromoCodeDto,
+  CreatePromoCodeDto,
+  PromoCodeCheckResponseDto,
+  PromoCodeListResponseDto,
+  PromoCodeQueryDto,
+  PromoCodeResponseDto,
+  UpdatePromoCodeDto,
+} from './promo-codes.dtos';
+
+/**
+ * What a promo code is being used for
+ */
+export interface PromoCodeUse {
+  target: PromoCodeTarget;
+  // Price before the discount
+  amount: Decimal;
+  // Tier being bought at subscription checkout. For tournament entry the
+  // user's current tier is used.
+  tier?: SubscriptionTier;
+  // Recorded with the redemption, e.g. the tournament entered
+  reference?: string;
+}
+
+export interface PromoDiscount {
+  promoCodeId: string;
+  code: string;
+  originalAmount: Decimal;
+  discountAmount: Decimal;
+  amountPaid: Decimal;
+}
+
+@Injectable()
+export class PromoCodesService {
+  private readonly logger = new Logger(PromoCodesService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create a promo code
+   */
+  async createPromoCode(
+    createDto: CreatePromoCodeDto,
+    createdById?: string,
+  ): Promise<PromoCodeResponseDto> {
+    this.validateDiscount(createDto.discountType, createDto.discountValue);
+    this.validateWindow(createDto.startsAt, createDto.expiresAt);
+
+    try {
+      const promoCode = await this.prisma.promoCode.create({
+        data: {
+          ...createDto,
+          code: this.normalizeCode(createDto.code),
+          discountValue: new Decimal(createDto.discountValue),
+          tiers: createDto.tiers ?? [],
+          createdById,
+        },
+      });
+
+      this.logger.log(`Promo code created: ${promoCode.code}`);
+      return this.mapPromoCodeToDto(promoCode);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('Promo code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get promo codes with filtering and pagination
+   */
+  async getPromoCodes(
+    query: PromoCodeQueryDto,
+  ): Promise<PromoCodeListResponseDto> {
+    const { target, isActive, page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PromoCodeWhereInput = {};
+
+    if (target) {
+      where.targets = { has: target };
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive;
+    }
+
+    const [promoCodes, total] = await Promise.all([
+      this.prisma.promoCode.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.promoCode.count({ where }),
+    ]);
+
+    return {
+      promoCodes: promoCodes.map((promoCode) =>
+        this.mapPromoCodeToDto(promoCode),
+      ),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Get a promo code by ID
+   */
+  async getPromoCodeById(id: string): Promise<PromoCodeResponseDto> {
+    const promoCode = await this.prisma.promoCode.findUnique({
+      where: { id },
+    });
+
+    if (!promoCode) {
+      throw new NotFoundException('Promo code not found');
+    }
+
+    return this.mapPromoCodeToDto(promoCode);
+  }
+
+  /**
+   * Update a promo code. The code itself cannot be changed once issued.
+   */
+  async updatePromoCode(
+    id: string,
+    updateDto: UpdatePromoCodeDto,
+  ): Promise<PromoCodeResponseDto> {
+    const existing = await this.prisma.promoCode.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundException('Promo code not found');
+    }
+
+    this.validateDiscount(
+      updateDto.discountType ?? existing.discountType,
+      updateDto.discountValue ?? Number(existing.discountValue),
+    );
+    this.validateWindow(
+      updateDto.startsAt ?? existing.startsAt,
+      updateDto.expiresAt ?? existing.expiresAt,
+    );
+
+    const promoCode = await this.prisma.promoCode.update({
+      where: { id },
+      data: {
+        ...updateDto,
+        discountValue:
+          updateDto.discountValue !== undefined
+            ? new Decimal(updateDto.discountValue)
+            : undefined,
+      },
+    });
+
+    return this.mapPromoCodeToDto(promoCode);
+  }
+
+  /**
+   * Deactivate a promo code. Past redemptions are kept.
+   */
+  async deletePromoCode(id: string): Promise<{ message: string }> {
+    const existing = await this.prisma.promoCode.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundException('Promo code not found');
+    }
+
+    await this.prisma.promoCode.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    return { message: 'Promo code deactivated successfully' };
+  }
+
+  /**
+   * Check whether the user can use a code before checkout
+   */
+  async checkPromoCode(
+    userId: string,
+    checkDto: CheckPromoCodeDto,
+  ): Promise<PromoCodeCheckResponseDto> {
+    const promoCode = await this.findByCode(this.prisma, checkDto.code);
+    const used = await this.assertUsable(this.prisma, promoCode, userId, {
+      target: checkDto.target,
+      tier: checkDto.tier,
+    });
+
+    return {
+      code: promoCode.code,
+      description: promoCode.description ?? undefined,
+      discountType: promoCode.discountType,
+      discountValue: promoCode.discountValue.toFixed(2),
+      remainingUses: promoCode.perUserLimit - used,
+    };
+  }
+
+  /**
+   * Work out the discount a code gives without using it up
+   */
+  async calculateDiscount(
+    userId: string,
+    code: string,
+    use: PromoCodeUse,
+  ): Promise<PromoDiscount> {
+    const promoCode = await this.findByCode(this.prisma, code);
+    await this.assertUsable(this.prisma, promoCode, userId, use);
+
+    return this.applyDiscount(promoCode, use.amount);
+  }
+
+  /**
+   * Use a code inside the caller's transaction. The code row is locked so
+   * usage limits hold when the same code is redeemed concurrently.
+   */
+  async redeem(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    code: string,
+    use: PromoCodeUse,
+  ): Promise<PromoDiscount> {
+    const normalized = this.normalizeCode(code);
+    await tx.$queryRaw`
+      SELECT "id" FROM "promo_codes" WHERE "code" = ${normalized} FOR UPDATE
+    `;
+
+    const promoCode = await this.findByCode(tx, normalized);
+    await this.assertUsable(tx, promoCode, userId, use);
+
+    const discount = this.applyDiscount(promoCode, use.amount);
+
+    await tx.promoCode.update({
+      where: { id: promoCode.id },
+      data: { redemptionCount: { increment: 1 } },
+    });
+
+    await tx.promoCodeRedemption.create({
+      data: {
+        promoCodeId: promoCode.id,
+        userId,
+        target: use.target,
+        reference: use.reference,
+        originalAmount: discount.originalAmount,
+        discountAmount: discount.discountAmount,
+        amountPaid: discount.amountPaid,
+      },
+    });
+
+    this.logger.log(
+      `User ${userId} redeemed ${promoCode.code} for ${use.target} (${discount.discountAmount.toFixed(2)} off)`,
+    );
+
+    return discount;
+  }
+
+  private async findByCode(
+    client: Prisma.TransactionClient,
+    code: string,
+  ): Promise<PromoCode> {
+    const promoCode = await client.promoCode.findUnique({
+      where: { code: this.normalizeCode(code) },
+    });
+
+    if (!promoCode) {
+      throw new NotFoundException('Promo code is not valid');
+    }
+
+    return promoCode;
+  }
+
+  /**
+   * Throws unless the user can use the code for `use`. Returns how many
+   * times the user has already used it.
+   */
+  private async assertUsable(
+    client: Prisma.TransactionClient,
+    promoCode: PromoCode,
+    userId: string,
+    use: Partial<PromoCodeUse> & Pick<PromoCodeUse, 'target'>,
+  ): Promise<number> {
+    const now = new Date();
+
+    if (
+      !promoCode.isActive ||
+      (promoCode.startsAt && promoCode.startsAt > now) ||
+      (promoCode.expiresAt && promoCode.expiresAt <= now)
+    ) {
+      throw new BadRequestException('Promo code is not active');
+    }
+
+    if (!promoCode.targets.includes(use.target)) {
+      throw new BadRequestException(
+        use.target === PromoCodeTarget.SUBSCRIPTION
+          ? 'Promo code cannot be used for subscriptions'
+          : 'Promo code cannot be used for tournament entry',
+      );
+    }
+
+    if (use.amount && use.amount.lessThanOrEqualTo(0)) {
+      throw new BadRequestException('There is nothing to pay to discount');
+    }
+
+    if (promoCode.tiers.length > 0) {
+      const tier = use.tier ?? (await this.getActiveTier(client, userId));
+
+      if (!promoCode.tiers.includes(tier)) {
+        throw new BadRequestException(
+          `Promo code is only valid for ${promoCode.tiers.join(', ')}`,
+        );
+      }
+    }
+
+    if (
+      promoCode.maxRedemptions !== null &&
+      promoCode.redemptionCount >= promoCode.maxRedemptions
+    ) {
+      throw new BadRequestException('Promo code has been fully redeemed');
+    }
+
+    const used = await client.promoCodeRedemption.count({
+      where: { promoCodeId: promoCode.id, userId },
+    });
+
+    if (used >= promoCode.perUserLimit) {
+      throw new BadRequestException('You have already used this promo code');
+    }
+
+    return used;
+  }
+
+  private async getActiveTier(
+    client: Prisma.TransactionClient,
+    userId: string,
+  ): Promise<SubscriptionTier> {
+    const user = await client.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionTier: true, subscriptionExpiry: true },
+    });
+
+    return user?.subscriptionExpiry && user.subscriptionExpiry > new Date()
+      ? user.subscriptionTier
+      : SubscriptionTier.ENTRY;
+  }
+
+  /**
+   * Percentage discounts round down to the cent; fixed discounts never take
+   * the price below zero
+   */
+  private applyDiscount(promoCode: PromoCode, amount: Decimal): PromoDiscount {
+    const discountAmount =
+      promoCode.discountType === DiscountType.PERCENTAGE
+        ? roundPayout(amount.times(promoCode.discountValue).dividedBy(100))
+        : Decimal.min(promoCode.discountValue, amount);
+
+    return {
+      promoCodeId: promoCode.id,
+      code: promoCode.code,
+      originalAmount: amount,
+      discountAmount,
+      amountPaid: amount.minus(discountAmount),
+    };
+  }
+
+  private validateDiscount(discountType: DiscountType, value: number): void {
+    if (discountType === DiscountType.PERCENTAGE && value > 100) {
+      throw new BadRequestException(
+        'Percentage discounts cannot be more than 100',
+      );
+    }
+  }
+
+  private validateWindow(
+    startsAt: string | Date | null,
+    expiresAt: string | Date | null,
+  ): void {
+    if (startsAt && expiresAt && new Date(expiresAt) <= new Date(startsAt)) {
+      throw new BadRequestException('Expiry must be after the start date');
+    }
+  }
+
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  private mapPromoCodeToDto(promoCode: PromoCode): PromoCodeResponseDto {
+    return {
+      id: promoCode.id,
+      code: promoCode.code,
+      description: promoCode.description ?? undefined,
+      discountType: promoCode.discountType,
+      discountValue: promoCode.discountValue.toFixed(2),
+      targets: promoCode.targets,
+      tiers: promoCode.tiers,
+      maxRedemptions: promoCode.maxRedemptions ?? undefined,
+      perUserLimit: promoCode.perUserLimit,
+      redemptionCount: promoCode.redemptionCount,
+      startsAt: promoCode.startsAt ?? undefined,
+      expiresAt: promoCode.expiresAt ?? undefined,
+      isActive: promoCode.isActive,
+      createdAt: promoCode.createdAt,
+      updatedAt: promoCode.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,282 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpStatus,
+  UseInterceptors,
+  UploadedFile,
+  ParseFilePipe,
+  MaxFileSizeValidator,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { QuestionDifficulty, UserRole } from '@prisma/client';
+import { QuestionBankService } from './question-bank.service';
+import {
+  CreateQuestionTemplateDto,
+  UpdateQuestionTemplateDto,
+  ImportQuestionTemplatesDto,
+  QuestionTemplateQueryDto,
+  QuestionTemplateResponseDto,
+  QuestionTemplateListResponseDto,
+  QuestionImportResponseDto,
+} from './question-bank.dtos';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+
+@ApiTags('Question Bank')
+@Controller('question-bank')
+@ApiBearerAuth()
+export class QuestionBankController {
+  constructor(private readonly questionBankService: QuestionBankService) {}
+
+  @Post()
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.CONTENT_MANAGER)
+  @ApiOperation({
+    summary: 'Create question template',
+    description:
+      'Adds a multiple-choice question to a content item. Daily tasks on that content are issued with a random sample of its active questions. Admin and Content Manager only.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Question template created successfully',
+    type: SuccessResponse<QuestionTemplateResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid options or correct answer',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Content Manager access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Content not found',
+    type: ErrorResponse,
+  })
+  async createTemplate(
+    @Req() req,
+    @Body() createDto: CreateQuestionTemplateDto,
+  ): Promise<SuccessResponse<QuestionTemplateResponseDto>> {
+    const result = await this.questionBankService.createTemplate(
+      createDto,
+      req.user.userId,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Question template created successfully',
+      result,
+    );
+  }
+
+  @Post('import')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.CONTENT_MANAGER)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Bulk import question templates',
+    description:
+      'Imports questions for a content item from a JSON file (array of { question, options, correctAnswer, difficulty?, explanation?, tags? }) or a CSV file with a header row and options and tags separated by "|". Any invalid row rejects the whole file. Admin and Content Manager only.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file', 'contentId'],
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        contentId: { type: 'string' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Question templates imported successfully',
+    type: SuccessResponse<QuestionImportResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid file or rows',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Content Manager access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Content not found',
+    type: ErrorResponse,
+  })
+  async importTemplates(
+    @Req() req,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [new MaxFileSizeValidator({ maxSize: 2 * 1024 * 1024 })], // 2MB
+      }),
+    )
+    file: Express.Multer.File,
+    @Body() importDto: ImportQuestionTemplatesDto,
+  ): Promise<SuccessResponse<QuestionImportResponseDto>> {
+    const result = await this.questionBankService.importTemplates(
+      importDto.contentId,
+      file,
+      req.user.userId,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Question templates imported successfully',
+      result,
+    );
+  }
+
+  @Get()
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.CONTENT_MANAGER)
+  @ApiOperation({
+    summary: 'Get question templates',
+    description:
+      'Retrieves question templates with pagination and filtering. Admin and Content Manager only.',
+  })
+  @ApiQuery({ name: 'contentId', required: false, type: String })
+  @ApiQuery({ name: 'difficulty', required: false, enum: QuestionDifficulty })
+  @ApiQuery({ name: 'tag', required: false, type: String })
+  @ApiQuery({ name: 'isActive', required: false, type: Boolean })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Question templates retrieved successfully',
+    type: SuccessResponse<QuestionTemplateListResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin or Content Manager access required',
+    type: ErrorResponse,
+  })
+  async getTemplates(
+    @Query() query: QuestionTemplateQueryDto,
+  ): Promise<SuccessResponse<QuestionTemplateListResponseDto>> {
+    const result = await this.questionBankService.getTemplates(query);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Question templates retrieved successfully',
+      result,
+    );
+  }
+
+  @Get(':id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.CONTENT_MANAGER)
+  @ApiOperation({
+    summary: 'Get question template by ID',
+    description:
+      'Retrieves a single question template. Admin and Content Manager only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Question template retrieved successfully',
+    type: SuccessResponse<QuestionTemplateResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Question template not found',
+    type: ErrorResponse,
+  })
+  async getTemplateById(
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<QuestionTemplateResponseDto>> {
+    const result = await this.questionBankService.getTemplateById(id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Question template retrieved successfully',
+      result,
+    );
+  }
+
+  @Put(':id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.CONTENT_MANAGER)
+  @ApiOperation({
+    summary: 'Update question template',
+    description:
+      'Updates a question template. Tasks already issued keep their own copy of the question. Admin and Content Manager only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Question template updated successfully',
+    type: SuccessResponse<QuestionTemplateResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid options or correct answer',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Question template not found',
+    type: ErrorResponse,
+  })
+  async updateTemplate(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateQuestionTemplateDto,
+  ): Promise<SuccessResponse<QuestionTemplateResponseDto>> {
+    const result = await this.questionBankService.updateTemplate(id, updateDto);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Question template updated successfully',
+      result,
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.CONTENT_MANAGER)
+  @ApiOperation({
+    summary: 'Delete question template',
+    description:
+      'Deactivates a question template so it is no longer issued. Admin and Content Manager only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Question template deleted successfully',
+    type: SuccessResponse<{ message: string }>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Question template not found',
+    type: ErrorResponse,
+  })
+  async deleteTemplate(
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<{ message: string }>> {
+    const result = await this.questionBankService.deleteTemplate(id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Question template deleted successfully',
+      result,
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { QuestionDifficulty } from '@prisma/client';
+
+export class CreateQuestionTemplateDto {
+  @ApiProperty({ description: 'Content the question belongs to' })
+  @IsString()
+  @IsNotEmpty()
+  contentId: string;
+
+  @ApiProperty({ example: 'What is the main theme of chapter one?' })
+  @IsString()
+  @IsNotEmpty()
+  question: string;
+
+  @ApiProperty({
+    type: [String],
+    example: ['Habits', 'Goals', 'Motivation', 'Discipline'],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @IsString({ each: true })
+  options: string[];
+
+  @ApiProperty({
+    example: 'Habits',
+    description: 'Must match one of the options',
+  })
+  @IsString()
+  @IsNotEmpty()
+  correctAnswer: string;
+
+  @ApiPropertyOptional({
+    enum: QuestionDifficulty,
+    default: QuestionDifficulty.MEDIUM,
+  })
+  @IsOptional()
+  @IsEnum(QuestionDifficulty)
+  difficulty?: QuestionDifficulty;
+
+  @ApiPropertyOptional({ description: 'Shown to the user after grading' })
+  @IsOptional()
+  @IsString()
+  explanation?: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['habits', 'productivity'],
+    description: 'Tags used to draw questions for recurring tournaments',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({ description: 'Additional metadata' })
+  @IsOptional()
+  @IsObject()
+  metadata?: any;
+}
+
+export class UpdateQuestionTemplateDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  question?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @IsString({ each: true })
+  options?: string[];
+
+  @ApiPropertyOptional({ description: 'Must match one of the options' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  correctAnswer?: string;
+
+  @ApiPropertyOptional({ enum: QuestionDifficulty })
+  @IsOptional()
+  @IsEnum(QuestionDifficulty)
+  difficulty?: QuestionDifficulty;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  explanation?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({ description: 'Whether the template can be issued' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({ description: 'Additional metadata' })
+  @IsOptional()
+  @IsObject()
+  metadata?: any;
+}
+
+export class ImportQuestionTemplatesDto {
+  @ApiProperty({ description: 'Content the imported questions belong to' })
+  @IsString()
+  @IsNotEmpty()
+  contentId: string;
+}
+
+export class QuestionTemplateQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by content' })
+  @IsOptional()
+  @IsString()
+  contentId?: string;
+
+  @ApiPropertyOptional({ enum: QuestionDifficulty })
+  @IsOptional()
+  @IsEnum(QuestionDifficulty)
+  difficulty?: QuestionDifficulty;
+
+  @ApiPropertyOptional({ description: 'Filter by tag' })
+  @IsOptional()
+  @IsString()
+  tag?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by active status',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number = 20;
+}
+
+export class QuestionTemplateResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  contentId: string;
+
+  @ApiProperty()
+  question: string;
+
+  @ApiProperty({ type: [String] })
+  options: string[];
+
+  @ApiProperty()
+  correctAnswer: string;
+
+  @ApiProperty({ enum: QuestionDifficulty })
+  difficulty: QuestionDifficulty;
+
+  @ApiPropertyOptional()
+  explanation?: string;
+
+  @ApiProperty({ type: [String] })
+  tags: string[];
+
+  @ApiProperty()
+  isActive: boolean;
+
+  @ApiPropertyOptional()
+  createdById?: string;
+
+  @ApiPropertyOptional()
+  metadata?: any;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<QuestionTemplateResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class QuestionTemplateListResponseDto {
+  @ApiProperty({ type: [QuestionTemplateResponseDto] })
+  questions: QuestionTemplateResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class QuestionImportResponseDto {
+  @ApiProperty({ example: 25 })
+  imported: number;
+
+  @ApiProperty({ type: [QuestionTemplateResponseDto] })
+  questions: QuestionTemplateResponseDto[];
+}
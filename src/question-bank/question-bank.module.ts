@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { QuestionBankService } from './question-bank.service';
+import { QuestionBankController } from './question-bank.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [QuestionBankController],
+  providers: [QuestionBankService],
+  exports: [QuestionBankService],
+})
+export class QuestionBankModule {}
@@ -0,0 +1,468 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma, QuestionDifficulty, QuestionTemplate } from '@prisma/client';
+import {
+  CreateQuestionTemplateDto,
+  UpdateQuestionTemplateDto,
+  QuestionTemplateQueryDto,
+  QuestionTemplateResponseDto,
+  QuestionTemplateListResponseDto,
+  QuestionImportResponseDto,
+} from './question-bank.dtos';
+
+type TemplateInput = Pick<
+  CreateQuestionTemplateDto,
+  | 'question'
+  | 'options'
+  | 'correctAnswer'
+  | 'difficulty'
+  | 'explanation'
+  | 'tags'
+>;
+
+@Injectable()
+export class QuestionBankService {
+  private readonly logger = new Logger(QuestionBankService.name);
+
+  private readonly maxImportRows = 500;
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Map Prisma question template to QuestionTemplateResponseDto
+   */
+  private mapTemplateToDto(
+    template: QuestionTemplate,
+  ): QuestionTemplateResponseDto {
+    return new QuestionTemplateResponseDto({
+      ...template,
+      explanation: template.explanation ?? undefined,
+      createdById: template.createdById ?? undefined,
+    });
+  }
+
+  /**
+   * Create a question template for a content item
+   */
+  async createTemplate(
+    createDto: CreateQuestionTemplateDto,
+    createdById?: string,
+  ): Promise<QuestionTemplateResponseDto> {
+    await this.assertContentExists(createDto.contentId);
+    this.validateTemplate(createDto);
+
+    const template = await this.prisma.questionTemplate.create({
+      data: {
+        ...createDto,
+        options: this.normalizeOptions(createDto.options),
+        correctAnswer: createDto.correctAnswer.trim(),
+        tags: this.normalizeTags(createDto.tags),
+        createdById,
+      },
+    });
+
+    this.logger.log(`Question template created: ${template.id}`);
+    return this.mapTemplateToDto(template);
+  }
+
+  /**
+   * Get question templates with filtering and pagination
+   */
+  async getTemplates(
+    query: QuestionTemplateQueryDto,
+  ): Promise<QuestionTemplateListResponseDto> {
+    const {
+      contentId,
+      difficulty,
+      tag,
+      isActive,
+      page = 1,
+      limit = 20,
+    } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.QuestionTemplateWhereInput = {
+      isActive: isActive ?? true,
+    };
+
+    if (contentId) {
+      where.contentId = contentId;
+    }
+
+    if (difficulty) {
+      where.difficulty = difficulty;
+    }
+
+    if (tag) {
+      where.tags = { has: tag.trim().toLowerCase() };
+    }
+
+    const [templates, total] = await Promise.all([
+      this.prisma.questionTemplate.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.questionTemplate.count({ where }),
+    ]);
+
+    return {
+      questions: templates.map((template) => this.mapTemplateToDto(template)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Get a question template by ID
+   */
+  async getTemplateById(id: string): Promise<QuestionTemplateResponseDto> {
+    const template = await this.prisma.questionTemplate.findUnique({
+      where: { id },
+    });
+
+    if (!template) {
+      throw new NotFoundException('Question template not found');
+    }
+
+    return this.mapTemplateToDto(template);
+  }
+
+  /**
+   * Update a question template
+   */
+  async updateTemplate(
+    id: string,
+    updateDto: UpdateQuestionTemplateDto,
+  ): Promise<QuestionTemplateResponseDto> {
+    const existing = await this.prisma.questionTemplate.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundException('Question template not found');
+    }
+
+    const merged = {
+      question: updateDto.question ?? existing.question,
+      options: updateDto.options ?? existing.options,
+      correctAnswer: updateDto.correctAnswer ?? existing.correctAnswer,
+      difficulty: updateDto.difficulty ?? existing.difficulty,
+    };
+    this.validateTemplate(merged);
+
+    const template = await this.prisma.questionTemplate.update({
+      where: { id },
+      data: {
+        ...updateDto,
+        options: this.normalizeOptions(merged.options),
+        correctAnswer: merged.correctAnswer.trim(),
+        tags: updateDto.tags ? this.normalizeTags(updateDto.tags) : undefined,
+      },
+    });
+
+    this.logger.log(`Question template updated: ${id}`);
+    return this.mapTemplateToDto(template);
+  }
+
+  /**
+   * Delete a question template (soft delete by setting isActive to false).
+   * Questions already copied into tasks are unaffected.
+   */
+  async deleteTemplate(id: string): Promise<{ message: string }> {
+    const template = await this.prisma.questionTemplate.findUnique({
+      where: { id },
+    });
+
+    if (!template) {
+      throw new NotFoundException('Question template not found');
+    }
+
+    await this.prisma.questionTemplate.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    this.logger.log(`Question template deleted: ${id}`);
+    return { message: 'Question template deleted successfully' };
+  }
+
+  /**
+   * Bulk import question templates from a JSON or CSV file.
+   * The import is all-or-nothing: any invalid row rejects the whole file.
+   */
+  async importTemplates(
+    contentId: string,
+    file: Express.Multer.File,
+    createdById?: string,
+  ): Promise<QuestionImportResponseDto> {
+    await this.assertContentExists(contentId);
+
+    const rows = this.isCsv(file)
+      ? this.parseCsvRows(file.buffer.toString('utf8'))
+      : this.parseJsonRows(file.buffer.toString('utf8'));
+
+    if (rows.length === 0) {
+      throw new BadRequestException('Import file contains no questions');
+    }
+
+    if (rows.length > this.maxImportRows) {
+      throw new BadRequestException(
+        `Import is limited to ${this.maxImportRows} questions per file`,
+      );
+    }
+
+    const errors: string[] = [];
+    rows.forEach((row, index) => {
+      try {
+        this.validateTemplate(row);
+      } catch (error) {
+        errors.push(`Row ${index + 1}: ${error.message}`);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `Import rejected: ${errors.slice(0, 20).join('; ')}`,
+      );
+    }
+
+    const templates = await this.prisma.$transaction(
+      rows.map((row) =>
+        this.prisma.questionTemplate.create({
+          data: {
+            contentId,
+            question: row.question.trim(),
+            options: this.normalizeOptions(row.options),
+            correctAnswer: row.correctAnswer.trim(),
+            difficulty: row.difficulty ?? QuestionDifficulty.MEDIUM,
+            explanation: row.explanation || undefined,
+            tags: this.normalizeTags(row.tags),
+            createdById,
+          },
+        }),
+      ),
+    );
+
+    this.logger.log(
+      `Imported ${templates.length} question templates for content ${contentId}`,
+    );
+    return {
+      imported: templates.length,
+      questions: templates.map((template) => this.mapTemplateToDto(template)),
+    };
+  }
+
+  /**
+   * Pick random active templates for a content item (used by the task engine)
+   */
+  async getRandomTemplates(
+    contentId: string,
+    limit: number,
+  ): Promise<QuestionTemplate[]> {
+    const templates = await this.prisma.questionTemplate.findMany({
+      where: { contentId, isActive: true },
+    });
+
+    for (let i = templates.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [templates[i], templates[j]] = [templates[j], templates[i]];
+    }
+
+    return templates.slice(0, limit);
+  }
+
+  private async assertContentExists(contentId: string): Promise<void> {
+    const content = await this.prisma.content.findUnique({
+      where: { id: contentId },
+      select: { id: true },
+    });
+
+    if (!content) {
+      throw new NotFoundException('Content not found');
+    }
+  }
+
+  /**
+   * Validate a template's options and answer
+   */
+  private validateTemplate(template: Partial<TemplateInput>): void {
+    if (!template.question || !template.question.trim()) {
+      throw new BadRequestException('Question text is required');
+    }
+
+    if (!Array.isArray(template.options)) {
+      throw new BadRequestException('Options must be a list');
+    }
+
+    const options = this.normalizeOptions(template.options);
+    if (options.length < 2) {
+      throw new BadRequestException('At least 2 options are required');
+    }
+
+    const distinct = new Set(options.map((o) => o.toLowerCase()));
+    if (distinct.size !== options.length) {
+      throw new BadRequestException('Options must be unique');
+    }
+
+    const correctAnswer = template.correctAnswer?.trim().toLowerCase();
+    if (!correctAnswer || !distinct.has(correctAnswer)) {
+      throw new BadRequestException(
+        'Correct answer must match one of the options',
+      );
+    }
+
+    if (
+      template.difficulty &&
+      !Object.values(QuestionDifficulty).includes(template.difficulty)
+    ) {
+      throw new BadRequestException(
+        `Difficulty must be one of: ${Object.values(QuestionDifficulty).join(', ')}`,
+      );
+    }
+  }
+
+  private normalizeOptions(options: string[]): string[] {
+    return options.map((option) => String(option).trim()).filter(Boolean);
+  }
+
+  /**
+   * Tags are matched case-insensitively, so they are stored lowercase
+   */
+  private normalizeTags(tags?: string[]): string[] {
+    if (!Array.isArray(tags)) {
+      return [];
+    }
+
+    const normalized = tags
+      .map((tag) => String(tag).trim().toLowerCase())
+      .filter(Boolean);
+    return [...new Set(normalized)];
+  }
+
+  private isCsv(file: Express.Multer.File): boolean {
+    return (
+      file.mimetype === 'text/csv' ||
+      file.originalname?.toLowerCase().endsWith('.csv')
+    );
+  }
+
+  /**
+   * JSON imports are an array of questions, or an object with a `questions` array
+   */
+  private parseJsonRows(text: string): Partial<TemplateInput>[] {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new BadRequestException('Import file is not valid JSON');
+    }
+
+    const rows = Array.isArray(parsed) ? parsed : parsed?.questions;
+    if (!Array.isArray(rows)) {
+      throw new BadRequestException(
+        'JSON import must be an array of questions or { "questions": [...] }',
+      );
+    }
+
+    return rows.map((row) => ({
+      question: row?.question,
+      options: row?.options,
+      correctAnswer: row?.correctAnswer,
+      difficulty: row?.difficulty?.toUpperCase(),
+      explanation: row?.explanation,
+      tags: typeof row?.tags === 'string' ? row.tags.split('|') : row?.tags,
+    }));
+  }
+
+  /**
+   * CSV imports need a header row with question, options, correctAnswer and
+   * optional difficulty, explanation and tags columns. Options and tags are
+   * separated by `|`.
+   */
+  private parseCsvRows(text: string): Partial<TemplateInput>[] {
+    const [header, ...records] = this.parseCsv(text);
+
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map((column) => column.trim());
+    for (const required of ['question', 'options', 'correctAnswer']) {
+      if (!columns.includes(required)) {
+        throw new BadRequestException(`CSV header is missing "${required}"`);
+      }
+    }
+
+    return records
+      .filter((record) => record.some((value) => value.trim() !== ''))
+      .map((record) => {
+        const row = Object.fromEntries(
+          columns.map((column, i) => [column, record[i] ?? '']),
+        );
+        return {
+          question: row.question,
+          options: row.options.split('|'),
+          correctAnswer: row.correctAnswer,
+          difficulty: (row.difficulty?.trim().toUpperCase() ||
+            undefined) as QuestionDifficulty,
+          explanation: row.explanation?.trim() || undefined,
+          tags: row.tags ? row.tags.split('|') : undefined,
+        };
+      });
+  }
+
+  /**
+   * Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines
+   */
+  private parseCsv(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    return records;
+  }
+}
@@ -3,6 +3,7 @@ import { PrismaService } from '../prisma/prisma.service';
 import { WalletService } from '../wallet/wallet.service';
 import { Decimal } from '@prisma/client/runtime/library';
 import { Prisma } from '@prisma/client';  // ADD THIS IMPORT
+import { roundPayout } from '../common/money';
 import { 
   ReferralLinkResponseDto,
   ReferralStatsResponseDto
@@ -29,7 +30,8 @@ export class ReferralService {
     ]
   };
 
-  // Process referral bonus when user subscribes
+  // Process referral bonus when user subscribes. subscriptionAmount is what the
+  // user actually paid (after proration and promo codes), not the list price.
   async processSubscriptionReferral(userId: string, subscriptionAmount: Decimal) {
     this.logger.log(`Processing subscription referral for user: ${userId}, amount: ${subscriptionAmount}`);
 
@@ -50,13 +52,19 @@ export class ReferralService {
       return null;
     }
 
-    const directBonusAmount = subscriptionAmount.times(this.bonusConfig.directReferral);
+    // Bonuses round down to whole cents, see the rounding policy in common/money
+    const directBonusAmount = roundPayout(subscriptionAmount.times(this.bonusConfig.directReferral));
+
+    if (directBonusAmount.isZero()) {
+      this.logger.log(`Subscription amount too small for a referral bonus for user: ${userId}`);
+      return null;
+    }
     
     try {
       // Use WalletService to add funds to referrer's wallet
       await this.walletService.addFunds(
         user.referredById,
-        Number(directBonusAmount),
+        directBonusAmount,
         TransactionType.REFERRAL_BONUS,
         `Direct referral bonus from ${user.firstName} ${user.lastName}'s subscription`,
         {
@@ -131,13 +139,18 @@ export class ReferralService {
     }
 
     const levelBonusPercentage = this.bonusConfig.levels[currentLevel - 1];
-    const levelBonusAmount = subscriptionAmount.times(levelBonusPercentage);
+    const levelBonusAmount = roundPayout(subscriptionAmount.times(levelBonusPercentage));
+
+    // Smaller percentages further up the chain can round down to nothing
+    if (levelBonusAmount.isZero()) {
+      return;
+    }
 
     try {
       // Use WalletService to add funds to level referrer's wallet
       await this.walletService.addFunds(
         referrer.referredById,
-        Number(levelBonusAmount),
+        levelBonusAmount,
         TransactionType.REFERRAL_BONUS,
         `Level ${currentLevel} referral bonus from network`,
         {
@@ -184,11 +197,17 @@ export class ReferralService {
     }
   }
 
-  // Process task completion referral bonus
-  async processTaskReferral(userId: string, taskReward: Decimal) {
+  // Process task completion referral bonus, optionally inside the caller's transaction
+  async processTaskReferral(
+    userId: string,
+    taskReward: Decimal,
+    referenceId?: string,
+    tx?: Prisma.TransactionClient
+  ) {
     this.logger.log(`Processing task referral for user: ${userId}, reward: ${taskReward}`);
 
-    const user = await this.prisma.user.findUnique({
+    const prisma = tx ?? this.prisma;
+    const user = await prisma.user.findUnique({
       where: { id: userId },
       include: {
         referrer: {
@@ -204,25 +223,32 @@ export class ReferralService {
       return null;
     }
 
-    const taskBonusAmount = taskReward.times(this.bonusConfig.directReferral);
+    const taskBonusAmount = roundPayout(taskReward.times(this.bonusConfig.directReferral));
+
+    if (taskBonusAmount.isZero()) {
+      this.logger.log(`Task reward too small for a referral bonus for user: ${userId}`);
+      return null;
+    }
 
     try {
       // Use WalletService to add funds to referrer's wallet
       await this.walletService.addFunds(
         user.referredById,
-        Number(taskBonusAmount),
+        taskBonusAmount,
         TransactionType.REFERRAL_BONUS,
         `Task completion bonus from ${user.firstName} ${user.lastName}`,
         {
           referredUserId: userId,
+          taskId: referenceId,
           taskReward: taskReward.toString(),
           bonusPercentage: this.bonusConfig.directReferral.toString(),
           timestamp: new Date().toISOString()
-        }
+        },
+        tx
       );
 
       // Create referral bonus record - FIXED
-      await this.prisma.referralBonus.create({
+      await prisma.referralBonus.create({
         data: {
           referrerId: user.referredById,
           referredUserId: userId,
@@ -231,6 +257,7 @@ export class ReferralService {
           amount: taskBonusAmount,
           type: 'TASK_REWARD',
           status: 'PAID',
+          referenceId,
           metadata: {
             referredUserId: userId,
             taskReward: taskReward.toString(),
@@ -0,0 +1,163 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SubscriptionTier, TaskType, UserRole } from '@prisma/client';
+import { RewardsService } from './rewards.service';
+import {
+  CreateRewardRuleDto,
+  RewardRuleQueryDto,
+  RewardRuleResponseDto,
+  RewardScheduleResponseDto,
+} from './rewards.dtos';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+
+@ApiTags('Rewards')
+@Controller('rewards')
+export class RewardsController {
+  constructor(private readonly rewardsService: RewardsService) {}
+
+  @Get('schedule')
+  @ApiOperation({
+    summary: 'Get reward schedule',
+    description:
+      'Retrieves the reward per task, daily quota and pass mark currently in effect for each subscription tier and task type.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reward schedule retrieved successfully',
+    type: SuccessResponse<RewardScheduleResponseDto>,
+  })
+  async getSchedule(): Promise<SuccessResponse<RewardScheduleResponseDto>> {
+    const result = await this.rewardsService.getSchedule();
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Reward schedule retrieved successfully',
+      result,
+    );
+  }
+
+  @Get('rules')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get reward rule history (Admin only)',
+    description:
+      'Retrieves every stored reward rule version, newest first, including rules scheduled for the future.',
+  })
+  @ApiQuery({ name: 'tier', required: false, enum: SubscriptionTier })
+  @ApiQuery({ name: 'taskType', required: false, enum: TaskType })
+  @ApiResponse({
+    status: 200,
+    description: 'Reward rules retrieved successfully',
+    type: SuccessResponse<RewardRuleResponseDto[]>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  async getRules(
+    @Query() query: RewardRuleQueryDto,
+  ): Promise<SuccessResponse<RewardRuleResponseDto[]>> {
+    const result = await this.rewardsService.getRules(query);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Reward rules retrieved successfully',
+      result,
+    );
+  }
+
+  @Post('rules')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Create reward rule version (Admin only)',
+    description:
+      'Adds a new version of the rule for a tier and task type, effective now or at a future date. Tasks already issued keep the rule they were issued under.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Reward rule created successfully',
+    type: SuccessResponse<RewardRuleResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or effective date in the past',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  async createRule(
+    @Req() req,
+    @Body() createDto: CreateRewardRuleDto,
+  ): Promise<SuccessResponse<RewardRuleResponseDto>> {
+    const result = await this.rewardsService.createRule(
+      createDto,
+      req.user.userId,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Reward rule created successfully',
+      result,
+    );
+  }
+
+  @Delete('rules/:id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Delete scheduled reward rule (Admin only)',
+    description:
+      'Deletes a rule version that has not taken effect yet. Rules already in effect are kept for history.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reward rule deleted successfully',
+    type: SuccessResponse<{ message: string }>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Reward rule not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Reward rule is already in effect',
+    type: ErrorResponse,
+  })
+  async deleteRule(
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<{ message: string }>> {
+    const result = await this.rewardsService.deleteRule(id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Reward rule deleted successfully',
+      result,
+    );
+  }
+}
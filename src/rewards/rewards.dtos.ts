@@ -0,0 +1,126 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SubscriptionTier, TaskType } from '@prisma/client';
+
+export class CreateRewardRuleDto {
+  @ApiProperty({ enum: SubscriptionTier })
+  @IsEnum(SubscriptionTier)
+  tier: SubscriptionTier;
+
+  @ApiProperty({ enum: TaskType })
+  @IsEnum(TaskType)
+  taskType: TaskType;
+
+  @ApiProperty({ example: 1.5, description: 'Reward paid per passed task' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  rewardAmount: number;
+
+  @ApiProperty({ example: 2, description: 'Tasks of this type issued per day' })
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  @Type(() => Number)
+  dailyQuota: number;
+
+  @ApiProperty({
+    example: 70,
+    description: 'Percentage of correct answers needed to pass',
+  })
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @Type(() => Number)
+  passMark: number;
+
+  @ApiPropertyOptional({
+    description:
+      'When the rule takes effect (defaults to now, cannot be in the past)',
+  })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  effectiveFrom?: Date;
+
+  @ApiPropertyOptional({ description: 'Reason for the change' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class RewardRuleQueryDto {
+  @ApiPropertyOptional({ enum: SubscriptionTier })
+  @IsOptional()
+  @IsEnum(SubscriptionTier)
+  tier?: SubscriptionTier;
+
+  @ApiPropertyOptional({ enum: TaskType })
+  @IsOptional()
+  @IsEnum(TaskType)
+  taskType?: TaskType;
+}
+
+export class RewardRuleResponseDto {
+  @ApiPropertyOptional({
+    description: 'Not set for built-in defaults that were never stored',
+  })
+  id?: string;
+
+  @ApiProperty({ enum: SubscriptionTier })
+  tier: SubscriptionTier;
+
+  @ApiProperty({ enum: TaskType })
+  taskType: TaskType;
+
+  @ApiProperty({ example: '1.00' })
+  rewardAmount: string;
+
+  @ApiProperty({ example: 1 })
+  dailyQuota: number;
+
+  @ApiProperty({ example: 70 })
+  passMark: number;
+
+  @ApiPropertyOptional()
+  effectiveFrom?: Date;
+
+  @ApiPropertyOptional()
+  createdById?: string;
+
+  @ApiPropertyOptional()
+  notes?: string;
+
+  @ApiPropertyOptional()
+  createdAt?: Date;
+
+  constructor(partial: Partial<RewardRuleResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class TierRewardScheduleDto {
+  @ApiProperty({ enum: SubscriptionTier })
+  tier: SubscriptionTier;
+
+  @ApiProperty({ example: 2, description: 'Total tasks issued per day' })
+  dailyQuota: number;
+
+  @ApiProperty({ type: [RewardRuleResponseDto] })
+  rules: RewardRuleResponseDto[];
+}
+
+export class RewardScheduleResponseDto {
+  @ApiProperty({ type: [TierRewardScheduleDto] })
+  tiers: TierRewardScheduleDto[];
+}
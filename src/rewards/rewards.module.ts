@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { RewardsService } from './rewards.service';
+import { RewardsController } from './rewards.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [RewardsController],
+  providers: [RewardsService],
+  exports: [RewardsService],
+})
+export class RewardsModule {}
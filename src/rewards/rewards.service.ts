@@ -0,0 +1,230 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import { RewardRule, SubscriptionTier, TaskType } from '@prisma/client';
+import {
+  CreateRewardRuleDto,
+  RewardRuleQueryDto,
+  RewardRuleResponseDto,
+  RewardScheduleResponseDto,
+} from './rewards.dtos';
+
+export interface ActiveRewardRule {
+  id?: string;
+  tier: SubscriptionTier;
+  taskType: TaskType;
+  rewardAmount: Decimal;
+  dailyQuota: number;
+  passMark: number;
+  effectiveFrom?: Date;
+}
+
+@Injectable()
+export class RewardsService {
+  private readonly logger = new Logger(RewardsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  // Used until an admin stores a rule for a tier and task type
+  private readonly defaultSchedule: Record<
+    SubscriptionTier,
+    Record<
+      TaskType,
+      { rewardAmount: Decimal; dailyQuota: number; passMark: number }
+    >
+  > = {
+    [SubscriptionTier.ENTRY]: {
+      [TaskType.READING]: {
+        rewardAmount: new Decimal(1),
+        dailyQuota: 1,
+        passMark: 70,
+      },
+      [TaskType.VIDEO]: {
+        rewardAmount: new Decimal(1),
+        dailyQuota: 1,
+        passMark: 70,
+      },
+    },
+    [SubscriptionTier.INTERMEDIATE]: {
+      [TaskType.READING]: {
+        rewardAmount: new Decimal(1),
+        dailyQuota: 2,
+        passMark: 70,
+      },
+      [TaskType.VIDEO]: {
+        rewardAmount: new Decimal(1),
+        dailyQuota: 2,
+        passMark: 70,
+      },
+    },
+    [SubscriptionTier.PRO]: {
+      [TaskType.READING]: {
+        rewardAmount: new Decimal(1),
+        dailyQuota: 3,
+        passMark: 70,
+      },
+      [TaskType.VIDEO]: {
+        rewardAmount: new Decimal(1),
+        dailyQuota: 3,
+        passMark: 70,
+      },
+    },
+  };
+
+  /**
+   * Map Prisma reward rule (or a built-in default) to RewardRuleResponseDto
+   */
+  private mapRuleToDto(
+    rule: RewardRule | ActiveRewardRule,
+  ): RewardRuleResponseDto {
+    return new RewardRuleResponseDto({
+      id: rule.id,
+      tier: rule.tier,
+      taskType: rule.taskType,
+      rewardAmount: rule.rewardAmount.toFixed(2),
+      dailyQuota: rule.dailyQuota,
+      passMark: rule.passMark,
+      effectiveFrom: rule.effectiveFrom,
+      createdById:
+        'createdById' in rule ? (rule.createdById ?? undefined) : undefined,
+      notes: 'notes' in rule ? (rule.notes ?? undefined) : undefined,
+      createdAt: 'createdAt' in rule ? rule.createdAt : undefined,
+    });
+  }
+
+  /**
+   * Create a new rule version. Existing rules are never edited, so tasks keep
+   * pointing at the rule they were issued under.
+   */
+  async createRule(
+    createDto: CreateRewardRuleDto,
+    createdById?: string,
+  ): Promise<RewardRuleResponseDto> {
+    const now = new Date();
+    const effectiveFrom = createDto.effectiveFrom ?? now;
+
+    // Allow a minute of clock skew for clients sending "now"
+    if (effectiveFrom.getTime() < now.getTime() - 60 * 1000) {
+      throw new BadRequestException('effectiveFrom cannot be in the past');
+    }
+
+    const rule = await this.prisma.rewardRule.create({
+      data: {
+        tier: createDto.tier,
+        taskType: createDto.taskType,
+        rewardAmount: new Decimal(createDto.rewardAmount),
+        dailyQuota: createDto.dailyQuota,
+        passMark: createDto.passMark,
+        effectiveFrom,
+        notes: createDto.notes,
+        createdById,
+      },
+    });
+
+    this.logger.log(
+      `Reward rule ${rule.id} created for ${rule.tier}/${rule.taskType}, effective ${effectiveFrom.toISOString()}`,
+    );
+    return this.mapRuleToDto(rule);
+  }
+
+  /**
+   * Get the rule history, newest first
+   */
+  async getRules(query: RewardRuleQueryDto): Promise<RewardRuleResponseDto[]> {
+    const rules = await this.prisma.rewardRule.findMany({
+      where: {
+        tier: query.tier,
+        taskType: query.taskType,
+      },
+      orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return rules.map((rule) => this.mapRuleToDto(rule));
+  }
+
+  /**
+   * Delete a rule that has not taken effect yet
+   */
+  async deleteRule(id: string): Promise<{ message: string }> {
+    const rule = await this.prisma.rewardRule.findUnique({ where: { id } });
+
+    if (!rule) {
+      throw new NotFoundException('Reward rule not found');
+    }
+
+    if (rule.effectiveFrom <= new Date()) {
+      throw new ConflictException(
+        'Rules already in effect cannot be deleted; create a new version instead',
+      );
+    }
+
+    await this.prisma.rewardRule.delete({ where: { id } });
+
+    this.logger.log(`Scheduled reward rule deleted: ${id}`);
+    return { message: 'Reward rule deleted successfully' };
+  }
+
+  /**
+   * Get the schedule in effect at a point in time for every tier
+   */
+  async getSchedule(at: Date = new Date()): Promise<RewardScheduleResponseDto> {
+    const tiers = await Promise.all(
+      Object.values(SubscriptionTier).map(async (tier) => {
+        const rules = await this.getActiveRules(tier, at);
+        return {
+          tier,
+          dailyQuota: Object.values(rules).reduce(
+            (sum, rule) => sum + rule.dailyQuota,
+            0,
+          ),
+          rules: Object.values(rules).map((rule) => this.mapRuleToDto(rule)),
+        };
+      }),
+    );
+
+    return { tiers };
+  }
+
+  /**
+   * Resolve the rule in effect for each task type of a tier
+   */
+  async getActiveRules(
+    tier: SubscriptionTier,
+    at: Date = new Date(),
+  ): Promise<Record<TaskType, ActiveRewardRule>> {
+    const entries = await Promise.all(
+      Object.values(TaskType).map(
+        async (taskType) =>
+          [taskType, await this.getActiveRule(tier, taskType, at)] as const,
+      ),
+    );
+
+    return Object.fromEntries(entries) as Record<TaskType, ActiveRewardRule>;
+  }
+
+  /**
+   * Resolve the latest rule effective at a point in time, falling back to the defaults
+   */
+  async getActiveRule(
+    tier: SubscriptionTier,
+    taskType: TaskType,
+    at: Date = new Date(),
+  ): Promise<ActiveRewardRule> {
+    const rule = await this.prisma.rewardRule.findFirst({
+      where: { tier, taskType, effectiveFrom: { lte: at } },
+      orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    if (rule) {
+      return rule;
+    }
+
+    return { tier, taskType, ...this.defaultSchedule[tier][taskType] };
+  }
+}
@@ -16,6 +16,7 @@ async function bootstrap() {
       new ExpressAdapter(server),
       {
         logger: ['error', 'warn', 'log'],
+        rawBody: true,
       },
     );
 
@@ -32,6 +33,7 @@ async function bootstrap() {
         'Authorization',
         'Accept',
         'X-Requested-With',
+        'Idempotency-Key',
       ],
       credentials: true,
       preflightContinue: false,
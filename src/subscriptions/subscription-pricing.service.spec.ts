@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Decimal } from '@prisma/client/runtime/library';
+import { SubscriptionChange, SubscriptionTier } from '@prisma/client';
+import {
+  Subscriber,
+  SubscriptionPricingService,
+} from './subscription-pricing.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SubscriptionPricingService', () => {
+  let service: SubscriptionPricingService;
+
+  const now = new Date('2025-12-01T00:00:00.000Z');
+  const daysFromNow = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+  const subscriber = (overrides: Partial<Subscriber> = {}): Subscriber => ({
+    subscriptionTier: SubscriptionTier.PRO,
+    subscriptionExpiry: daysFromNow(15),
+    referredById: null,
+    periodPaid: new Decimal(25),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SubscriptionPricingService],
+    }).compile();
+
+    service = module.get<SubscriptionPricingService>(
+      SubscriptionPricingService,
+    );
+  });
+
+  it('charges the full price for a new subscription', () => {
+    const quote = service.quote(
+      subscriber({
+        subscriptionTier: SubscriptionTier.ENTRY,
+        subscriptionExpiry: null,
+      }),
+      SubscriptionTier.INTERMEDIATE,
+      false,
+      now,
+    );
+
+    expect(quote.change).toBe(SubscriptionChange.PURCHASED);
+    expect(quote.amountDue.toFixed(2)).toBe('10.00');
+    expect(quote.expiresAt).toEqual(daysFromNow(30));
+  });
+
+  it('treats an expired subscription as a new purchase', () => {
+    const quote = service.quote(
+      subscriber({ subscriptionExpiry: daysFromNow(-1) }),
+      SubscriptionTier.PRO,
+      false,
+      now,
+    );
+
+    expect(quote.change).toBe(SubscriptionChange.PURCHASED);
+    expect(quote.currentTier).toBe(SubscriptionTier.ENTRY);
+    expect(quote.amountDue.toFixed(2)).toBe('25.00');
+  });
+
+  it('extends a renewal from the current expiry', () => {
+    const quote = service.quote(subscriber(), SubscriptionTier.PRO, false, now);
+
+    expect(quote.change).toBe(SubscriptionChange.RENEWED);
+    expect(quote.amountDue.toFixed(2)).toBe('25.00');
+    expect(quote.expiresAt).toEqual(daysFromNow(45));
+  });
+
+  it('prorates an upgrade over the rest of the period', () => {
+    const quote = service.quote(
+      subscriber({ subscriptionTier: SubscriptionTier.INTERMEDIATE }),
+      SubscriptionTier.PRO,
+      false,
+      now,
+    );
+
+    expect(quote.change).toBe(SubscriptionChange.UPGRADED);
+    expect(quote.amountDue.toFixed(2)).toBe('7.50');
+    expect(quote.expiresAt).toEqual(daysFromNow(15));
+    expect(quote.remainingDays).toBe(15);
+  });
+
+  it('rounds prorated charges up and credits down to the cent', () => {
+    // 8 hours left is a ninetieth of the period: 15.00 / 90 = 0.1666...
+    const expiry = new Date(now.getTime() + 8 * 60 * 60 * 1000);
+
+    const upgrade = service.quote(
+      subscriber({
+        subscriptionTier: SubscriptionTier.INTERMEDIATE,
+        subscriptionExpiry: expiry,
+      }),
+      SubscriptionTier.PRO,
+      false,
+      now,
+    );
+    const downgrade = service.quote(
+      subscriber({ subscriptionExpiry: expiry }),
+      SubscriptionTier.INTERMEDIATE,
+      true,
+      now,
+    );
+
+    expect(upgrade.amountDue.toFixed(2)).toBe('0.17');
+    expect(downgrade.credit.toFixed(2)).toBe('0.16');
+  });
+
+  it('never prorates more than one full period', () => {
+    const quote = service.quote(
+      subscriber({
+        subscriptionTier: SubscriptionTier.INTERMEDIATE,
+        subscriptionExpiry: daysFromNow(50),
+      }),
+      SubscriptionTier.PRO,
+      false,
+      now,
+    );
+
+    expect(quote.amountDue.toFixed(2)).toBe('15.00');
+  });
+
+  it('schedules a downgrade for the end of the period by default', () => {
+    const quote = service.quote(
+      subscriber(),
+      SubscriptionTier.INTERMEDIATE,
+      false,
+      now,
+    );
+
+    expect(quote.change).toBe(SubscriptionChange.DOWNGRADE_SCHEDULED);
+    expect(quote.credit.toFixed(2)).toBe('0.00');
+    expect(quote.scheduledCharge.toFixed(2)).toBe('10.00');
+    expect(quote.effectiveAt).toEqual(daysFromNow(15));
+  });
+
+  it('credits the unused price difference on an immediate downgrade', () => {
+    const quote = service.quote(
+      subscriber(),
+      SubscriptionTier.INTERMEDIATE,
+      true,
+      now,
+    );
+
+    expect(quote.change).toBe(SubscriptionChange.DOWNGRADED);
+    expect(quote.credit.toFixed(2)).toBe('7.50');
+    expect(quote.expiresAt).toEqual(daysFromNow(15));
+  });
+
+  it('caps the downgrade credit at the unused share of what was paid', () => {
+    // PRO bought with a promo code for 5.00 instead of 25.00
+    const quote = service.quote(
+      subscriber({ periodPaid: new Decimal(5) }),
+      SubscriptionTier.ENTRY,
+      true,
+      now,
+    );
+
+    expect(quote.credit.toFixed(2)).toBe('2.50');
+    expect(quote.expiresAt).toBeNull();
+  });
+
+  it('gives no credit for a period that was not paid for', () => {
+    const quote = service.quote(
+      subscriber({ periodPaid: new Decimal(0) }),
+      SubscriptionTier.ENTRY,
+      true,
+      now,
+    );
+
+    expect(quote.credit.toFixed(2)).toBe('0.00');
+  });
+
+  it('refuses an immediate credit for a period that earned a referral bonus', () => {
+    expect(() =>
+      service.quote(
+        subscriber({ referredById: 'referrer-1' }),
+        SubscriptionTier.ENTRY,
+        true,
+        now,
+      ),
+    ).toThrow(BadRequestException);
+
+    expect(
+      service.quote(
+        subscriber({ referredById: 'referrer-1' }),
+        SubscriptionTier.ENTRY,
+        false,
+        now,
+      ).change,
+    ).toBe(SubscriptionChange.DOWNGRADE_SCHEDULED);
+  });
+
+  it('rejects moving to the free tier when already on it', () => {
+    expect(() =>
+      service.quote(
+        subscriber({
+          subscriptionTier: SubscriptionTier.ENTRY,
+          subscriptionExpiry: null,
+        }),
+        SubscriptionTier.ENTRY,
+        false,
+        now,
+      ),
+    ).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,193 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Decimal } from '@prisma/client/runtime/library';
+import { roundCharge, roundPayout } from '../common/money';
+import { SubscriptionChange, SubscriptionTier, User } from '@prisma/client';
+
+export interface SubscriptionQuote {
+  change: SubscriptionChange;
+  currentTier: SubscriptionTier;
+  targetTier: SubscriptionTier;
+  // Charged to the wallet now, after any promo code discount
+  amountDue: Decimal;
+  // Promo code discount already taken off amountDue
+  discount: Decimal;
+  // Unused time on the current tier credited back to the wallet now
+  credit: Decimal;
+  // Charged when a scheduled downgrade to a paid tier takes effect
+  scheduledCharge: Decimal;
+  effectiveAt: Date;
+  // Expiry once the change is applied; null when moving to ENTRY
+  expiresAt: Date | null;
+  // Days left in the current period, used for proration
+  remainingDays: number;
+}
+
+/**
+ * The parts of a user that price a change. periodPaid is what they were
+ * actually charged for the current period, after any promo code discount.
+ */
+export type Subscriber = Pick<
+  User,
+  'subscriptionTier' | 'subscriptionExpiry' | 'referredById'
+> & { periodPaid: Decimal };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Plan prices and the cost of moving between tiers. Upgrades charge the
+ * price difference for the rest of the current period; downgrades either
+ * wait for the period to end or credit the unused difference.
+ */
+@Injectable()
+export class SubscriptionPricingService {
+  // Price per period, lowest tier first. ENTRY is free and never expires.
+  private readonly plans: Record<
+    SubscriptionTier,
+    { price: Decimal; durationDays: number }
+  > = {
+    [SubscriptionTier.ENTRY]: { price: new Decimal(0), durationDays: 0 },
+    [SubscriptionTier.INTERMEDIATE]: {
+      price: new Decimal(10),
+      durationDays: 30,
+    },
+    [SubscriptionTier.PRO]: { price: new Decimal(25), durationDays: 30 },
+  };
+
+  private readonly tierOrder: SubscriptionTier[] = [
+    SubscriptionTier.ENTRY,
+    SubscriptionTier.INTERMEDIATE,
+    SubscriptionTier.PRO,
+  ];
+
+  getTiers(): SubscriptionTier[] {
+    return [...this.tierOrder];
+  }
+
+  getPlan(tier: SubscriptionTier): { price: Decimal; durationDays: number } {
+    return this.plans[tier];
+  }
+
+  /**
+   * End of a period of the tier starting at `start`
+   */
+  getPeriodEnd(tier: SubscriptionTier, start: Date): Date {
+    return new Date(start.getTime() + this.plans[tier].durationDays * DAY_MS);
+  }
+
+  isActive(
+    user: Pick<User, 'subscriptionTier' | 'subscriptionExpiry'>,
+    now = new Date(),
+  ): boolean {
+    return (
+      user.subscriptionTier !== SubscriptionTier.ENTRY &&
+      user.subscriptionExpiry !== null &&
+      user.subscriptionExpiry > now
+    );
+  }
+
+  /**
+   * Price the move from the user's current subscription to `targetTier`.
+   * `downgradeNow` applies a downgrade immediately with a credit instead of
+   * scheduling it for the end of the period. The credit never exceeds the
+   * unused share of what was paid for the period, and is refused when that
+   * payment earned a referral bonus, which is not clawed back.
+   */
+  quote(
+    user: Subscriber,
+    targetTier: SubscriptionTier,
+    downgradeNow = false,
+    now = new Date(),
+  ): SubscriptionQuote {
+    const active = this.isActive(user, now);
+    const currentTier = active ? user.subscriptionTier : SubscriptionTier.ENTRY;
+    const expiry = active ? user.subscriptionExpiry : null;
+    const remainingMs = active ? expiry.getTime() - now.getTime() : 0;
+    const base = {
+      currentTier,
+      targetTier,
+      amountDue: new Decimal(0),
+      discount: new Decimal(0),
+      credit: new Decimal(0),
+      scheduledCharge: new Decimal(0),
+      remainingDays: Math.round((remainingMs / DAY_MS) * 100) / 100,
+    };
+
+    if (!active) {
+      if (targetTier === SubscriptionTier.ENTRY) {
+        throw new BadRequestException('You are already on the free tier');
+      }
+
+      return {
+        ...base,
+        change: SubscriptionChange.PURCHASED,
+        amountDue: this.plans[targetTier].price,
+        effectiveAt: now,
+        expiresAt: this.getPeriodEnd(targetTier, now),
+      };
+    }
+
+    const direction =
+      this.tierOrder.indexOf(targetTier) - this.tierOrder.indexOf(currentTier);
+
+    if (direction === 0) {
+      return {
+        ...base,
+        change: SubscriptionChange.RENEWED,
+        amountDue: this.plans[targetTier].price,
+        effectiveAt: now,
+        expiresAt: this.getPeriodEnd(targetTier, expiry),
+      };
+    }
+
+    // Share of the current period still to run
+    const fraction = Decimal.min(
+      1,
+      new Decimal(remainingMs).dividedBy(
+        this.plans[currentTier].durationDays * DAY_MS,
+      ),
+    );
+    const difference = this.plans[targetTier].price
+      .minus(this.plans[currentTier].price)
+      .abs()
+      .times(fraction);
+
+    if (direction > 0) {
+      return {
+        ...base,
+        change: SubscriptionChange.UPGRADED,
+        amountDue: roundCharge(difference),
+        effectiveAt: now,
+        expiresAt: expiry,
+      };
+    }
+
+    if (!downgradeNow) {
+      return {
+        ...base,
+        change: SubscriptionChange.DOWNGRADE_SCHEDULED,
+        scheduledCharge: this.plans[targetTier].price,
+        effectiveAt: expiry,
+        expiresAt:
+          targetTier === SubscriptionTier.ENTRY
+            ? null
+            : this.getPeriodEnd(targetTier, expiry),
+      };
+    }
+
+    if (user.referredById && user.periodPaid.greaterThan(0)) {
+      throw new BadRequestException(
+        'This period earned your referrer a bonus, so the downgrade can only take effect when it ends',
+      );
+    }
+
+    return {
+      ...base,
+      change: SubscriptionChange.DOWNGRADED,
+      credit: roundPayout(
+        Decimal.min(difference, user.periodPaid.times(fraction)),
+      ),
+      effectiveAt: now,
+      expiresAt: targetTier === SubscriptionTier.ENTRY ? null : expiry,
+    };
+  }
+}
@@ -0,0 +1,334 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { SubscriptionsService } from './subscriptions.service';
+import {
+  SubscribeDto,
+  SubscriptionHistoryListResponseDto,
+  SubscriptionHistoryQueryDto,
+  SubscriptionPlanDto,
+  SubscriptionPurchaseResponseDto,
+  SubscriptionQuoteDto,
+  SubscriptionQuoteQueryDto,
+  SubscriptionResponseDto,
+  UpdateAutoRenewDto,
+} from './subscriptions.dtos';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+
+@ApiTags('Subscriptions')
+@Controller('subscriptions')
+export class SubscriptionsController {
+  constructor(private readonly subscriptionsService: SubscriptionsService) {}
+
+  @Get('plans')
+  @ApiOperation({
+    summary: 'Get subscription plans',
+    description: 'Lists every subscription tier with its price and period.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Plans retrieved successfully',
+    type: SuccessResponse<SubscriptionPlanDto[]>,
+  })
+  getPlans(): SuccessResponse<SubscriptionPlanDto[]> {
+    const result = this.subscriptionsService.getPlans();
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Plans retrieved successfully',
+      result,
+    );
+  }
+
+  @Get('quote')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Quote a tier change',
+    description:
+      'Prices moving to a tier without applying it. Upgrades cost the prorated difference for the rest of the current period; downgrades are scheduled for the end of the period, or credit the unused difference when downgradeNow is set.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Quote retrieved successfully',
+    type: SuccessResponse<SubscriptionQuoteDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Already on the free tier, or an immediate downgrade of a period that earned a referral bonus',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  async getQuote(
+    @Req() req,
+    @Query() query: SubscriptionQuoteQueryDto,
+  ): Promise<SuccessResponse<SubscriptionQuoteDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.subscriptionsService.getQuote(userId, query);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Quote retrieved successfully',
+      result,
+    );
+  }
+
+  @Get('me')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get my subscription',
+    description:
+      "Retrieves the authenticated user's subscription tier and when it expires.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscription retrieved successfully',
+    type: SuccessResponse<SubscriptionResponseDto>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  async getSubscription(
+    @Req() req,
+  ): Promise<SuccessResponse<SubscriptionResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.subscriptionsService.getSubscription(userId);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Subscription retrieved successfully',
+      result,
+    );
+  }
+
+  @Put('me/auto-renew')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Turn auto-renewal on or off',
+    description:
+      'When on, the subscription is renewed from the wallet as it expires. If the wallet cannot cover the price the user is moved to ENTRY.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Auto-renewal updated successfully',
+    type: SuccessResponse<SubscriptionResponseDto>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  async setAutoRenew(
+    @Req() req,
+    @Body() autoRenewDto: UpdateAutoRenewDto,
+  ): Promise<SuccessResponse<SubscriptionResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.subscriptionsService.setAutoRenew(
+      userId,
+      autoRenewDto.autoRenew,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Auto-renewal updated successfully',
+      result,
+    );
+  }
+
+  @Delete('me/scheduled-downgrade')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Cancel a scheduled downgrade',
+    description: 'Keeps the current tier when the period ends.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Scheduled downgrade cancelled successfully',
+    type: SuccessResponse<SubscriptionResponseDto>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'No downgrade is scheduled',
+    type: ErrorResponse,
+  })
+  async cancelScheduledDowngrade(
+    @Req() req,
+  ): Promise<SuccessResponse<SubscriptionResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result =
+      await this.subscriptionsService.cancelScheduledDowngrade(userId);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Scheduled downgrade cancelled successfully',
+      result,
+    );
+  }
+
+  @Get('me/history')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get my subscription history',
+    description:
+      "Lists every change to the authenticated user's tier: purchases, renewals, upgrades, expiries and admin changes.",
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscription history retrieved successfully',
+    type: SuccessResponse<SubscriptionHistoryListResponseDto>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  async getHistory(
+    @Req() req,
+    @Query() query: SubscriptionHistoryQueryDto,
+  ): Promise<SuccessResponse<SubscriptionHistoryListResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.subscriptionsService.getHistory(userId, query);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Subscription history retrieved successfully',
+      result,
+    );
+  }
+
+  @Get('users/:userId/history')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get a user's subscription history (Admin only)",
+    description: "Lists every change to a user's tier for support requests.",
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscription history retrieved successfully',
+    type: SuccessResponse<SubscriptionHistoryListResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  async getUserHistory(
+    @Param('userId') userId: string,
+    @Query() query: SubscriptionHistoryQueryDto,
+  ): Promise<SuccessResponse<SubscriptionHistoryListResponseDto>> {
+    const result = await this.subscriptionsService.getHistory(userId, query);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Subscription history retrieved successfully',
+      result,
+    );
+  }
+
+  @Post()
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Subscribe to or change tier',
+    description:
+      'Charges the wallet as a SUBSCRIPTION_PAYMENT and optionally turns on auto-renewal. Renewing the current tier extends it from its expiry date; upgrading charges the prorated difference and keeps the expiry date. Downgrades take effect when the period ends, or immediately with the unused difference credited when downgradeNow is set. Use GET /subscriptions/quote to preview the amounts.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Subscription purchased successfully',
+    type: SuccessResponse<SubscriptionPurchaseResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Already on the free tier, insufficient balance, or an immediate downgrade of a period that earned a referral bonus',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  async subscribe(
+    @Req() req,
+    @Body() subscribeDto: SubscribeDto,
+  ): Promise<SuccessResponse<SubscriptionPurchaseResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.subscriptionsService.subscribe(
+      userId,
+      subscribeDto,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Subscription purchased successfully',
+      result,
+    );
+  }
+}
@@ -0,0 +1,236 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { SubscriptionChange, SubscriptionTier } from '@prisma/client';
+
+export class SubscribeDto {
+  @ApiProperty({
+    enum: SubscriptionTier,
+    example: SubscriptionTier.INTERMEDIATE,
+    description: 'Tier to buy, renew, upgrade or downgrade to',
+  })
+  @IsEnum(SubscriptionTier)
+  tier: SubscriptionTier;
+
+  @ApiPropertyOptional({
+    description:
+      'Renew from the wallet when the period ends. Leaves the current setting unchanged if omitted.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  autoRenew?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Downgrade immediately and credit the unused difference, up to the unused share of what was paid, instead of waiting for the period to end. Not available for a period that earned a referral bonus.',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  downgradeNow?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'SPRING25',
+    description: 'Discount on the amount charged now',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  promoCode?: string;
+}
+
+export class SubscriptionQuoteQueryDto {
+  @ApiProperty({ enum: SubscriptionTier, example: SubscriptionTier.PRO })
+  @IsEnum(SubscriptionTier)
+  tier: SubscriptionTier;
+
+  @ApiPropertyOptional({ default: false })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === true || value === 'true')
+  downgradeNow?: boolean;
+
+  @ApiPropertyOptional({ example: 'SPRING25' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  promoCode?: string;
+}
+
+export class UpdateAutoRenewDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  autoRenew: boolean;
+}
+
+export class SubscriptionHistoryQueryDto {
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number = 20;
+}
+
+export class SubscriptionPlanDto {
+  @ApiProperty({ enum: SubscriptionTier })
+  tier: SubscriptionTier;
+
+  @ApiProperty({ example: '10.00', description: 'Charged per period' })
+  price: string;
+
+  @ApiProperty({ example: 30 })
+  durationDays: number;
+}
+
+export class SubscriptionResponseDto {
+  @ApiProperty({ enum: SubscriptionTier })
+  tier: SubscriptionTier;
+
+  @ApiPropertyOptional({ description: 'Not set on the free tier' })
+  expiresAt?: Date;
+
+  @ApiProperty({
+    description: 'Whether the paid tier is currently within its period',
+  })
+  isActive: boolean;
+
+  @ApiProperty({ description: 'Renews from the wallet when the period ends' })
+  autoRenew: boolean;
+
+  @ApiPropertyOptional({
+    enum: SubscriptionTier,
+    description: 'Tier the user moves to when the current period ends',
+  })
+  pendingTier?: SubscriptionTier;
+}
+
+export class SubscriptionPurchaseResponseDto extends SubscriptionResponseDto {
+  @ApiProperty({ enum: SubscriptionChange })
+  change: SubscriptionChange;
+
+  @ApiProperty({ example: '10.00' })
+  amountCharged: string;
+
+  @ApiProperty({ example: '0.00', description: 'Promo code discount' })
+  amountDiscounted: string;
+
+  @ApiProperty({
+    example: '0.00',
+    description: 'Unused time credited to the wallet',
+  })
+  amountCredited: string;
+
+  @ApiProperty({ description: 'When the new tier applies' })
+  effectiveAt: Date;
+
+  @ApiPropertyOptional({ description: 'Not set when nothing was charged' })
+  transactionId?: string;
+}
+
+export class SubscriptionQuoteDto {
+  @ApiProperty({ enum: SubscriptionChange })
+  change: SubscriptionChange;
+
+  @ApiProperty({ enum: SubscriptionTier })
+  currentTier: SubscriptionTier;
+
+  @ApiProperty({ enum: SubscriptionTier })
+  targetTier: SubscriptionTier;
+
+  @ApiProperty({ example: '7.50', description: 'Charged to the wallet now' })
+  amountDue: string;
+
+  @ApiProperty({
+    example: '0.00',
+    description: 'Promo code discount already taken off amountDue',
+  })
+  discount: string;
+
+  @ApiProperty({
+    example: '0.00',
+    description: 'Credited to the wallet now',
+  })
+  credit: string;
+
+  @ApiProperty({
+    example: '0.00',
+    description: 'Charged when a scheduled downgrade takes effect',
+  })
+  scheduledCharge: string;
+
+  @ApiProperty()
+  effectiveAt: Date;
+
+  @ApiPropertyOptional({ description: 'Not set when moving to ENTRY' })
+  expiresAt?: Date;
+
+  @ApiProperty({ example: 15.5 })
+  remainingDays: number;
+}
+
+export class SubscriptionHistoryDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: SubscriptionChange })
+  change: SubscriptionChange;
+
+  @ApiProperty({ enum: SubscriptionTier })
+  fromTier: SubscriptionTier;
+
+  @ApiProperty({ enum: SubscriptionTier })
+  toTier: SubscriptionTier;
+
+  @ApiPropertyOptional()
+  previousExpiry?: Date;
+
+  @ApiPropertyOptional()
+  newExpiry?: Date;
+
+  @ApiPropertyOptional({
+    example: '10.00',
+    description: 'Charged to the wallet; negative when credited',
+  })
+  amount?: string;
+
+  @ApiPropertyOptional()
+  transactionId?: string;
+
+  @ApiPropertyOptional({
+    example: 'Auto-renewal failed: insufficient wallet balance',
+  })
+  reason?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class SubscriptionHistoryListResponseDto {
+  @ApiProperty({ type: [SubscriptionHistoryDto] })
+  history: SubscriptionHistoryDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { SubscriptionsService } from './subscriptions.service';
+import { SubscriptionPricingService } from './subscription-pricing.service';
+import { SubscriptionsController } from './subscriptions.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { ReferralModule } from '../referral/referral.module';
+import { EmailModule } from '../email/email.module';
+import { CronModule } from '../cron/cron.module';
+import { PromoCodesModule } from '../promo-codes/promo-codes.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    WalletModule,
+    ReferralModule,
+    EmailModule,
+    CronModule,
+    PromoCodesModule,
+  ],
+  controllers: [SubscriptionsController],
+  providers: [SubscriptionsService, SubscriptionPricingService],
+  exports: [SubscriptionsService, SubscriptionPricingService],
+})
+export class SubscriptionsModule {}
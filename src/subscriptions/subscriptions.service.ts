@@ -0,0 +1,775 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletService } from '../wallet/wallet.service';
+import { ReferralService } from '../referral/referral.service';
+import { EmailService } from '../email/email.service';
+import { CronService } from '../cron/cron.service';
+import {
+  PromoCodesService,
+  PromoDiscount,
+} from '../promo-codes/promo-codes.service';
+import {
+  Subscriber,
+  SubscriptionPricingService,
+  SubscriptionQuote,
+} from './subscription-pricing.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  Prisma,
+  PromoCodeTarget,
+  SubscriptionChange,
+  SubscriptionHistory,
+  SubscriptionTier,
+  TransactionType,
+  User,
+} from '@prisma/client';
+import {
+  SubscribeDto,
+  SubscriptionHistoryDto,
+  SubscriptionHistoryListResponseDto,
+  SubscriptionHistoryQueryDto,
+  SubscriptionPlanDto,
+  SubscriptionPurchaseResponseDto,
+  SubscriptionQuoteDto,
+  SubscriptionQuoteQueryDto,
+  SubscriptionResponseDto,
+} from './subscriptions.dtos';
+
+type RenewalOutcome = 'renewed' | 'expired' | null;
+
+@Injectable()
+export class SubscriptionsService implements OnModuleInit {
+  private readonly logger = new Logger(SubscriptionsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private walletService: WalletService,
+    private referralService: ReferralService,
+    private emailService: EmailService,
+    private cronService: CronService,
+    private pricingService: SubscriptionPricingService,
+    private promoCodesService: PromoCodesService,
+  ) {}
+
+  // Reminder windows in days before expiry, smallest first so a user close
+  // to expiry only gets the most urgent reminder
+  private readonly reminderDays = [1, 7];
+
+  // Users renewed or downgraded per run of the renewal job
+  private readonly renewalBatchSize = 100;
+
+  onModuleInit() {
+    this.cronService.register('subscription-renewals', 60 * 60 * 1000, () =>
+      this.processSubscriptions(),
+    );
+  }
+
+  /**
+   * List the tiers with their price and period length
+   */
+  getPlans(): SubscriptionPlanDto[] {
+    return this.pricingService.getTiers().map((tier) => ({
+      tier,
+      price: this.pricingService.getPlan(tier).price.toFixed(2),
+      durationDays: this.pricingService.getPlan(tier).durationDays,
+    }));
+  }
+
+  /**
+   * Get the user's current tier and when it expires
+   */
+  async getSubscription(userId: string): Promise<SubscriptionResponseDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.mapSubscriptionToDto(user);
+  }
+
+  /**
+   * Price a tier change without applying it
+   */
+  async getQuote(
+    userId: string,
+    query: SubscriptionQuoteQueryDto,
+  ): Promise<SubscriptionQuoteDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const quote = this.pricingService.quote(
+      await this.getSubscriber(user),
+      query.tier,
+      query.downgradeNow,
+    );
+    const discount = query.promoCode
+      ? await this.promoCodesService.calculateDiscount(
+          userId,
+          query.promoCode,
+          this.getPromoCodeUse(quote),
+        )
+      : null;
+
+    return this.mapQuoteToDto(this.applyDiscount(quote, discount));
+  }
+
+  /**
+   * Buy, renew, upgrade or downgrade a tier. Upgrades charge the prorated
+   * difference for the rest of the period; downgrades are scheduled for the
+   * end of the period unless `downgradeNow` credits the unused difference.
+   * A promo code discounts what is charged now; the referral bonus is paid
+   * on the discounted amount.
+   */
+  async subscribe(
+    userId: string,
+    subscribeDto: SubscribeDto,
+  ): Promise<SubscriptionPurchaseResponseDto> {
+    const { tier, autoRenew, downgradeNow, promoCode } = subscribeDto;
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const user = await this.lockUser(tx, userId);
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      const subscriber = await this.getSubscriber(user, tx);
+      const listQuote = this.pricingService.quote(
+        subscriber,
+        tier,
+        downgradeNow,
+      );
+      const discount = promoCode
+        ? await this.promoCodesService.redeem(
+            tx,
+            userId,
+            promoCode,
+            this.getPromoCodeUse(listQuote),
+          )
+        : null;
+      const quote = this.applyDiscount(listQuote, discount);
+      const transactionId = await this.settleQuote(tx, user, quote);
+
+      const scheduled = quote.change === SubscriptionChange.DOWNGRADE_SCHEDULED;
+      const updated = await tx.user.update({
+        where: { id: userId },
+        data: scheduled
+          ? { subscriptionPendingTier: tier, subscriptionAutoRenew: autoRenew }
+          : {
+              subscriptionTier: tier,
+              subscriptionExpiry: quote.expiresAt,
+              subscriptionPendingTier: null,
+              subscriptionAutoRenew:
+                tier === SubscriptionTier.ENTRY ? false : autoRenew,
+              // A new expiry date needs new reminders
+              ...(quote.expiresAt?.getTime() !==
+                user.subscriptionExpiry?.getTime() && {
+                subscriptionReminderDays: null,
+              }),
+            },
+      });
+
+      await tx.subscriptionHistory.create({
+        data: {
+          userId,
+          change: quote.change,
+          fromTier: user.subscriptionTier,
+          toTier: tier,
+          previousExpiry: user.subscriptionExpiry,
+          newExpiry: scheduled ? user.subscriptionExpiry : quote.expiresAt,
+          amount: quote.credit.greaterThan(0)
+            ? quote.credit.negated()
+            : quote.amountDue,
+          periodPaid: this.getPeriodPaid(subscriber, quote),
+          transactionId,
+          reason: scheduled
+            ? `Moves to ${tier} on ${quote.effectiveAt.toISOString()}`
+            : discount
+              ? `Promo code ${discount.code}`
+              : undefined,
+        },
+      });
+
+      return { user: updated, quote, transactionId };
+    });
+
+    this.logger.log(
+      `User ${userId} ${result.quote.change.toLowerCase()} ${tier} (due ${result.quote.amountDue.toFixed(2)}, credit ${result.quote.credit.toFixed(2)})`,
+    );
+
+    if (result.quote.amountDue.greaterThan(0)) {
+      await this.payReferralBonus(userId, result.quote.amountDue);
+    }
+
+    return {
+      ...this.mapSubscriptionToDto(result.user),
+      change: result.quote.change,
+      amountCharged: result.quote.amountDue.toFixed(2),
+      amountDiscounted: result.quote.discount.toFixed(2),
+      amountCredited: result.quote.credit.toFixed(2),
+      effectiveAt: result.quote.effectiveAt,
+      transactionId: result.transactionId,
+    };
+  }
+
+  /**
+   * Keep the current tier after a downgrade was scheduled
+   */
+  async cancelScheduledDowngrade(
+    userId: string,
+  ): Promise<SubscriptionResponseDto> {
+    // Locked so a renewal applying the downgrade cannot run in between
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const user = await this.lockUser(tx, userId);
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      if (!user.subscriptionPendingTier) {
+        throw new ConflictException('No downgrade is scheduled');
+      }
+
+      return await tx.user.update({
+        where: { id: userId },
+        data: { subscriptionPendingTier: null },
+      });
+    });
+
+    return this.mapSubscriptionToDto(updated);
+  }
+
+  /**
+   * Opt in or out of renewing from the wallet when the period ends
+   */
+  async setAutoRenew(
+    userId: string,
+    autoRenew: boolean,
+  ): Promise<SubscriptionResponseDto> {
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const user = await this.lockUser(tx, userId);
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      return await tx.user.update({
+        where: { id: userId },
+        data: { subscriptionAutoRenew: autoRenew },
+      });
+    });
+
+    return this.mapSubscriptionToDto(updated);
+  }
+
+  /**
+   * Every tier change for a user, newest first
+   */
+  async getHistory(
+    userId: string,
+    query: SubscriptionHistoryQueryDto,
+  ): Promise<SubscriptionHistoryListResponseDto> {
+    const { page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+
+    const [history, total] = await Promise.all([
+      this.prisma.subscriptionHistory.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.subscriptionHistory.count({ where: { userId } }),
+    ]);
+
+    return {
+      history: history.map((entry) => this.mapHistoryToDto(entry)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Scheduled job: send expiry reminders, then renew or downgrade
+   * subscriptions whose period has ended. A paid tier without an expiry was
+   * never paid for through a period, so it is downgraded as well.
+   */
+  async processSubscriptions(): Promise<{
+    reminded: number;
+    renewed: number;
+    expired: number;
+  }> {
+    const now = new Date();
+    const reminded = await this.sendExpiryReminders(now);
+
+    const due = await this.prisma.user.findMany({
+      where: {
+        subscriptionTier: { not: SubscriptionTier.ENTRY },
+        OR: [
+          { subscriptionExpiry: null },
+          { subscriptionExpiry: { lte: now } },
+        ],
+      },
+      select: { id: true },
+      orderBy: { subscriptionExpiry: { sort: 'asc', nulls: 'first' } },
+      take: this.renewalBatchSize,
+    });
+
+    let renewed = 0;
+    let expired = 0;
+    for (const { id } of due) {
+      try {
+        const outcome = await this.renewOrExpire(id, now);
+        if (outcome === 'renewed') renewed++;
+        if (outcome === 'expired') expired++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to process subscription for user ${id}`,
+          error.stack,
+        );
+      }
+    }
+
+    return { reminded, renewed, expired };
+  }
+
+  /**
+   * Email users whose period ends within a reminder window. The window is
+   * claimed on the user before sending so each reminder goes out once.
+   */
+  private async sendExpiryReminders(now: Date): Promise<number> {
+    let sent = 0;
+
+    for (const days of this.reminderDays) {
+      const notYetReminded: Prisma.UserWhereInput = {
+        OR: [
+          { subscriptionReminderDays: null },
+          { subscriptionReminderDays: { gt: days } },
+        ],
+      };
+
+      const users = await this.prisma.user.findMany({
+        where: {
+          subscriptionTier: { not: SubscriptionTier.ENTRY },
+          subscriptionExpiry: {
+            gt: now,
+            lte: new Date(now.getTime() + days * 24 * 60 * 60 * 1000),
+          },
+          ...notYetReminded,
+        },
+      });
+
+      for (const user of users) {
+        const claimed = await this.prisma.user.updateMany({
+          where: { id: user.id, ...notYetReminded },
+          data: { subscriptionReminderDays: days },
+        });
+
+        if (claimed.count === 0) {
+          continue;
+        }
+
+        const renewalTier = this.getRenewalTier(user);
+
+        try {
+          await this.emailService.sendSubscriptionReminderEmail(
+            user.email,
+            user.firstName,
+            user.subscriptionTier,
+            user.subscriptionExpiry,
+            renewalTier
+              ? this.pricingService.getPlan(renewalTier).price.toFixed(2)
+              : null,
+          );
+          sent++;
+        } catch (error) {
+          this.logger.error(
+            `Failed to send subscription reminder to ${user.email}`,
+            error.stack,
+          );
+        }
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Renew an ended subscription from the wallet, at the scheduled downgrade
+   * tier if there is one, otherwise move the user to ENTRY
+   */
+  private async renewOrExpire(
+    userId: string,
+    now: Date,
+  ): Promise<RenewalOutcome> {
+    let renewalFailed = false;
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const user = await this.lockUser(tx, userId);
+
+      // Renewed or changed since the batch was read
+      if (
+        !user ||
+        user.subscriptionTier === SubscriptionTier.ENTRY ||
+        user.subscriptionExpiry > now
+      ) {
+        return null;
+      }
+
+      const renewalTier =
+        user.subscriptionExpiry === null ? null : this.getRenewalTier(user);
+
+      if (renewalTier) {
+        const plan = this.pricingService.getPlan(renewalTier);
+        const wallet = await tx.wallet.findUnique({ where: { userId } });
+
+        if (wallet && wallet.balance.greaterThanOrEqualTo(plan.price)) {
+          // Keep the renewal date unless the subscription lapsed for a whole period
+          const lapsed =
+            this.pricingService.getPeriodEnd(
+              renewalTier,
+              user.subscriptionExpiry,
+            ) <= now;
+          const price = await this.startPeriod(
+            tx,
+            user,
+            renewalTier,
+            lapsed ? now : user.subscriptionExpiry,
+            renewalTier === user.subscriptionTier
+              ? SubscriptionChange.AUTO_RENEWED
+              : SubscriptionChange.DOWNGRADED,
+          );
+          return { user, outcome: 'renewed' as const, price };
+        }
+
+        renewalFailed = true;
+      }
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          subscriptionTier: SubscriptionTier.ENTRY,
+          subscriptionExpiry: null,
+          subscriptionReminderDays: null,
+          subscriptionPendingTier: null,
+        },
+      });
+
+      await tx.subscriptionHistory.create({
+        data: {
+          userId,
+          change: SubscriptionChange.EXPIRED,
+          fromTier: user.subscriptionTier,
+          toTier: SubscriptionTier.ENTRY,
+          previousExpiry: user.subscriptionExpiry,
+          reason: renewalFailed
+            ? 'Auto-renewal failed: insufficient wallet balance'
+            : user.subscriptionExpiry === null
+              ? 'Paid tier without a subscription period'
+              : 'Subscription period ended',
+        },
+      });
+
+      return { user, outcome: 'expired' as const, price: null };
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    const { user, outcome, price } = result;
+
+    if (outcome === 'renewed') {
+      this.logger.log(`Auto-renewed subscription for ${userId}`);
+      await this.payReferralBonus(userId, price);
+      return outcome;
+    }
+
+    this.logger.log(`Subscription for ${userId} expired to ENTRY`);
+    try {
+      await this.emailService.sendSubscriptionExpiredEmail(
+        user.email,
+        user.firstName,
+        user.subscriptionTier,
+        renewalFailed,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send subscription expiry email to ${user.email}`,
+        error.stack,
+      );
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Tier charged when the current period ends: a scheduled downgrade always
+   * applies, otherwise the current tier if auto-renewal is on
+   */
+  private getRenewalTier(user: User): SubscriptionTier | null {
+    if (user.subscriptionPendingTier) {
+      return user.subscriptionPendingTier === SubscriptionTier.ENTRY
+        ? null
+        : user.subscriptionPendingTier;
+    }
+
+    return user.subscriptionAutoRenew ? user.subscriptionTier : null;
+  }
+
+  private getPromoCodeUse(quote: SubscriptionQuote) {
+    return {
+      target: PromoCodeTarget.SUBSCRIPTION,
+      amount: quote.amountDue,
+      tier: quote.targetTier,
+      reference: quote.targetTier,
+    };
+  }
+
+  private applyDiscount(
+    quote: SubscriptionQuote,
+    discount: PromoDiscount | null,
+  ): SubscriptionQuote {
+    if (!discount) {
+      return quote;
+    }
+
+    return {
+      ...quote,
+      amountDue: discount.amountPaid,
+      discount: discount.discountAmount,
+    };
+  }
+
+  /**
+   * Charge or credit the wallet for a quoted change. Returns the wallet
+   * transaction, if any.
+   */
+  private async settleQuote(
+    tx: Prisma.TransactionClient,
+    user: User,
+    quote: SubscriptionQuote,
+  ): Promise<string | undefined> {
+    const metadata = {
+      tier: quote.targetTier,
+      fromTier: quote.currentTier,
+      change: quote.change,
+      effectiveAt: quote.effectiveAt,
+      expiresAt: quote.expiresAt,
+      ...(quote.discount.greaterThan(0) && {
+        discount: quote.discount.toFixed(2),
+      }),
+    };
+
+    if (quote.amountDue.greaterThan(0)) {
+      const transaction = await this.walletService.deductFunds(
+        user.id,
+        quote.amountDue,
+        TransactionType.SUBSCRIPTION_PAYMENT,
+        quote.change === SubscriptionChange.UPGRADED
+          ? `Upgrade to ${quote.targetTier} (prorated)`
+          : `${quote.targetTier} subscription until ${quote.expiresAt.toISOString().slice(0, 10)}`,
+        metadata,
+        tx,
+      );
+      return transaction.id;
+    }
+
+    if (quote.credit.greaterThan(0)) {
+      const transaction = await this.walletService.addFunds(
+        user.id,
+        quote.credit,
+        TransactionType.ADJUSTMENT,
+        `Unused ${quote.currentTier} time credited on downgrade`,
+        { ...metadata, kind: 'proration_credit' },
+        tx,
+      );
+      return transaction.id;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Charge one full period of a tier to the wallet and record the change.
+   * Returns the amount charged.
+   */
+  private async startPeriod(
+    tx: Prisma.TransactionClient,
+    user: User,
+    tier: SubscriptionTier,
+    periodStart: Date,
+    change: SubscriptionChange,
+  ): Promise<Decimal> {
+    const { price } = this.pricingService.getPlan(tier);
+    const periodEnd = this.pricingService.getPeriodEnd(tier, periodStart);
+
+    const transaction = await this.walletService.deductFunds(
+      user.id,
+      price,
+      TransactionType.SUBSCRIPTION_PAYMENT,
+      `${tier} subscription until ${periodEnd.toISOString().slice(0, 10)}`,
+      { tier, periodStart, periodEnd },
+      tx,
+    );
+
+    await tx.user.update({
+      where: { id: user.id },
+      data: {
+        subscriptionTier: tier,
+        subscriptionExpiry: periodEnd,
+        subscriptionReminderDays: null,
+        subscriptionPendingTier: null,
+      },
+    });
+
+    await tx.subscriptionHistory.create({
+      data: {
+        userId: user.id,
+        change,
+        fromTier: user.subscriptionTier,
+        toTier: tier,
+        previousExpiry: user.subscriptionExpiry,
+        newExpiry: periodEnd,
+        amount: price,
+        periodPaid: price,
+        transactionId: transaction.id,
+        reason:
+          change === SubscriptionChange.DOWNGRADED
+            ? 'Scheduled downgrade'
+            : undefined,
+      },
+    });
+
+    return price;
+  }
+
+  /**
+   * The user with what they paid for the current period, as recorded by the
+   * latest history entry. Entries that end or replace a period without a
+   * payment, such as expiry and admin changes, leave it at zero.
+   */
+  private async getSubscriber(
+    user: User,
+    tx?: Prisma.TransactionClient,
+  ): Promise<Subscriber> {
+    const client = tx ?? this.prisma;
+    const latest = await client.subscriptionHistory.findFirst({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      select: { periodPaid: true },
+    });
+
+    return { ...user, periodPaid: latest?.periodPaid ?? new Decimal(0) };
+  }
+
+  /**
+   * Paid for the period running after a change: a purchase starts a new
+   * period, a downgrade to ENTRY ends it, and other changes add their charge
+   * or take off their credit
+   */
+  private getPeriodPaid(
+    subscriber: Subscriber,
+    quote: SubscriptionQuote,
+  ): Decimal {
+    if (quote.change === SubscriptionChange.PURCHASED) {
+      return quote.amountDue;
+    }
+
+    if (
+      quote.change === SubscriptionChange.DOWNGRADED &&
+      quote.targetTier === SubscriptionTier.ENTRY
+    ) {
+      return new Decimal(0);
+    }
+
+    return subscriber.periodPaid.plus(quote.amountDue).minus(quote.credit);
+  }
+
+  private async lockUser(
+    tx: Prisma.TransactionClient,
+    userId: string,
+  ): Promise<User | null> {
+    const locked = await tx.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "users" WHERE "id" = ${userId} FOR UPDATE
+    `;
+
+    if (locked.length === 0) {
+      return null;
+    }
+
+    return await tx.user.findUniqueOrThrow({ where: { id: userId } });
+  }
+
+  /**
+   * The payment stands even if the referrer's bonus cannot be paid
+   */
+  private async payReferralBonus(
+    userId: string,
+    amount: Decimal,
+  ): Promise<void> {
+    try {
+      await this.referralService.processSubscriptionReferral(userId, amount);
+    } catch (error) {
+      this.logger.error(
+        `Failed to process subscription referral for user ${userId}`,
+        error.stack,
+      );
+    }
+  }
+
+  private mapSubscriptionToDto(user: User): SubscriptionResponseDto {
+    return {
+      tier: user.subscriptionTier,
+      expiresAt: user.subscriptionExpiry ?? undefined,
+      isActive: this.pricingService.isActive(user),
+      autoRenew: user.subscriptionAutoRenew,
+      pendingTier: user.subscriptionPendingTier ?? undefined,
+    };
+  }
+
+  private mapQuoteToDto(quote: SubscriptionQuote): SubscriptionQuoteDto {
+    return {
+      change: quote.change,
+      currentTier: quote.currentTier,
+      targetTier: quote.targetTier,
+      amountDue: quote.amountDue.toFixed(2),
+      discount: quote.discount.toFixed(2),
+      credit: quote.credit.toFixed(2),
+      scheduledCharge: quote.scheduledCharge.toFixed(2),
+      effectiveAt: quote.effectiveAt,
+      expiresAt: quote.expiresAt ?? undefined,
+      remainingDays: quote.remainingDays,
+    };
+  }
+
+  private mapHistoryToDto(entry: SubscriptionHistory): SubscriptionHistoryDto {
+    return {
+      id: entry.id,
+      change: entry.change,
+      fromTier: entry.fromTier,
+      toTier: entry.toTier,
+      previousExpiry: entry.previousExpiry ?? undefined,
+      newExpiry: entry.newExpiry ?? undefined,
+      amount: entry.amount?.toFixed(2),
+      transactionId: entry.transactionId ?? undefined,
+      reason: entry.reason ?? undefined,
+      createdAt: entry.createdAt,
+    };
+  }
+}
@@ -0,0 +1,219 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  HttpCode,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SubscriptionTier, TaskStatus, TaskType } from '@prisma/client';
+import { TasksService } from './tasks.service';
+import {
+  TaskListResponseDto,
+  TaskQueryDto,
+  TaskResponseDto,
+  TaskSubmissionResponseDto,
+  TodayTasksResponseDto,
+  SubmitTaskAnswersDto,
+} from './tasks.dtos';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+import { TierGuard } from '../common/guards/tier.guard';
+import { RequiresTier } from '../common/decorators/requires-tier.decorator';
+
+@ApiTags('Tasks')
+@Controller('tasks')
+@UseGuards(AuthGuard('jwt'))
+@ApiBearerAuth()
+export class TasksController {
+  constructor(private readonly tasksService: TasksService) {}
+
+  @Get('today')
+  @ApiOperation({
+    summary: "Get today's tasks",
+    description:
+      "Retrieves the authenticated user's daily tasks, issuing them first if they have not been issued yet. The number of tasks depends on the subscription tier.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Today's tasks retrieved successfully",
+    type: SuccessResponse<TodayTasksResponseDto>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  async getTodayTasks(
+    @Req() req,
+  ): Promise<SuccessResponse<TodayTasksResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tasksService.getTodayTasks(userId);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      "Today's tasks retrieved successfully",
+      result,
+    );
+  }
+
+  @Get()
+  @UseGuards(TierGuard)
+  @RequiresTier(SubscriptionTier.INTERMEDIATE)
+  @ApiOperation({
+    summary: 'Get task history',
+    description:
+      "Retrieves the authenticated user's tasks filtered by status (PENDING, COMPLETED or FAILED) with a per-status summary. Requires an active INTERMEDIATE or PRO subscription.",
+  })
+  @ApiQuery({ name: 'status', required: false, enum: TaskStatus })
+  @ApiQuery({ name: 'type', required: false, enum: TaskType })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Tasks retrieved successfully',
+    type: SuccessResponse<TaskListResponseDto>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 402,
+    description: 'Subscription expired - renew to view task history',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - INTERMEDIATE tier or higher required',
+    type: ErrorResponse,
+  })
+  async getTasks(
+    @Req() req,
+    @Query() query: TaskQueryDto,
+  ): Promise<SuccessResponse<TaskListResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tasksService.getTasks(userId, query);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tasks retrieved successfully',
+      result,
+    );
+  }
+
+  @Get(':taskId')
+  @ApiOperation({
+    summary: 'Get task by ID',
+    description:
+      'Retrieves a single task with its questions. Correct answers are only revealed once the task is no longer pending.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Task retrieved successfully',
+    type: SuccessResponse<TaskResponseDto>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Task not found',
+    type: ErrorResponse,
+  })
+  async getTaskById(
+    @Req() req,
+    @Param('taskId') taskId: string,
+  ): Promise<SuccessResponse<TaskResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tasksService.getTaskById(userId, taskId);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Task retrieved successfully',
+      result,
+    );
+  }
+
+  @Post(':taskId/submit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Submit task answers',
+    description:
+      "Grades the answers to a pending task's questions. The user must first have finished reading sessions on the task's content lasting at least the required time. Passing marks the task COMPLETED and credits the reward to the wallet; otherwise the task is marked FAILED.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Task graded successfully',
+    type: SuccessResponse<TaskSubmissionResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing or invalid answers, or reading requirement not met',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Task not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Task has already been submitted or has expired',
+    type: ErrorResponse,
+  })
+  async submitAnswers(
+    @Req() req,
+    @Param('taskId') taskId: string,
+    @Body() submitDto: SubmitTaskAnswersDto,
+  ): Promise<SuccessResponse<TaskSubmissionResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tasksService.submitAnswers(
+      userId,
+      taskId,
+      submitDto,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      result.passed ? 'Task completed successfully' : 'Task failed',
+      result,
+    );
+  }
+}
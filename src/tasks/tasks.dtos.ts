@@ -0,0 +1,218 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SubscriptionTier, TaskStatus, TaskType } from '@prisma/client';
+
+// Question Response DTO
+export class TaskQuestionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 'What is the main theme of chapter one?' })
+  question: string;
+
+  @ApiProperty({ type: [String] })
+  options: string[];
+
+  @ApiPropertyOptional({
+    description: 'Answer submitted by the user',
+    nullable: true,
+  })
+  userAnswer?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Whether the submitted answer was correct',
+    nullable: true,
+  })
+  isCorrect?: boolean | null;
+
+  @ApiPropertyOptional({
+    description: 'Only revealed once the task is no longer pending',
+  })
+  correctAnswer?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Why the answer is correct; only revealed once the task is no longer pending',
+  })
+  explanation?: string;
+
+  constructor(partial: Partial<TaskQuestionResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+// Task Response DTO
+export class TaskResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: TaskType })
+  type: TaskType;
+
+  @ApiProperty({ example: 'Read: Atomic Habits' })
+  title: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiPropertyOptional()
+  contentId?: string;
+
+  @ApiPropertyOptional({ description: 'File URL of the content to read/watch' })
+  contentData?: string;
+
+  @ApiProperty({ enum: TaskStatus })
+  status: TaskStatus;
+
+  @ApiProperty({ example: '1.00' })
+  reward: string;
+
+  @ApiProperty({ example: '2025-12-02' })
+  taskDate: string;
+
+  @ApiPropertyOptional()
+  completedAt?: Date;
+
+  @ApiPropertyOptional()
+  metadata?: any;
+
+  @ApiProperty({ type: [TaskQuestionResponseDto] })
+  questions: TaskQuestionResponseDto[];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<TaskResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class TaskStatusSummaryDto {
+  @ApiProperty({ example: 2 })
+  pending: number;
+
+  @ApiProperty({ example: 1 })
+  completed: number;
+
+  @ApiProperty({ example: 0 })
+  failed: number;
+}
+
+export class TodayTasksResponseDto {
+  @ApiProperty({ example: '2025-12-02' })
+  taskDate: string;
+
+  @ApiProperty({ enum: SubscriptionTier })
+  subscriptionTier: SubscriptionTier;
+
+  @ApiProperty({ example: 2, description: 'Number of tasks issued per day' })
+  dailyQuota: number;
+
+  @ApiProperty({ type: TaskStatusSummaryDto })
+  summary: TaskStatusSummaryDto;
+
+  @ApiProperty({ type: [TaskResponseDto] })
+  tasks: TaskResponseDto[];
+}
+
+export class TaskListResponseDto {
+  @ApiProperty({ type: [TaskResponseDto] })
+  tasks: TaskResponseDto[];
+
+  @ApiProperty({ type: TaskStatusSummaryDto })
+  summary: TaskStatusSummaryDto;
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+// Task Query DTO
+export class TaskQueryDto {
+  @ApiPropertyOptional({ enum: TaskStatus, description: 'Filter by status' })
+  @IsOptional()
+  @IsEnum(TaskStatus)
+  status?: TaskStatus;
+
+  @ApiPropertyOptional({ enum: TaskType, description: 'Filter by task type' })
+  @IsOptional()
+  @IsEnum(TaskType)
+  type?: TaskType;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number = 20;
+}
+
+// Single answer in a task submission
+export class TaskAnswerDto {
+  @ApiProperty({ example: 'cmij2l8tq0001z1e87y6gm685' })
+  @IsString()
+  @IsNotEmpty()
+  questionId: string;
+
+  @ApiProperty({ example: 'Building small habits' })
+  @IsString()
+  @IsNotEmpty()
+  answer: string;
+}
+
+// Submit Task Answers DTO
+export class SubmitTaskAnswersDto {
+  @ApiProperty({ type: [TaskAnswerDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TaskAnswerDto)
+  answers: TaskAnswerDto[];
+}
+
+export class TaskSubmissionResponseDto {
+  @ApiProperty({ type: TaskResponseDto })
+  task: TaskResponseDto;
+
+  @ApiProperty({ example: true })
+  passed: boolean;
+
+  @ApiProperty({ example: 80, description: 'Score as a percentage' })
+  score: number;
+
+  @ApiProperty({ example: 70, description: 'Score required to pass' })
+  passMark: number;
+
+  @ApiProperty({ example: 4 })
+  correctAnswers: number;
+
+  @ApiProperty({ example: 5 })
+  totalQuestions: number;
+
+  @ApiProperty({ example: '1.00', description: 'Reward credited to wallet' })
+  rewardCredited: string;
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { TasksController } from './tasks.controller';
+import { TasksService } from './tasks.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ContentModule } from '../content/content.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { ReferralModule } from '../referral/referral.module';
+import { QuestionBankModule } from '../question-bank/question-bank.module';
+import { CronModule } from '../cron/cron.module';
+import { RewardsModule } from '../rewards/rewards.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    ContentModule,
+    WalletModule,
+    ReferralModule,
+    QuestionBankModule,
+    CronModule,
+    RewardsModule,
+    SubscriptionsModule,
+  ],
+  controllers: [TasksController],
+  providers: [TasksService],
+  exports: [TasksService],
+})
+export class TasksModule {}
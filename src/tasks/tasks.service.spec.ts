@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  SubscriptionTier,
+  TaskStatus,
+  TaskType,
+  TransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ContentService } from '../content/content.service';
+import { WalletService } from '../wallet/wallet.service';
+import { ReferralService } from '../referral/referral.service';
+import { QuestionBankService } from '../question-bank/question-bank.service';
+import { CronService } from '../cron/cron.service';
+import { RewardsService } from '../rewards/rewards.service';
+import { SubscriptionPricingService } from '../subscriptions/subscription-pricing.service';
+import { TasksService } from './tasks.service';
+
+describe('TasksService', () => {
+  let service: TasksService;
+
+  const tx = {
+    task: {
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    question: { update: jest.fn() },
+  };
+  const prisma = {
+    $transaction: jest.fn((callback) => callback(tx)),
+    task: { count: jest.fn() },
+    user: { findUnique: jest.fn() },
+  };
+  const walletService = { addFunds: jest.fn() };
+  const referralService = { processTaskReferral: jest.fn() };
+  const rewardsService = { getActiveRules: jest.fn() };
+
+  const questions = ['q1', 'q2', 'q3', 'q4', 'q5'].map((id) => ({
+    id,
+    question: `Question ${id}`,
+    options: ['Right', 'Wrong'],
+    correctAnswer: 'Right',
+    userAnswer: null,
+    isCorrect: null,
+    metadata: null,
+  }));
+
+  const task = (metadata: Record<string, unknown> = {}) => ({
+    id: 'task-1',
+    userId: 'user-1',
+    title: 'Read a chapter',
+    description: null,
+    type: TaskType.READING,
+    status: TaskStatus.PENDING,
+    reward: new Decimal(1),
+    contentId: null,
+    contentData: null,
+    taskDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    completedAt: null,
+    metadata,
+    questions,
+    createdAt: new Date(),
+  });
+
+  // Answers the first `correct` questions right and the rest wrong
+  const submit = (correct: number, metadata?: Record<string, unknown>) => {
+    const issued = task(metadata);
+    tx.task.findFirst.mockResolvedValue(issued);
+    tx.task.findUniqueOrThrow.mockResolvedValue(issued);
+
+    return service.submitAnswers('user-1', 'task-1', {
+      answers: questions.map((question, index) => ({
+        questionId: question.id,
+        answer: index < correct ? ' right ' : 'Wrong',
+      })),
+    });
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tx.task.updateMany.mockResolvedValue({ count: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TasksService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ContentService, useValue: {} },
+        { provide: WalletService, useValue: walletService },
+        { provide: ReferralService, useValue: referralService },
+        { provide: QuestionBankService, useValue: {} },
+        { provide: CronService, useValue: { register: jest.fn() } },
+        { provide: RewardsService, useValue: rewardsService },
+        SubscriptionPricingService,
+      ],
+    }).compile();
+
+    service = module.get<TasksService>(TasksService);
+  });
+
+  it('grades answers ignoring case and surrounding spaces', async () => {
+    const result = await submit(5);
+
+    expect(result.correctAnswers).toBe(5);
+    expect(result.score).toBe(100);
+    expect(tx.question.update).toHaveBeenCalledWith({
+      where: { id: 'q1' },
+      data: { userAnswer: ' right ', isCorrect: true },
+    });
+  });
+
+  it('passes at the pass mark and pays the reward', async () => {
+    const result = await submit(4, { passMark: 80 });
+
+    expect(result.score).toBe(80);
+    expect(result.passed).toBe(true);
+    expect(result.rewardCredited).toBe('1.00');
+    expect(tx.task.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: TaskStatus.COMPLETED }),
+      }),
+    );
+    expect(walletService.addFunds).toHaveBeenCalledWith(
+      'user-1',
+      new Decimal(1),
+      TransactionType.TASK_REWARD,
+      'Reward for task: Read a chapter',
+      expect.objectContaining({ taskId: 'task-1', score: 80 }),
+      tx,
+    );
+    expect(referralService.processTaskReferral).toHaveBeenCalled();
+  });
+
+  it('fails below the pass mark without paying', async () => {
+    const result = await submit(3, { passMark: 80 });
+
+    expect(result.score).toBe(60);
+    expect(result.passed).toBe(false);
+    expect(result.rewardCredited).toBe('0.00');
+    expect(tx.task.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: TaskStatus.FAILED }),
+      }),
+    );
+    expect(walletService.addFunds).not.toHaveBeenCalled();
+  });
+
+  it('uses the default pass mark of 70 when none was snapshotted', async () => {
+    const failed = await submit(3);
+    expect(failed.passMark).toBe(70);
+    expect(failed.passed).toBe(false);
+
+    const passed = await submit(4);
+    expect(passed.passed).toBe(true);
+  });
+
+  it('requires every question to be answered', async () => {
+    tx.task.findFirst.mockResolvedValue(task());
+
+    await expect(
+      service.submitAnswers('user-1', 'task-1', {
+        answers: [{ questionId: 'q1', answer: 'Right' }],
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(tx.task.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('never passes a task without questions', async () => {
+    tx.task.findFirst.mockResolvedValue({ ...task(), questions: [] });
+
+    await expect(
+      service.submitAnswers('user-1', 'task-1', { answers: [] }),
+    ).rejects.toThrow('Task has no questions to answer');
+    expect(tx.task.updateMany).not.toHaveBeenCalled();
+    expect(walletService.addFunds).not.toHaveBeenCalled();
+  });
+
+  it('settles a task only once', async () => {
+    tx.task.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(submit(5)).rejects.toThrow(ConflictException);
+    expect(walletService.addFunds).not.toHaveBeenCalled();
+  });
+
+  it('issues tasks for ENTRY once a paid tier has expired', async () => {
+    prisma.task.count.mockResolvedValue(0);
+    prisma.user.findUnique.mockResolvedValue({
+      subscriptionTier: SubscriptionTier.PRO,
+      subscriptionExpiry: new Date(Date.now() - 1000),
+    });
+    rewardsService.getActiveRules.mockResolvedValue({
+      READING: { dailyQuota: 0 },
+      VIDEO: { dailyQuota: 0 },
+    });
+
+    await service.issueDailyTasks('user-1');
+
+    expect(rewardsService.getActiveRules).toHaveBeenCalledWith(
+      SubscriptionTier.ENTRY,
+    );
+  });
+});
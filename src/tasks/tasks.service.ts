@@ -0,0 +1,700 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ContentService } from '../content/content.service';
+import { ContentResponseDto } from '../content/content.dtos';
+import { WalletService } from '../wallet/wallet.service';
+import { ReferralService } from '../referral/referral.service';
+import { QuestionBankService } from '../question-bank/question-bank.service';
+import { CronService } from '../cron/cron.service';
+import { RewardsService } from '../rewards/rewards.service';
+import { SubscriptionPricingService } from '../subscriptions/subscription-pricing.service';
+import {
+  ContentType,
+  Prisma,
+  SubscriptionTier,
+  TaskStatus,
+  TaskType,
+  TransactionType,
+} from '@prisma/client';
+import {
+  TaskListResponseDto,
+  TaskQueryDto,
+  TaskQuestionResponseDto,
+  TaskResponseDto,
+  TaskStatusSummaryDto,
+  TaskSubmissionResponseDto,
+  TodayTasksResponseDto,
+  SubmitTaskAnswersDto,
+} from './tasks.dtos';
+
+type TaskWithQuestions = Prisma.TaskGetPayload<{
+  include: { questions: true };
+}>;
+
+@Injectable()
+export class TasksService implements OnModuleInit {
+  private readonly logger = new Logger(TasksService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private contentService: ContentService,
+    private walletService: WalletService,
+    private referralService: ReferralService,
+    private questionBankService: QuestionBankService,
+    private cronService: CronService,
+    private rewardsService: RewardsService,
+    private pricingService: SubscriptionPricingService,
+  ) {}
+
+  // Pass mark for tasks issued before reward rules were snapshotted
+  private readonly defaultPassMark = 70;
+
+  // Question bank templates copied into each task
+  private readonly questionsPerTask = 5;
+
+  // Minimum time a user must spend on the content before answering
+  private readonly readingRequirement = {
+    secondsPerPage: 30,
+    maxBookSeconds: 30 * 60,
+    videoWatchRatio: 0.8,
+    minimumSeconds: 60,
+  };
+
+  // Users issued tasks per batch by the daily rollover job
+  private readonly rolloverBatchSize = 100;
+
+  onModuleInit() {
+    this.cronService.register('expire-daily-tasks', 60 * 60 * 1000, () =>
+      this.rolloverDailyTasks(),
+    );
+  }
+
+  /**
+   * Get today's tasks for a user, issuing them first if needed
+   */
+  async getTodayTasks(userId: string): Promise<TodayTasksResponseDto> {
+    const taskDate = this.getTaskDate();
+    const tier = await this.getActiveTier(userId);
+
+    await this.expireOverdueTasks(userId);
+    await this.issueDailyTasks(userId, taskDate);
+
+    const rules = await this.rewardsService.getActiveRules(tier);
+
+    const tasks = await this.prisma.task.findMany({
+      where: { userId, taskDate },
+      include: { questions: { orderBy: { createdAt: 'asc' } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      taskDate: this.formatTaskDate(taskDate),
+      subscriptionTier: tier,
+      dailyQuota: rules.READING.dailyQuota + rules.VIDEO.dailyQuota,
+      summary: this.summarize(tasks),
+      tasks: tasks.map((task) => this.mapTaskToDto(task)),
+    };
+  }
+
+  /**
+   * Get a single task belonging to the user
+   */
+  async getTaskById(userId: string, taskId: string): Promise<TaskResponseDto> {
+    const task = await this.prisma.task.findFirst({
+      where: { id: taskId, userId },
+      include: { questions: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!task) {
+      throw new NotFoundException('Task not found');
+    }
+
+    return this.mapTaskToDto(task);
+  }
+
+  /**
+   * Get task history with status filtering and pagination
+   */
+  async getTasks(
+    userId: string,
+    query: TaskQueryDto,
+  ): Promise<TaskListResponseDto> {
+    const { status, type, page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.TaskWhereInput = { userId };
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    const [tasks, total, statusCounts] = await Promise.all([
+      this.prisma.task.findMany({
+        where,
+        include: { questions: { orderBy: { createdAt: 'asc' } } },
+        orderBy: [{ taskDate: 'desc' }, { createdAt: 'asc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.task.count({ where }),
+      this.prisma.task.groupBy({
+        by: ['status'],
+        where: { userId },
+        _count: { id: true },
+      }),
+    ]);
+
+    const summary: TaskStatusSummaryDto = {
+      pending: 0,
+      completed: 0,
+      failed: 0,
+    };
+    statusCounts.forEach((row) => {
+      summary[row.status.toLowerCase()] = row._count.id;
+    });
+
+    return {
+      tasks: tasks.map((task) => this.mapTaskToDto(task)),
+      summary,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Grade submitted answers, settle the task and pay the reward on a pass.
+   * Grading, wallet credit and referral bonus commit or roll back together.
+   */
+  async submitAnswers(
+    userId: string,
+    taskId: string,
+    submitDto: SubmitTaskAnswersDto,
+  ): Promise<TaskSubmissionResponseDto> {
+    const answers = new Map(
+      submitDto.answers.map((a) => [a.questionId, a.answer]),
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      const task = await tx.task.findFirst({
+        where: { id: taskId, userId },
+        include: { questions: { orderBy: { createdAt: 'asc' } } },
+      });
+
+      if (!task) {
+        throw new NotFoundException('Task not found');
+      }
+
+      if (task.status !== TaskStatus.PENDING) {
+        throw new ConflictException('Task has already been submitted');
+      }
+
+      if (task.taskDate < this.getTaskDate()) {
+        throw new ConflictException('Task has expired');
+      }
+
+      await this.assertReadingCompleted(tx, task);
+
+      const unknown = [...answers.keys()].filter(
+        (questionId) => !task.questions.some((q) => q.id === questionId),
+      );
+      if (unknown.length > 0) {
+        throw new BadRequestException(
+          `Questions do not belong to this task: ${unknown.join(', ')}`,
+        );
+      }
+
+      // Tasks are issued with questions; never pass one that has none
+      if (task.questions.length === 0) {
+        throw new ConflictException('Task has no questions to answer');
+      }
+
+      const unanswered = task.questions.filter((q) => !answers.has(q.id));
+      if (unanswered.length > 0) {
+        throw new BadRequestException(
+          `All questions must be answered (${unanswered.length} missing)`,
+        );
+      }
+
+      const graded = task.questions.map((question) => {
+        const userAnswer = answers.get(question.id);
+        return {
+          id: question.id,
+          userAnswer,
+          isCorrect:
+            userAnswer.trim().toLowerCase() ===
+            question.correctAnswer.trim().toLowerCase(),
+        };
+      });
+
+      const correctAnswers = graded.filter((q) => q.isCorrect).length;
+      const totalQuestions = graded.length;
+      const score = Math.round((correctAnswers / totalQuestions) * 100);
+      const passMark = this.getPassMark(task);
+      const passed = score >= passMark;
+      const completedAt = new Date();
+
+      // Only a PENDING task can be claimed, so a task is never settled (or paid) twice
+      const claimed = await tx.task.updateMany({
+        where: { id: task.id, status: TaskStatus.PENDING },
+        data: {
+          status: passed ? TaskStatus.COMPLETED : TaskStatus.FAILED,
+          completedAt,
+          metadata: {
+            ...((task.metadata as Prisma.JsonObject) ?? {}),
+            score,
+            passMark,
+            correctAnswers,
+            totalQuestions,
+          },
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictException('Task has already been submitted');
+      }
+
+      for (const question of graded) {
+        await tx.question.update({
+          where: { id: question.id },
+          data: {
+            userAnswer: question.userAnswer,
+            isCorrect: question.isCorrect,
+          },
+        });
+      }
+
+      if (passed && task.reward.greaterThan(0)) {
+        await this.walletService.addFunds(
+          userId,
+          task.reward,
+          TransactionType.TASK_REWARD,
+          `Reward for task: ${task.title}`,
+          {
+            taskId: task.id,
+            taskType: task.type,
+            score,
+          },
+          tx,
+        );
+
+        await this.referralService.processTaskReferral(
+          userId,
+          task.reward,
+          task.id,
+          tx,
+        );
+      }
+
+      const settled = await tx.task.findUniqueOrThrow({
+        where: { id: task.id },
+        include: { questions: { orderBy: { createdAt: 'asc' } } },
+      });
+
+      this.logger.log(
+        `Task ${task.id} ${passed ? 'completed' : 'failed'} by user ${userId} with score ${score}%`,
+      );
+
+      return {
+        task: this.mapTaskToDto(settled),
+        passed,
+        score,
+        passMark,
+        correctAnswers,
+        totalQuestions,
+        rewardCredited: passed ? task.reward.toFixed(2) : '0.00',
+      };
+    });
+  }
+
+  /**
+   * Issue the daily set of tasks for a user if it has not been issued yet
+   */
+  async issueDailyTasks(
+    userId: string,
+    taskDate: Date = this.getTaskDate(),
+  ): Promise<number> {
+    const alreadyIssued = await this.prisma.task.count({
+      where: { userId, taskDate },
+    });
+
+    if (alreadyIssued > 0) {
+      return 0;
+    }
+
+    const tier = await this.getActiveTier(userId);
+    const rules = await this.rewardsService.getActiveRules(tier);
+    if (rules.READING.dailyQuota + rules.VIDEO.dailyQuota === 0) {
+      return 0;
+    }
+
+    const picks = await this.pickContent(
+      rules.READING.dailyQuota,
+      rules.VIDEO.dailyQuota,
+    );
+
+    // Templates may have been deactivated since the content was picked
+    const built = await Promise.all(
+      picks.map(async (pick) => ({
+        ...pick,
+        questions: await this.buildQuestions(pick.content.id),
+      })),
+    );
+    const issuable = built.filter((pick) => pick.questions.length > 0);
+
+    if (issuable.length === 0) {
+      this.logger.warn(
+        `No content with questions available to issue tasks for user ${userId}`,
+      );
+      return 0;
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // Serialize issuing per user so parallel requests cannot double-issue
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${userId}))`;
+
+      const issued = await tx.task.count({ where: { userId, taskDate } });
+      if (issued > 0) {
+        return 0;
+      }
+
+      for (const { type, content, questions } of issuable) {
+        const rule = rules[type];
+        await tx.task.create({
+          data: {
+            userId,
+            contentId: content.id,
+            type,
+            title: `${type === TaskType.VIDEO ? 'Watch' : 'Read'}: ${content.title}`,
+            description: content.description,
+            contentData: content.fileUrl,
+            reward: rule.rewardAmount,
+            rewardRuleId: rule.id,
+            taskDate,
+            metadata: {
+              subscriptionTier: tier,
+              passMark: rule.passMark,
+              contentType: content.type,
+              category: content.category,
+              requiredReadingSeconds: this.getRequiredReadingSeconds(content),
+            },
+            questions: {
+              create: questions,
+            },
+          },
+        });
+      }
+
+      this.logger.log(
+        `Issued ${issuable.length} tasks for user ${userId} on ${this.formatTaskDate(taskDate)}`,
+      );
+      return issuable.length;
+    });
+  }
+
+  /**
+   * Fail PENDING tasks from past task days, optionally for a single user.
+   * Returns the IDs of users whose tasks were expired.
+   */
+  async expireOverdueTasks(userId?: string): Promise<string[]> {
+    const taskDate = this.getTaskDate();
+    const expiredAt = new Date().toISOString();
+
+    const rows = await this.prisma.$queryRaw<{ userId: string }[]>`
+      UPDATE "tasks"
+      SET "status" = 'FAILED'::"TaskStatus",
+          "metadata" = COALESCE("metadata", '{}'::jsonb) || jsonb_build_object(
+            'failureReason', 'EXPIRED',
+            'expiredAt', ${expiredAt}::text
+          ),
+          "updatedAt" = NOW()
+      WHERE "status" = 'PENDING'::"TaskStatus"
+        AND "taskDate" < ${taskDate}::date
+        ${userId ? Prisma.sql`AND "userId" = ${userId}` : Prisma.empty}
+      RETURNING "userId"
+    `;
+
+    if (rows.length > 0) {
+      this.logger.log(`Expired ${rows.length} overdue tasks`);
+    }
+
+    return [...new Set(rows.map((row) => row.userId))];
+  }
+
+  /**
+   * Daily rollover: expire unfinished tasks, then issue today's tasks to
+   * active, verified users in batches. Safe to run repeatedly.
+   */
+  async rolloverDailyTasks(): Promise<{
+    expiredUsers: number;
+    issued: number;
+  }> {
+    const taskDate = this.getTaskDate();
+    const expiredUsers = await this.expireOverdueTasks();
+
+    let issued = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const users = await this.prisma.user.findMany({
+        where: {
+          isActive: true,
+          isEmailVerified: true,
+          tasks: { none: { taskDate } },
+          ...(cursor ? { id: { gt: cursor } } : {}),
+        },
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: this.rolloverBatchSize,
+      });
+
+      if (users.length === 0) {
+        break;
+      }
+
+      for (const user of users) {
+        try {
+          issued += await this.issueDailyTasks(user.id, taskDate);
+        } catch (error) {
+          this.logger.error(
+            `Failed to issue tasks for user ${user.id}: ${error.message}`,
+          );
+        }
+      }
+
+      cursor = users[users.length - 1].id;
+    }
+
+    this.logger.log(
+      `Daily rollover for ${this.formatTaskDate(taskDate)}: expired tasks for ${expiredUsers.length} users, issued ${issued} tasks`,
+    );
+    return { expiredUsers: expiredUsers.length, issued };
+  }
+
+  /**
+   * Start of the current task day (UTC)
+   */
+  getTaskDate(date: Date = new Date()): Date {
+    return new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+  }
+
+  /**
+   * Pass mark snapshotted from the reward rule when the task was issued
+   */
+  private getPassMark(task: TaskWithQuestions): number {
+    const snapshot = (task.metadata as Prisma.JsonObject)?.passMark;
+    return typeof snapshot === 'number' ? snapshot : this.defaultPassMark;
+  }
+
+  /**
+   * Reject answers until the user has finished enough reading sessions on the
+   * task's content since the task was issued
+   */
+  private async assertReadingCompleted(
+    tx: Prisma.TransactionClient,
+    task: TaskWithQuestions,
+  ): Promise<void> {
+    if (!task.contentId) {
+      return;
+    }
+
+    const snapshot = (task.metadata as Prisma.JsonObject)
+      ?.requiredReadingSeconds;
+    let requiredSeconds = typeof snapshot === 'number' ? snapshot : undefined;
+
+    if (requiredSeconds === undefined) {
+      const content = await tx.content.findUnique({
+        where: { id: task.contentId },
+        select: { type: true, pages: true, duration: true },
+      });
+      requiredSeconds = content
+        ? this.getRequiredReadingSeconds(content)
+        : this.readingRequirement.minimumSeconds;
+    }
+
+    const sessions = await tx.readingSession.aggregate({
+      where: {
+        userId: task.userId,
+        contentId: task.contentId,
+        isActive: false,
+        endTime: { not: null },
+        startTime: { gte: task.createdAt },
+      },
+      _sum: { duration: true },
+    });
+    const completedSeconds = sessions._sum.duration ?? 0;
+
+    if (completedSeconds < requiredSeconds) {
+      const action = task.type === TaskType.VIDEO ? 'watch' : 'read';
+      throw new BadRequestException(
+        `Reading requirement not met: ${action} the content for at least ${requiredSeconds} seconds ` +
+          `in finished reading sessions before answering (${completedSeconds} seconds recorded so far)`,
+      );
+    }
+  }
+
+  /**
+   * Minimum reading time in seconds, derived from book pages or video duration
+   */
+  private getRequiredReadingSeconds(content: {
+    type: ContentType;
+    pages?: number | null;
+    duration?: number | null;
+  }): number {
+    const { secondsPerPage, maxBookSeconds, videoWatchRatio, minimumSeconds } =
+      this.readingRequirement;
+
+    let seconds = 0;
+    if (content.type === ContentType.VIDEO && content.duration) {
+      // Content.duration is stored in minutes
+      seconds = Math.round(content.duration * 60 * videoWatchRatio);
+    } else if (content.pages) {
+      seconds = Math.min(content.pages * secondsPerPage, maxBookSeconds);
+    }
+
+    return Math.max(seconds, minimumSeconds);
+  }
+
+  /**
+   * Pick random content for the day, split between reading and video tasks
+   */
+  private async pickContent(
+    readingCount: number,
+    videoCount: number,
+  ): Promise<Array<{ type: TaskType; content: ContentResponseDto }>> {
+    const reading =
+      readingCount > 0
+        ? await this.pickRandomContent(ContentType.BOOK, readingCount)
+        : [];
+    if (reading.length < readingCount) {
+      reading.push(
+        ...(await this.pickRandomContent(
+          ContentType.ARTICLE,
+          readingCount - reading.length,
+        )),
+      );
+    }
+
+    const videos =
+      videoCount > 0
+        ? await this.pickRandomContent(ContentType.VIDEO, videoCount)
+        : [];
+
+    return [
+      ...reading.map((content) => ({ type: TaskType.READING, content })),
+      ...videos.map((content) => ({ type: TaskType.VIDEO, content })),
+    ];
+  }
+
+  /**
+   * Pick content that has questions in the question bank; a task is only
+   * passed by answering them
+   */
+  private async pickRandomContent(
+    type: ContentType,
+    count: number,
+  ): Promise<ContentResponseDto[]> {
+    return await this.contentService.getRandomContent(type, count, {
+      withQuestions: true,
+    });
+  }
+
+  /**
+   * Copy a random sample of the content's question bank templates into task questions
+   */
+  private async buildQuestions(
+    contentId: string,
+  ): Promise<Prisma.QuestionCreateWithoutTaskInput[]> {
+    const templates = await this.questionBankService.getRandomTemplates(
+      contentId,
+      this.questionsPerTask,
+    );
+
+    return templates.map((template) => ({
+      template: { connect: { id: template.id } },
+      question: template.question,
+      options: template.options,
+      correctAnswer: template.correctAnswer,
+      metadata: {
+        difficulty: template.difficulty,
+        explanation: template.explanation,
+      },
+    }));
+  }
+
+  /**
+   * The tier the user's tasks are issued and rewarded for. A paid tier
+   * that has expired earns ENTRY rewards until it is renewed.
+   */
+  private async getActiveTier(userId: string): Promise<SubscriptionTier> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionTier: true, subscriptionExpiry: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.pricingService.isActive(user)
+      ? user.subscriptionTier
+      : SubscriptionTier.ENTRY;
+  }
+
+  private summarize(tasks: { status: TaskStatus }[]): TaskStatusSummaryDto {
+    return {
+      pending: tasks.filter((t) => t.status === TaskStatus.PENDING).length,
+      completed: tasks.filter((t) => t.status === TaskStatus.COMPLETED).length,
+      failed: tasks.filter((t) => t.status === TaskStatus.FAILED).length,
+    };
+  }
+
+  private formatTaskDate(taskDate: Date): string {
+    return taskDate.toISOString().split('T')[0];
+  }
+
+  /**
+   * Map Prisma task to TaskResponseDto, hiding answers while pending
+   */
+  private mapTaskToDto(task: TaskWithQuestions): TaskResponseDto {
+    const revealAnswers = task.status !== TaskStatus.PENDING;
+
+    return new TaskResponseDto({
+      ...task,
+      description: task.description ?? undefined,
+      contentId: task.contentId ?? undefined,
+      contentData: task.contentData ?? undefined,
+      completedAt: task.completedAt ?? undefined,
+      reward: task.reward.toFixed(2),
+      taskDate: this.formatTaskDate(task.taskDate),
+      questions: task.questions.map(
+        (question) =>
+          new TaskQuestionResponseDto({
+            id: question.id,
+            question: question.question,
+            options: question.options,
+            userAnswer: question.userAnswer,
+            isCorrect: question.isCorrect,
+            correctAnswer: revealAnswers ? question.correctAnswer : undefined,
+            explanation: revealAnswers
+              ? (((question.metadata as Prisma.JsonObject)
+                  ?.explanation as string) ?? undefined)
+              : undefined,
+          }),
+      ),
+    });
+  }
+}
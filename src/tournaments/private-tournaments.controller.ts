@@ -0,0 +1,217 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Req,
+  UseGuards,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SubscriptionTier } from '@prisma/client';
+import { PrivateTournamentsService } from './private-tournaments.service';
+import {
+  JoinTournamentDto,
+  TournamentEntryResponseDto,
+  TournamentResponseDto,
+} from './tournaments.dtos';
+import {
+  CreatePrivateTournamentDto,
+  TournamentInviteResponseDto,
+} from './private-tournaments.dtos';
+import { TierGuard } from '../common/guards/tier.guard';
+import { RequiresTier } from '../common/decorators/requires-tier.decorator';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+
+@ApiTags('Tournaments')
+@Controller('tournaments')
+export class PrivateTournamentsController {
+  constructor(
+    private readonly privateTournamentsService: PrivateTournamentsService,
+  ) {}
+
+  @Post('private')
+  @UseGuards(AuthGuard('jwt'), TierGuard)
+  @RequiresTier(SubscriptionTier.INTERMEDIATE)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Create private tournament',
+    description:
+      'Creates a tournament for friends or a study group. Requires an active INTERMEDIATE or PRO subscription. It is kept out of the public listing and joined with the returned invite code or link. Questions are drawn from a content item or supplied by the creator, and every entry fee paid is added to the prize pool. The questions are not returned before the tournament starts, and a creator cannot enter their own paid tournament.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Private tournament created successfully',
+    type: SuccessResponse<TournamentInviteResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid schedule, payout or questions',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 402,
+    description: 'Subscription expired - renew to create private tournaments',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - INTERMEDIATE tier or higher required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Content not found',
+    type: ErrorResponse,
+  })
+  async createPrivateTournament(
+    @Req() req,
+    @Body() createDto: CreatePrivateTournamentDto,
+  ): Promise<SuccessResponse<TournamentInviteResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.privateTournamentsService.createPrivateTournament(
+      userId,
+      createDto,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Private tournament created successfully',
+      result,
+    );
+  }
+
+  @Get('invites/:code')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Preview tournament by invite code',
+    description: 'Retrieves the private tournament an invite code belongs to.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament retrieved successfully',
+    type: SuccessResponse<TournamentResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Invite code is not valid',
+    type: ErrorResponse,
+  })
+  async getTournamentByInviteCode(
+    @Param('code') code: string,
+  ): Promise<SuccessResponse<TournamentResponseDto>> {
+    const result =
+      await this.privateTournamentsService.getTournamentByInviteCode(code);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament retrieved successfully',
+      result,
+    );
+  }
+
+  @Post('invites/:code/join')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Join tournament by invite code',
+    description:
+      'Enters the authenticated user into a private tournament. The entry fee, less any promo code discount, is held in the wallet and added to the prize pool. Creators cannot enter their own paid tournament.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Joined tournament successfully',
+    type: SuccessResponse<TournamentEntryResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Insufficient balance for the entry fee or promo code not usable',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Creator of a paid tournament',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Invite code is not valid',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Already joined, tournament full or no longer open for entry',
+    type: ErrorResponse,
+  })
+  async joinByInviteCode(
+    @Req() req,
+    @Param('code') code: string,
+    @Body() joinDto: JoinTournamentDto,
+  ): Promise<SuccessResponse<TournamentEntryResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.privateTournamentsService.joinByInviteCode(
+      userId,
+      code,
+      joinDto.promoCode,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Joined tournament successfully',
+      result,
+    );
+  }
+
+  @Get(':id/invite')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get tournament invite',
+    description:
+      'Retrieves the invite code and link of a private tournament so its creator or entrants can share it.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Invite retrieved successfully',
+    type: SuccessResponse<TournamentInviteResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  async getInvite(
+    @Req() req,
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<TournamentInviteResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.privateTournamentsService.getInvite(userId, id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Invite retrieved successfully',
+      result,
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PayoutCurve } from '@prisma/client';
+import {
+  TournamentQuestionInputDto,
+  TournamentResponseDto,
+} from './tournaments.dtos';
+
+export class CreatePrivateTournamentDto {
+  @ApiProperty({ example: 'Book Club Quiz Night' })
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    example: 2,
+    default: 0,
+    description: 'Every entry fee is added to the prize pool',
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  entryFee?: number;
+
+  @ApiProperty({ example: '2025-12-12T18:00:00.000Z' })
+  @IsDate()
+  @Type(() => Date)
+  startDate: Date;
+
+  @ApiProperty({ example: '2025-12-12T20:00:00.000Z' })
+  @IsDate()
+  @Type(() => Date)
+  endDate: Date;
+
+  @ApiPropertyOptional({ example: 20, default: 100 })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(100)
+  @Type(() => Number)
+  maxParticipants?: number;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Type(() => Number)
+  minParticipants?: number;
+
+  @ApiPropertyOptional({
+    enum: PayoutCurve,
+    default: PayoutCurve.TOP_PERCENTAGES,
+  })
+  @IsOptional()
+  @IsEnum(PayoutCurve)
+  payoutCurve?: PayoutCurve;
+
+  @ApiPropertyOptional({ type: [Number], example: [50, 30, 20] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(100, { each: true })
+  payoutPercentages?: number[];
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  payoutWinners?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Draw questions at random from this content item. Required unless questions are given.',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  contentId?: string;
+
+  @ApiPropertyOptional({
+    example: 10,
+    default: 10,
+    description: 'Number of questions drawn from the content item',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @Type(() => Number)
+  questionCount?: number;
+
+  @ApiPropertyOptional({
+    type: [TournamentQuestionInputDto],
+    description: 'Custom questions, used instead of a content item',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => TournamentQuestionInputDto)
+  questions?: TournamentQuestionInputDto[];
+}
+
+export class TournamentInviteResponseDto {
+  @ApiProperty({ example: 'K7QX2MPD' })
+  inviteCode: string;
+
+  @ApiProperty({
+    example: 'https://app.rigaby.com/tournaments/join?code=K7QX2MPD',
+  })
+  inviteLink: string;
+
+  @ApiProperty()
+  shareMessage: string;
+
+  @ApiProperty({ type: TournamentResponseDto })
+  tournament: TournamentResponseDto;
+}
@@ -0,0 +1,298 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { randomInt } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { QuestionBankService } from '../question-bank/question-bank.service';
+import {
+  TournamentsService,
+  TournamentWithCounts,
+} from './tournaments.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  PayoutCurve,
+  Prisma,
+  TournamentStatus,
+  TournamentType,
+} from '@prisma/client';
+import {
+  TournamentResponseDto,
+  TournamentEntryResponseDto,
+} from './tournaments.dtos';
+import {
+  CreatePrivateTournamentDto,
+  TournamentInviteResponseDto,
+} from './private-tournaments.dtos';
+
+/**
+ * Tournaments created by players rather than admins, reached only through
+ * their invite code
+ */
+@Injectable()
+export class PrivateTournamentsService {
+  private readonly logger = new Logger(PrivateTournamentsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private tournamentsService: TournamentsService,
+    private questionBankService: QuestionBankService,
+  ) {}
+
+  // Limits for tournaments created by players rather than admins
+  private readonly limits = {
+    maxParticipants: 100,
+    defaultQuestionCount: 10,
+    inviteCodeLength: 8,
+    // No 0/O or 1/I so codes can be read out loud
+    inviteCodeAlphabet: 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789',
+  };
+
+  /**
+   * Create a private tournament for a player's friends or study group. It is
+   * published straight away but only reachable through its invite code, and
+   * its prize pool is made up of the entry fees paid. The invite leaves the
+   * questions out, so nobody sees them before the tournament starts.
+   */
+  async createPrivateTournament(
+    userId: string,
+    createDto: CreatePrivateTournamentDto,
+  ): Promise<TournamentInviteResponseDto> {
+    const { contentId, questionCount, questions, ...settings } = createDto;
+
+    this.tournamentsService.validateSchedule(
+      settings.startDate,
+      settings.endDate,
+    );
+    this.tournamentsService.validateParticipants(
+      settings.minParticipants ?? null,
+      settings.maxParticipants ?? null,
+    );
+    this.tournamentsService.validatePayout(
+      settings.payoutCurve ?? PayoutCurve.TOP_PERCENTAGES,
+      settings.payoutPercentages ?? [],
+      settings.payoutWinners ?? null,
+    );
+
+    if (settings.startDate <= new Date()) {
+      throw new BadRequestException('Start date must be in the future');
+    }
+
+    const questionData = await this.getPrivateQuestions(
+      contentId,
+      questionCount ?? this.limits.defaultQuestionCount,
+      questions,
+    );
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const tournament = await this.prisma.tournament.create({
+          data: {
+            ...settings,
+            type: TournamentType.SPECIAL,
+            entryFee: new Decimal(settings.entryFee ?? 0),
+            prizePool: new Decimal(0),
+            maxParticipants:
+              settings.maxParticipants ?? this.limits.maxParticipants,
+            status: TournamentStatus.UPCOMING,
+            isPrivate: true,
+            inviteCode: this.generateInviteCode(),
+            contentId,
+            publishedAt: new Date(),
+            createdById: userId,
+            questions: { create: questionData },
+          },
+          include: { _count: { select: { entries: true, questions: true } } },
+        });
+
+        this.logger.log(
+          `Private tournament created: ${tournament.id} by user ${userId}`,
+        );
+        return this.mapInvite(tournament);
+      } catch (error) {
+        // Retry on the rare invite code collision
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002' &&
+          attempt < 3
+        ) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Get the invite for a private tournament. Its creator and entrants can
+   * share it.
+   */
+  async getInvite(
+    userId: string,
+    id: string,
+  ): Promise<TournamentInviteResponseDto> {
+    const tournament = await this.prisma.tournament.findFirst({
+      where: { id, isPrivate: true },
+      include: { _count: { select: { entries: true, questions: true } } },
+    });
+
+    if (
+      !tournament ||
+      !(await this.tournamentsService.canViewPrivate(userId, tournament))
+    ) {
+      throw new NotFoundException('Tournament not found');
+    }
+
+    return this.mapInvite(tournament);
+  }
+
+  /**
+   * Preview a private tournament from its invite code
+   */
+  async getTournamentByInviteCode(
+    inviteCode: string,
+  ): Promise<TournamentResponseDto> {
+    const tournament = await this.prisma.tournament.findFirst({
+      where: {
+        inviteCode: inviteCode.trim().toUpperCase(),
+        publishedAt: { not: null },
+      },
+      include: { _count: { select: { entries: true, questions: true } } },
+    });
+
+    if (!tournament) {
+      throw new NotFoundException('Invite code is not valid');
+    }
+
+    return this.tournamentsService.mapTournamentToDto(tournament);
+  }
+
+  /**
+   * Join a private tournament with its invite code. A creator may have seen
+   * or written the questions, so they cannot enter their own tournament while
+   * it has an entry fee and therefore a prize pool.
+   */
+  async joinByInviteCode(
+    userId: string,
+    inviteCode: string,
+    promoCode?: string,
+  ): Promise<TournamentEntryResponseDto> {
+    const code = inviteCode.trim().toUpperCase();
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { inviteCode: code },
+      select: { id: true, createdById: true, entryFee: true },
+    });
+
+    if (!tournament) {
+      throw new NotFoundException('Invite code is not valid');
+    }
+
+    if (
+      tournament.createdById === userId &&
+      tournament.entryFee.greaterThan(0)
+    ) {
+      throw new ForbiddenException(
+        'You cannot enter a paid tournament you created',
+      );
+    }
+
+    return this.tournamentsService.joinTournament(
+      userId,
+      tournament.id,
+      code,
+      promoCode,
+    );
+  }
+
+  /**
+   * Questions for a private tournament: a random draw from a content item's
+   * question bank, or the creator's own questions
+   */
+  private async getPrivateQuestions(
+    contentId: string | undefined,
+    questionCount: number,
+    questions: CreatePrivateTournamentDto['questions'],
+  ): Promise<Prisma.TournamentQuestionCreateWithoutTournamentInput[]> {
+    if (questions?.length) {
+      if (contentId) {
+        throw new BadRequestException(
+          'Provide either a content item or custom questions, not both',
+        );
+      }
+
+      questions.forEach((question, index) => {
+        try {
+          this.tournamentsService.validateQuestion(
+            question.options,
+            question.correctAnswer,
+          );
+        } catch (error) {
+          throw new BadRequestException(
+            `Question ${index + 1}: ${error.message}`,
+          );
+        }
+      });
+
+      return questions.map((question, order) => ({ ...question, order }));
+    }
+
+    if (!contentId) {
+      throw new BadRequestException(
+        'A content item or custom questions are required',
+      );
+    }
+
+    const content = await this.prisma.content.findFirst({
+      where: { id: contentId, isActive: true },
+      select: { id: true },
+    });
+
+    if (!content) {
+      throw new NotFoundException('Content not found');
+    }
+
+    const templates = await this.questionBankService.getRandomTemplates(
+      contentId,
+      questionCount,
+    );
+
+    if (templates.length < questionCount) {
+      throw new BadRequestException(
+        `This content only has ${templates.length} questions available`,
+      );
+    }
+
+    return templates.map((template, order) => ({
+      question: template.question,
+      options: template.options,
+      correctAnswer: template.correctAnswer,
+      order,
+      metadata: { questionTemplateId: template.id },
+    }));
+  }
+
+  private mapInvite(
+    tournament: TournamentWithCounts,
+  ): TournamentInviteResponseDto {
+    const inviteLink = `${process.env.APP_URL || 'https://app.rigaby.com'}/tournaments/join?code=${tournament.inviteCode}`;
+
+    return {
+      inviteCode: tournament.inviteCode,
+      inviteLink,
+      shareMessage: `Join my tournament "${tournament.title}" on Rigaby! Use invite code ${tournament.inviteCode}: ${inviteLink}`,
+      tournament: this.tournamentsService.mapTournamentToDto(tournament),
+    };
+  }
+
+  private generateInviteCode(): string {
+    const { inviteCodeAlphabet, inviteCodeLength } = this.limits;
+
+    return Array.from(
+      { length: inviteCodeLength },
+      () => inviteCodeAlphabet[randomInt(inviteCodeAlphabet.length)],
+    ).join('');
+  }
+}
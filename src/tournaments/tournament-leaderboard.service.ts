@@ -0,0 +1,225 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  Logger,
+  MessageEvent,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma, TournamentStatus } from '@prisma/client';
+import {
+  Observable,
+  Subject,
+  filter,
+  from,
+  interval,
+  map,
+  merge,
+  of,
+  switchMap,
+  takeWhile,
+  throttleTime,
+} from 'rxjs';
+import {
+  LeaderboardEntryDto,
+  TournamentLeaderboardQueryDto,
+  TournamentLeaderboardResponseDto,
+} from './tournaments.dtos';
+
+type LeaderboardRow = {
+  entryId: string;
+  userId: string;
+  firstName: string;
+  lastName: string;
+  score: number;
+  timeTaken: number | null;
+  finishedAt: Date | null;
+  rank: bigint;
+};
+
+/**
+ * Tournament standings, paginated or streamed live.
+ * Score updates are pushed through an in-process Subject, so a stream only
+ * hears about answers graded by the same instance. With several instances
+ * (or serverless functions) other players' answers reach a stream through
+ * its periodic refresh instead, up to refreshMs late. Pushing them sooner
+ * needs a shared channel such as Postgres LISTEN/NOTIFY, which Prisma does
+ * not support.
+ */
+@Injectable()
+export class TournamentLeaderboardService {
+  private readonly logger = new Logger(TournamentLeaderboardService.name);
+
+  // Tournament ids whose scores changed on this instance, published after
+  // answers are graded
+  private readonly scoreUpdates = new Subject<string>();
+
+  constructor(private prisma: PrismaService) {}
+
+  // Live streams push at most one snapshot per interval, plus a periodic
+  // refresh so clients notice when the tournament ends
+  private readonly stream = {
+    size: 20,
+    throttleMs: 1000,
+    refreshMs: 30 * 1000,
+  };
+
+  /**
+   * Signal that scores in a tournament have changed. Only streams served by
+   * this instance are notified.
+   */
+  publishScoreUpdate(tournamentId: string): void {
+    this.scoreUpdates.next(tournamentId);
+  }
+
+  /**
+   * Paginated standings with the caller's own position.
+   * Ranking matches settlement: score, then time taken, then join order.
+   */
+  async getLeaderboard(
+    userId: string,
+    tournamentId: string,
+    query: TournamentLeaderboardQueryDto,
+  ): Promise<TournamentLeaderboardResponseDto> {
+    const { page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: {
+        id: true,
+        status: true,
+        publishedAt: true,
+        isPrivate: true,
+        createdById: true,
+      },
+    });
+
+    if (!tournament || !tournament.publishedAt) {
+      throw new NotFoundException('Tournament not found');
+    }
+
+    // Private standings are only shown to the creator and entrants
+    if (tournament.isPrivate && tournament.createdById !== userId) {
+      const entry = await this.prisma.tournamentEntry.findUnique({
+        where: { tournamentId_userId: { tournamentId, userId } },
+        select: { id: true },
+      });
+
+      if (!entry) {
+        throw new NotFoundException('Tournament not found');
+      }
+    }
+
+    const [rows, callerRows, total] = await Promise.all([
+      this.prisma.$queryRaw<LeaderboardRow[]>`
+        ${this.rankedEntries(tournamentId)}
+        SELECT * FROM ranked ORDER BY "rank" LIMIT ${limit} OFFSET ${skip}
+      `,
+      this.prisma.$queryRaw<LeaderboardRow[]>`
+        ${this.rankedEntries(tournamentId)}
+        SELECT * FROM ranked WHERE "userId" = ${userId}
+      `,
+      this.prisma.tournamentEntry.count({ where: { tournamentId } }),
+    ]);
+
+    return {
+      tournamentId,
+      status: tournament.status,
+      entries: rows.map((row) => this.mapRowToDto(row, userId)),
+      currentUser: callerRows[0]
+        ? this.mapRowToDto(callerRows[0], userId)
+        : undefined,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Stream the top of the leaderboard while the tournament is ACTIVE.
+   * The stream completes after the first snapshot taken once it has ended.
+   */
+  async streamLeaderboard(
+    userId: string,
+    tournamentId: string,
+  ): Promise<Observable<MessageEvent>> {
+    const initial = await this.getLeaderboard(userId, tournamentId, {
+      page: 1,
+      limit: this.stream.size,
+    });
+
+    if (initial.status !== TournamentStatus.ACTIVE) {
+      throw new ConflictException(
+        'Live standings are only available while the tournament is active',
+      );
+    }
+
+    const updates = this.scoreUpdates.pipe(
+      filter((id) => id === tournamentId),
+      throttleTime(this.stream.throttleMs, undefined, {
+        leading: true,
+        trailing: true,
+      }),
+    );
+
+    const refreshes = merge(updates, interval(this.stream.refreshMs)).pipe(
+      switchMap(() =>
+        from(
+          this.getLeaderboard(userId, tournamentId, {
+            page: 1,
+            limit: this.stream.size,
+          }),
+        ),
+      ),
+    );
+
+    this.logger.debug(`Leaderboard stream opened for ${tournamentId}`);
+
+    return merge(of(initial), refreshes).pipe(
+      takeWhile(
+        (leaderboard) => leaderboard.status === TournamentStatus.ACTIVE,
+        true,
+      ),
+      map((leaderboard) => ({ type: 'leaderboard', data: leaderboard })),
+    );
+  }
+
+  private rankedEntries(tournamentId: string): Prisma.Sql {
+    return Prisma.sql`
+      WITH ranked AS (
+        SELECT
+          e."id" AS "entryId",
+          e."userId",
+          u."firstName",
+          u."lastName",
+          e."score",
+          e."timeTaken",
+          e."finishedAt",
+          ROW_NUMBER() OVER (
+            ORDER BY e."score" DESC, e."timeTaken" ASC NULLS LAST, e."createdAt" ASC
+          ) AS "rank"
+        FROM "tournament_entries" e
+        JOIN "users" u ON u."id" = e."userId"
+        WHERE e."tournamentId" = ${tournamentId}
+      )
+    `;
+  }
+
+  private mapRowToDto(
+    row: LeaderboardRow,
+    userId: string,
+  ): LeaderboardEntryDto {
+    return {
+      rank: Number(row.rank),
+      entryId: row.entryId,
+      // Other players only see a first name and initial
+      displayName: `${row.firstName} ${row.lastName.charAt(0)}.`.trim(),
+      score: row.score,
+      timeTaken: row.timeTaken ?? undefined,
+      finished: row.finishedAt !== null,
+      isCurrentUser: row.userId === userId,
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  PayoutCurve,
+  Tournament,
+  TournamentEntry,
+  TournamentStatus,
+  TransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletService } from '../wallet/wallet.service';
+import { TournamentPayoutService } from './tournament-payout.service';
+
+describe('TournamentPayoutService', () => {
+  let service: TournamentPayoutService;
+
+  const tx = {
+    $queryRaw: jest.fn(),
+    tournament: { findUniqueOrThrow: jest.fn(), update: jest.fn() },
+    tournamentEntry: { findMany: jest.fn(), update: jest.fn() },
+    transaction: { findMany: jest.fn() },
+  };
+  const prisma = {
+    $transaction: jest.fn((callback) => callback(tx)),
+  };
+  const walletService = {
+    addFunds: jest.fn(),
+    captureLockedFunds: jest.fn(),
+  };
+
+  const tournament = (overrides: Partial<Tournament> = {}): Tournament =>
+    ({
+      id: 'tournament-1',
+      title: 'Friday Quiz',
+      status: TournamentStatus.COMPLETED,
+      prizePool: new Decimal(100),
+      payoutCurve: PayoutCurve.TOP_PERCENTAGES,
+      payoutPercentages: [],
+      payoutWinners: null,
+      metadata: null,
+      ...overrides,
+    }) as Tournament;
+
+  // Entries come back from the database already in ranking order
+  const entry = (id: string, score: number, started = true) =>
+    ({
+      id,
+      userId: `user-${id}`,
+      score,
+      startedAt: started ? new Date() : null,
+      metadata: null,
+    }) as TournamentEntry;
+
+  const settle = async (
+    overrides: Partial<Tournament>,
+    entries: TournamentEntry[],
+  ) => {
+    tx.tournament.findUniqueOrThrow.mockResolvedValue(tournament(overrides));
+    tx.tournamentEntry.findMany.mockResolvedValue(entries);
+    return await service.settleTournament('tournament-1');
+  };
+
+  const paid = (payout: Awaited<ReturnType<typeof settle>>) =>
+    payout.winners.map((winner) => [winner.entryId, winner.amount]);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tx.$queryRaw.mockResolvedValue([{ id: 'tournament-1' }]);
+    tx.transaction.findMany.mockResolvedValue([]);
+    walletService.addFunds.mockImplementation((userId) =>
+      Promise.resolve({ id: `prize-${userId}` }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TournamentPayoutService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: WalletService, useValue: walletService },
+      ],
+    }).compile();
+
+    service = module.get<TournamentPayoutService>(TournamentPayoutService);
+  });
+
+  it('splits the pool by the default percentages', async () => {
+    const payout = await settle({}, [
+      entry('a', 90),
+      entry('b', 80),
+      entry('c', 70),
+      entry('d', 60),
+    ]);
+
+    expect(paid(payout)).toEqual([
+      ['a', '50.00'],
+      ['b', '30.00'],
+      ['c', '20.00'],
+    ]);
+    expect(payout.distributed).toBe('100.00');
+    expect(payout.undistributed).toBe('0.00');
+    expect(walletService.addFunds).toHaveBeenCalledWith(
+      'user-a',
+      new Decimal(50),
+      TransactionType.TOURNAMENT_WIN,
+      'Prize for rank 1: Friday Quiz',
+      expect.objectContaining({ rank: 1 }),
+      tx,
+    );
+  });
+
+  it('shares unreached places among the paid ranks in proportion', async () => {
+    const payout = await settle({}, [entry('a', 90), entry('b', 80)]);
+
+    // 50:30 of the whole pool
+    expect(paid(payout)).toEqual([
+      ['a', '62.50'],
+      ['b', '37.50'],
+    ]);
+  });
+
+  it('gives the rounding remainder to first place', async () => {
+    const payout = await settle(
+      { payoutCurve: PayoutCurve.TOP_N_FLAT, payoutWinners: 3 },
+      [entry('a', 90), entry('b', 80), entry('c', 70)],
+    );
+
+    expect(paid(payout)).toEqual([
+      ['a', '33.34'],
+      ['b', '33.33'],
+      ['c', '33.33'],
+    ]);
+    expect(payout.distributed).toBe('100.00');
+  });
+
+  it('pays everything to the winner when the winner takes all', async () => {
+    const payout = await settle({ payoutCurve: PayoutCurve.WINNER_TAKES_ALL }, [
+      entry('a', 90),
+      entry('b', 80),
+    ]);
+
+    expect(paid(payout)).toEqual([['a', '100.00']]);
+  });
+
+  it('ranks tied scores by time taken, then by who joined first', async () => {
+    await settle({}, [entry('fast', 80), entry('slow', 80), entry('c', 70)]);
+
+    expect(tx.tournamentEntry.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        orderBy: [
+          { score: 'desc' },
+          { timeTaken: { sort: 'asc', nulls: 'last' } },
+          { createdAt: 'asc' },
+        ],
+      }),
+    );
+    expect(tx.tournamentEntry.update.mock.calls.map(([args]) => args)).toEqual([
+      { where: { id: 'fast' }, data: { rank: 1 } },
+      { where: { id: 'slow' }, data: { rank: 2 } },
+      { where: { id: 'c' }, data: { rank: 3 } },
+    ]);
+  });
+
+  it('only pays players who were served a question', async () => {
+    const payout = await settle({ payoutCurve: PayoutCurve.WINNER_TAKES_ALL }, [
+      entry('idle', 0, false),
+      entry('a', 0),
+    ]);
+
+    expect(paid(payout)).toEqual([['a', '100.00']]);
+    expect(payout.participants).toBe(2);
+  });
+
+  it('returns the stored result when already settled', async () => {
+    const stored = { tournamentId: 'tournament-1', distributed: '100.00' };
+
+    const payout = await settle({ metadata: { payout: stored } }, []);
+
+    expect(payout).toBe(stored);
+    expect(walletService.addFunds).not.toHaveBeenCalled();
+  });
+
+  it('refuses to settle a tournament that has not completed', async () => {
+    await expect(
+      settle({ status: TournamentStatus.ACTIVE }, [entry('a', 90)]),
+    ).rejects.toThrow(ConflictException);
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletService } from '../wallet/wallet.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import { roundPayout } from '../common/money';
+import {
+  PayoutCurve,
+  Prisma,
+  Tournament,
+  TournamentEntry,
+  TournamentStatus,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import {
+  TournamentPayoutLineDto,
+  TournamentPayoutResponseDto,
+} from './tournaments.dtos';
+
+type PayoutShare = { entry: TournamentEntry; rank: number; amount: Decimal };
+
+@Injectable()
+export class TournamentPayoutService {
+  private readonly logger = new Logger(TournamentPayoutService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private walletService: WalletService,
+  ) {}
+
+  // Used for TOP_PERCENTAGES when the tournament does not set its own split
+  private readonly defaultPercentages = [50, 30, 20];
+
+  /**
+   * Rank a completed tournament and pay out its prize pool. Settling is
+   * idempotent: once recorded in metadata.payout the stored result is returned.
+   */
+  async settleTournament(id: string): Promise<TournamentPayoutResponseDto> {
+    return await this.prisma.$transaction(
+      async (tx) => {
+        const locked = await tx.$queryRaw<{ id: string }[]>`
+          SELECT "id" FROM "tournaments" WHERE "id" = ${id} FOR UPDATE
+        `;
+
+        if (locked.length === 0) {
+          throw new NotFoundException('Tournament not found');
+        }
+
+        const tournament = await tx.tournament.findUniqueOrThrow({
+          where: { id },
+        });
+
+        const metadata = (tournament.metadata as Prisma.JsonObject) ?? {};
+        if (metadata.payout) {
+          return metadata.payout as unknown as TournamentPayoutResponseDto;
+        }
+
+        if (tournament.status !== TournamentStatus.COMPLETED) {
+          throw new ConflictException(
+            'Only completed tournaments can be settled',
+          );
+        }
+
+        const entries = await tx.tournamentEntry.findMany({
+          where: { tournamentId: id },
+          orderBy: [
+            { score: 'desc' },
+            { timeTaken: { sort: 'asc', nulls: 'last' } },
+            { createdAt: 'asc' },
+          ],
+        });
+
+        for (const [index, entry] of entries.entries()) {
+          await tx.tournamentEntry.update({
+            where: { id: entry.id },
+            data: { rank: index + 1 },
+          });
+        }
+
+        // Only players who were served a question can win a prize
+        const contenders = entries.filter((entry) => entry.startedAt !== null);
+        const shares = this.splitPrizePool(tournament, contenders);
+
+        const winners: TournamentPayoutLineDto[] = [];
+        for (const share of shares) {
+          const transaction = await this.walletService.addFunds(
+            share.entry.userId,
+            share.amount,
+            TransactionType.TOURNAMENT_WIN,
+            `Prize for rank ${share.rank}: ${tournament.title}`,
+            { tournamentId: id, entryId: share.entry.id, rank: share.rank },
+            tx,
+          );
+
+          winners.push({
+            rank: share.rank,
+            entryId: share.entry.id,
+            userId: share.entry.userId,
+            score: share.entry.score,
+            amount: share.amount.toFixed(2),
+            transactionId: transaction.id,
+          });
+        }
+
+        const entryFeesCaptured = await this.captureEntryFees(id, entries, tx);
+
+        const distributed = shares.reduce(
+          (sum, share) => sum.plus(share.amount),
+          new Decimal(0),
+        );
+
+        const payout: TournamentPayoutResponseDto = {
+          tournamentId: id,
+          payoutCurve: tournament.payoutCurve,
+          prizePool: tournament.prizePool.toFixed(2),
+          distributed: distributed.toFixed(2),
+          undistributed: tournament.prizePool.minus(distributed).toFixed(2),
+          participants: entries.length,
+          entryFeesCaptured: entryFeesCaptured.toFixed(2),
+          winners,
+          settledAt: new Date(),
+        };
+
+        await tx.tournament.update({
+          where: { id },
+          data: {
+            metadata: {
+              ...metadata,
+              payout: payout as unknown as Prisma.JsonObject,
+            },
+          },
+        });
+
+        this.logger.log(
+          `Tournament ${id} settled: ${payout.distributed} paid to ${winners.length} winners`,
+        );
+        return payout;
+      },
+      { timeout: 60 * 1000 },
+    );
+  }
+
+  /**
+   * Settle every completed tournament that has not been paid out yet
+   */
+  async settleCompletedTournaments(): Promise<number> {
+    const pending = await this.prisma.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "tournaments"
+      WHERE "status" = 'COMPLETED'
+        AND ("metadata" IS NULL OR "metadata"->'payout' IS NULL)
+      ORDER BY "endDate" ASC
+    `;
+
+    let settled = 0;
+    for (const { id } of pending) {
+      try {
+        await this.settleTournament(id);
+        settled++;
+      } catch (error) {
+        this.logger.error(`Failed to settle tournament ${id}`, error.stack);
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Split the prize pool between the ranked contenders according to the
+   * tournament's payout curve. Places nobody reached are shared among the
+   * paid ranks in proportion, and rounding leftovers go to first place.
+   */
+  private splitPrizePool(
+    tournament: Tournament,
+    contenders: TournamentEntry[],
+  ): PayoutShare[] {
+    if (contenders.length === 0 || tournament.prizePool.lessThanOrEqualTo(0)) {
+      return [];
+    }
+
+    const weights = this.getWeights(tournament).slice(0, contenders.length);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const shares = weights.map((weight, index) => ({
+      entry: contenders[index],
+      rank: index + 1,
+      amount: roundPayout(
+        tournament.prizePool.times(weight).dividedBy(totalWeight),
+      ),
+    }));
+
+    const remainder = shares.reduce(
+      (left, share) => left.minus(share.amount),
+      tournament.prizePool,
+    );
+    shares[0].amount = shares[0].amount.plus(remainder);
+
+    return shares.filter((share) => share.amount.greaterThan(0));
+  }
+
+  private getWeights(tournament: Tournament): number[] {
+    switch (tournament.payoutCurve) {
+      case PayoutCurve.WINNER_TAKES_ALL:
+        return [1];
+      case PayoutCurve.TOP_N_FLAT:
+        return Array.from({ length: tournament.payoutWinners ?? 1 }, () => 1);
+      case PayoutCurve.TOP_PERCENTAGES:
+      default:
+        return tournament.payoutPercentages.length > 0
+          ? tournament.payoutPercentages
+          : this.defaultPercentages;
+    }
+  }
+
+  /**
+   * Entry fees are held in the players' wallets while the tournament runs.
+   * Capture the holds that are still pending now the tournament is over.
+   */
+  private async captureEntryFees(
+    tournamentId: string,
+    entries: TournamentEntry[],
+    tx: Prisma.TransactionClient,
+  ): Promise<Decimal> {
+    const holdIds = entries
+      .map(
+        (entry) =>
+          (entry.metadata as Prisma.JsonObject)?.holdTransactionId as string,
+      )
+      .filter(Boolean);
+
+    if (holdIds.length === 0) {
+      return new Decimal(0);
+    }
+
+    const holds = await tx.transaction.findMany({
+      where: { id: { in: holdIds }, status: TransactionStatus.PENDING },
+    });
+
+    let captured = new Decimal(0);
+    for (const hold of holds) {
+      await this.walletService.captureLockedFunds(
+        hold.id,
+        { tournamentId },
+        tx,
+      );
+      captured = captured.plus(hold.amount);
+    }
+
+    return captured;
+  }
+}
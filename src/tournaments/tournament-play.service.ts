@@ -0,0 +1,400 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { TournamentLeaderboardService } from './tournament-leaderboard.service';
+import {
+  Prisma,
+  TournamentAnswer,
+  TournamentQuestion,
+  TournamentStatus,
+} from '@prisma/client';
+import {
+  PlayQuestionDto,
+  PlayStateResponseDto,
+  SubmitTournamentAnswersDto,
+  SubmitTournamentAnswersResponseDto,
+  TournamentAnswerResultDto,
+} from './tournaments.dtos';
+
+type PlayContext = {
+  tournament: Prisma.TournamentGetPayload<{
+    include: { questions: true };
+  }>;
+  entry: Prisma.TournamentEntryGetPayload<{
+    include: { answers: true };
+  }>;
+};
+
+@Injectable()
+export class TournamentPlayService {
+  private readonly logger = new Logger(TournamentPlayService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leaderboardService: TournamentLeaderboardService,
+  ) {}
+
+  // A question is worth `points * pointScale`: half for being correct, the
+  // other half shrinks linearly with the time taken
+  private readonly scoring = {
+    pointScale: 100,
+    speedBonusShare: 0.5,
+  };
+
+  // Allowance for network latency before an answer counts as late
+  private readonly graceMs = 2000;
+
+  /**
+   * Serve the next question, or return the one still awaiting an answer
+   */
+  async serveNext(
+    userId: string,
+    tournamentId: string,
+  ): Promise<PlayStateResponseDto> {
+    return this.serve(userId, tournamentId, 'single');
+  }
+
+  /**
+   * Serve every remaining question at once with a shared deadline
+   */
+  async serveBatch(
+    userId: string,
+    tournamentId: string,
+  ): Promise<PlayStateResponseDto> {
+    return this.serve(userId, tournamentId, 'batch');
+  }
+
+  /**
+   * Record answers to served questions and update the entry score
+   */
+  async submitAnswers(
+    userId: string,
+    tournamentId: string,
+    submitDto: SubmitTournamentAnswersDto,
+  ): Promise<SubmitTournamentAnswersResponseDto> {
+    const questionIds = submitDto.answers.map((a) => a.questionId);
+    if (new Set(questionIds).size !== questionIds.length) {
+      throw new BadRequestException('Each question can only be answered once');
+    }
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const { tournament, entry } = await this.lockEntry(
+        tx,
+        userId,
+        tournamentId,
+      );
+
+      if (tournament.status === TournamentStatus.CANCELLED) {
+        throw new ConflictException('Tournament was cancelled');
+      }
+
+      if (now > tournament.endDate) {
+        throw new ConflictException(
+          'Tournament has ended; late answers are not accepted',
+        );
+      }
+
+      const results: TournamentAnswerResultDto[] = [];
+
+      for (const { questionId, answer } of submitDto.answers) {
+        const record = entry.answers.find((a) => a.questionId === questionId);
+        const question = tournament.questions.find((q) => q.id === questionId);
+
+        if (!record || !question) {
+          throw new BadRequestException(
+            `Question ${questionId} has not been served`,
+          );
+        }
+
+        if (record.answeredAt) {
+          throw new ConflictException(
+            `Question ${questionId} has already been answered or timed out`,
+          );
+        }
+
+        const result = this.grade(question, record, answer, now);
+
+        const updated = await tx.tournamentAnswer.updateMany({
+          where: { id: record.id, answeredAt: null },
+          data: {
+            answer,
+            isCorrect: result.isCorrect,
+            points: result.points,
+            answeredAt: now,
+            timeTakenMs: result.timeTakenMs,
+          },
+        });
+
+        if (updated.count === 0) {
+          throw new ConflictException(
+            `Question ${questionId} has already been answered or timed out`,
+          );
+        }
+
+        results.push(result);
+      }
+
+      const totals = await this.updateEntryTotals(
+        tx,
+        entry.id,
+        tournament.questions.length,
+      );
+
+      return { results, ...totals };
+    });
+
+    this.leaderboardService.publishScoreUpdate(tournamentId);
+    return result;
+  }
+
+  private async serve(
+    userId: string,
+    tournamentId: string,
+    mode: 'single' | 'batch',
+  ): Promise<PlayStateResponseDto> {
+    let timedOut = 0;
+
+    const state = await this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const { tournament, entry } = await this.lockEntry(
+        tx,
+        userId,
+        tournamentId,
+      );
+      this.assertPlayable(tournament, now);
+
+      // Questions left unanswered past their deadline score nothing
+      const expired = entry.answers.filter(
+        (a) =>
+          !a.answeredAt && a.deadline.getTime() + this.graceMs < now.getTime(),
+      );
+      for (const record of expired) {
+        await tx.tournamentAnswer.update({
+          where: { id: record.id },
+          data: {
+            answeredAt: record.deadline,
+            timeTakenMs: record.deadline.getTime() - record.servedAt.getTime(),
+          },
+        });
+      }
+
+      timedOut = expired.length;
+
+      const served = new Set(entry.answers.map((a) => a.questionId));
+      const awaiting = entry.answers.filter(
+        (a) => !expired.includes(a) && !a.answeredAt,
+      );
+      const unserved = tournament.questions.filter((q) => !served.has(q.id));
+
+      if (awaiting.length === 0 && unserved.length > 0) {
+        const toServe = mode === 'batch' ? unserved : unserved.slice(0, 1);
+        const windowMs =
+          toServe.reduce((sum, q) => sum + q.timeLimit, 0) * 1000;
+        const deadline = new Date(
+          Math.min(now.getTime() + windowMs, tournament.endDate.getTime()),
+        );
+
+        await tx.tournamentAnswer.createMany({
+          data: toServe.map((question) => ({
+            entryId: entry.id,
+            questionId: question.id,
+            servedAt: now,
+            deadline,
+          })),
+        });
+
+        if (!entry.startedAt) {
+          await tx.tournamentEntry.update({
+            where: { id: entry.id },
+            data: { startedAt: now },
+          });
+        }
+      }
+
+      const totals = await this.updateEntryTotals(
+        tx,
+        entry.id,
+        tournament.questions.length,
+      );
+
+      const pending = await tx.tournamentAnswer.findMany({
+        where: { entryId: entry.id, answeredAt: null },
+      });
+
+      return {
+        tournamentId,
+        entryId: entry.id,
+        questions: pending
+          .map((record) =>
+            this.mapPlayQuestion(
+              tournament.questions.find((q) => q.id === record.questionId),
+              record,
+            ),
+          )
+          .sort((a, b) => a.order - b.order),
+        ...totals,
+      };
+    });
+
+    if (timedOut > 0) {
+      this.leaderboardService.publishScoreUpdate(tournamentId);
+    }
+
+    return state;
+  }
+
+  /**
+   * Lock the user's entry so concurrent play requests are applied one at a time
+   */
+  private async lockEntry(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    tournamentId: string,
+  ): Promise<PlayContext> {
+    const locked = await tx.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "tournament_entries"
+      WHERE "tournamentId" = ${tournamentId} AND "userId" = ${userId}
+      FOR UPDATE
+    `;
+
+    if (locked.length === 0) {
+      throw new NotFoundException('You have not joined this tournament');
+    }
+
+    const [tournament, entry] = await Promise.all([
+      tx.tournament.findUniqueOrThrow({
+        where: { id: tournamentId },
+        include: { questions: { orderBy: { order: 'asc' } } },
+      }),
+      tx.tournamentEntry.findUniqueOrThrow({
+        where: { id: locked[0].id },
+        include: { answers: true },
+      }),
+    ]);
+
+    return { tournament, entry };
+  }
+
+  private assertPlayable(
+    tournament: PlayContext['tournament'],
+    now: Date,
+  ): void {
+    if (tournament.status === TournamentStatus.CANCELLED) {
+      throw new ConflictException('Tournament was cancelled');
+    }
+
+    if (
+      tournament.status === TournamentStatus.COMPLETED ||
+      now >= tournament.endDate
+    ) {
+      throw new ConflictException('Tournament has ended');
+    }
+
+    if (now < tournament.startDate) {
+      throw new ConflictException('Tournament has not started yet');
+    }
+  }
+
+  /**
+   * Score an answer from the question's points and the time taken
+   */
+  private grade(
+    question: TournamentQuestion,
+    record: TournamentAnswer,
+    answer: string,
+    now: Date,
+  ): TournamentAnswerResultDto {
+    const windowMs = Math.max(
+      record.deadline.getTime() - record.servedAt.getTime(),
+      1,
+    );
+    const elapsedMs = now.getTime() - record.servedAt.getTime();
+    const timedOut = elapsedMs > windowMs + this.graceMs;
+    const isCorrect =
+      !timedOut &&
+      answer.trim().toLowerCase() ===
+        question.correctAnswer.trim().toLowerCase();
+
+    const { pointScale, speedBonusShare } = this.scoring;
+    const speed = Math.max(0, 1 - elapsedMs / windowMs);
+    const points = isCorrect
+      ? Math.round(
+          question.points *
+            pointScale *
+            (1 - speedBonusShare + speedBonusShare * speed),
+        )
+      : 0;
+
+    return {
+      questionId: question.id,
+      isCorrect,
+      timedOut,
+      points,
+      timeTakenMs: Math.min(elapsedMs, windowMs),
+    };
+  }
+
+  /**
+   * Recompute the entry score and time from its answers
+   */
+  private async updateEntryTotals(
+    tx: Prisma.TransactionClient,
+    entryId: string,
+    totalQuestions: number,
+  ): Promise<{
+    answeredCount: number;
+    totalQuestions: number;
+    score: number;
+    finished: boolean;
+  }> {
+    const totals = await tx.tournamentAnswer.aggregate({
+      where: { entryId, answeredAt: { not: null } },
+      _sum: { points: true, timeTakenMs: true },
+      _count: { id: true },
+    });
+
+    const answeredCount = totals._count.id;
+    const score = totals._sum.points ?? 0;
+    const finished = totalQuestions > 0 && answeredCount >= totalQuestions;
+
+    const entry = await tx.tournamentEntry.update({
+      where: { id: entryId },
+      data: {
+        score,
+        timeTaken: Math.round((totals._sum.timeTakenMs ?? 0) / 1000),
+      },
+    });
+
+    if (finished && !entry.finishedAt) {
+      await tx.tournamentEntry.update({
+        where: { id: entryId },
+        data: { finishedAt: new Date() },
+      });
+      this.logger.log(`Entry ${entryId} finished with score ${score}`);
+    }
+
+    return { answeredCount, totalQuestions, score, finished };
+  }
+
+  private mapPlayQuestion(
+    question: TournamentQuestion,
+    record: TournamentAnswer,
+  ): PlayQuestionDto {
+    // Never include correctAnswer here
+    return {
+      id: question.id,
+      question: question.question,
+      options: question.options,
+      points: question.points,
+      order: question.order,
+      servedAt: record.servedAt,
+      deadline: record.deadline,
+    };
+  }
+}
@@ -0,0 +1,245 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { TournamentType, UserRole } from '@prisma/client';
+import { TournamentTemplatesService } from './tournament-templates.service';
+import {
+  CreateTournamentTemplateDto,
+  UpdateTournamentTemplateDto,
+  TournamentTemplateQueryDto,
+  TournamentTemplateResponseDto,
+  TournamentTemplateListResponseDto,
+  TournamentTemplateRunResponseDto,
+} from './tournament-templates.dtos';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+
+@ApiTags('Tournament Templates')
+@Controller('tournament-templates')
+@ApiBearerAuth()
+export class TournamentTemplatesController {
+  constructor(
+    private readonly tournamentTemplatesService: TournamentTemplatesService,
+  ) {}
+
+  @Post()
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Create tournament template (Admin only)',
+    description:
+      'Defines a WEEKLY or MONTHLY tournament once. Each tournament is created and published automatically createAheadDays before it starts, with questions drawn at random from question bank entries carrying any of the template tags.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Tournament template created successfully',
+    type: SuccessResponse<TournamentTemplateResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid schedule, payout or participant limits',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  async createTemplate(
+    @Req() req,
+    @Body() createDto: CreateTournamentTemplateDto,
+  ): Promise<SuccessResponse<TournamentTemplateResponseDto>> {
+    const result = await this.tournamentTemplatesService.createTemplate(
+      createDto,
+      req.user.userId,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Tournament template created successfully',
+      result,
+    );
+  }
+
+  @Get()
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get tournament templates (Admin only)',
+    description: 'Retrieves tournament templates with pagination.',
+  })
+  @ApiQuery({ name: 'type', required: false, enum: TournamentType })
+  @ApiQuery({ name: 'isActive', required: false, type: Boolean })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament templates retrieved successfully',
+    type: SuccessResponse<TournamentTemplateListResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  async getTemplates(
+    @Query() query: TournamentTemplateQueryDto,
+  ): Promise<SuccessResponse<TournamentTemplateListResponseDto>> {
+    const result = await this.tournamentTemplatesService.getTemplates(query);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament templates retrieved successfully',
+      result,
+    );
+  }
+
+  @Get(':id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get tournament template by ID (Admin only)',
+    description:
+      'Retrieves a template with the size of its question pool and its next start date.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament template retrieved successfully',
+    type: SuccessResponse<TournamentTemplateResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament template not found',
+    type: ErrorResponse,
+  })
+  async getTemplateById(
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<TournamentTemplateResponseDto>> {
+    const result = await this.tournamentTemplatesService.getTemplateById(id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament template retrieved successfully',
+      result,
+    );
+  }
+
+  @Put(':id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update tournament template (Admin only)',
+    description:
+      'Updates a template. Tournaments it has already created keep their own settings and questions.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament template updated successfully',
+    type: SuccessResponse<TournamentTemplateResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid payout or participant limits',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament template not found',
+    type: ErrorResponse,
+  })
+  async updateTemplate(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateTournamentTemplateDto,
+  ): Promise<SuccessResponse<TournamentTemplateResponseDto>> {
+    const result = await this.tournamentTemplatesService.updateTemplate(
+      id,
+      updateDto,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament template updated successfully',
+      result,
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Delete tournament template (Admin only)',
+    description:
+      'Deactivates a template so it stops creating tournaments. Tournaments already created are unaffected.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament template deleted successfully',
+    type: SuccessResponse<{ message: string }>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament template not found',
+    type: ErrorResponse,
+  })
+  async deleteTemplate(
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<{ message: string }>> {
+    const result = await this.tournamentTemplatesService.deleteTemplate(id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament template deleted successfully',
+      result,
+    );
+  }
+
+  @Post(':id/run')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Create due tournaments now (Admin only)',
+    description:
+      'Creates the tournaments of this template that start within createAheadDays and do not exist yet, without waiting for the hourly job.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament template run successfully',
+    type: SuccessResponse<TournamentTemplateRunResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament template not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament template is inactive',
+    type: ErrorResponse,
+  })
+  async runTemplate(
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<TournamentTemplateRunResponseDto>> {
+    const result = await this.tournamentTemplatesService.runTemplate(id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament template run successfully',
+      result,
+    );
+  }
+}
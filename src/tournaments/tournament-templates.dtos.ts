@@ -0,0 +1,400 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PayoutCurve, TournamentType } from '@prisma/client';
+import { TournamentResponseDto } from './tournaments.dtos';
+
+export class CreateTournamentTemplateDto {
+  @ApiProperty({ example: 'Weekly Reading Challenge' })
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    enum: [TournamentType.WEEKLY, TournamentType.MONTHLY],
+    description: 'How often a new tournament is created',
+  })
+  @IsIn([TournamentType.WEEKLY, TournamentType.MONTHLY])
+  type: TournamentType;
+
+  @ApiPropertyOptional({ example: 5, default: 0 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  entryFee?: number;
+
+  @ApiPropertyOptional({ example: 100, default: 0 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  prizePool?: number;
+
+  @ApiPropertyOptional({ example: 500 })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Type(() => Number)
+  maxParticipants?: number;
+
+  @ApiPropertyOptional({ example: 10 })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Type(() => Number)
+  minParticipants?: number;
+
+  @ApiPropertyOptional({
+    enum: PayoutCurve,
+    default: PayoutCurve.TOP_PERCENTAGES,
+  })
+  @IsOptional()
+  @IsEnum(PayoutCurve)
+  payoutCurve?: PayoutCurve;
+
+  @ApiPropertyOptional({ type: [Number], example: [50, 30, 20] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(100, { each: true })
+  payoutPercentages?: number[];
+
+  @ApiPropertyOptional({ example: 10 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  payoutWinners?: number;
+
+  @ApiProperty({
+    example: '2025-12-15T09:00:00.000Z',
+    description:
+      'Start of the first tournament; later ones start a week or a month apart at the same time',
+  })
+  @IsDate()
+  @Type(() => Date)
+  firstStartDate: Date;
+
+  @ApiProperty({ example: 168, description: 'How long each tournament runs' })
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  durationHours: number;
+
+  @ApiPropertyOptional({
+    example: 7,
+    default: 7,
+    description: 'How many days before its start each tournament is created',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(60)
+  @Type(() => Number)
+  createAheadDays?: number;
+
+  @ApiProperty({
+    type: [String],
+    example: ['habits', 'productivity'],
+    description: 'Question bank tags; questions with any of them are eligible',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  questionTags: string[];
+
+  @ApiPropertyOptional({
+    example: 10,
+    default: 10,
+    description: 'Questions drawn at random for each tournament',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  questionCount?: number;
+
+  @ApiPropertyOptional({
+    example: 30,
+    default: 30,
+    description: 'Seconds allowed to answer each question',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(600)
+  @Type(() => Number)
+  questionTimeLimit?: number;
+
+  @ApiPropertyOptional({ description: 'Additional metadata' })
+  @IsOptional()
+  @IsObject()
+  metadata?: any;
+}
+
+export class UpdateTournamentTemplateDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  title?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  entryFee?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  prizePool?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Type(() => Number)
+  maxParticipants?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Type(() => Number)
+  minParticipants?: number;
+
+  @ApiPropertyOptional({ enum: PayoutCurve })
+  @IsOptional()
+  @IsEnum(PayoutCurve)
+  payoutCurve?: PayoutCurve;
+
+  @ApiPropertyOptional({ type: [Number] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(100, { each: true })
+  payoutPercentages?: number[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  payoutWinners?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  durationHours?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(60)
+  @Type(() => Number)
+  createAheadDays?: number;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  questionTags?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  questionCount?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(600)
+  @Type(() => Number)
+  questionTimeLimit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Inactive templates stop creating tournaments',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({ description: 'Additional metadata' })
+  @IsOptional()
+  @IsObject()
+  metadata?: any;
+}
+
+export class TournamentTemplateQueryDto {
+  @ApiPropertyOptional({
+    enum: [TournamentType.WEEKLY, TournamentType.MONTHLY],
+  })
+  @IsOptional()
+  @IsEnum(TournamentType)
+  type?: TournamentType;
+
+  @ApiPropertyOptional({ description: 'Filter by active status' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number = 20;
+}
+
+export class TournamentTemplateResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiProperty({ enum: TournamentType })
+  type: TournamentType;
+
+  @ApiProperty({ example: '5.00' })
+  entryFee: string;
+
+  @ApiProperty({ example: '100.00' })
+  prizePool: string;
+
+  @ApiPropertyOptional()
+  maxParticipants?: number;
+
+  @ApiPropertyOptional()
+  minParticipants?: number;
+
+  @ApiProperty({ enum: PayoutCurve })
+  payoutCurve: PayoutCurve;
+
+  @ApiProperty({ type: [Number] })
+  payoutPercentages: number[];
+
+  @ApiPropertyOptional()
+  payoutWinners?: number;
+
+  @ApiProperty()
+  firstStartDate: Date;
+
+  @ApiProperty()
+  durationHours: number;
+
+  @ApiProperty()
+  createAheadDays: number;
+
+  @ApiProperty({ type: [String] })
+  questionTags: string[];
+
+  @ApiProperty()
+  questionCount: number;
+
+  @ApiProperty()
+  questionTimeLimit: number;
+
+  @ApiProperty({
+    example: 42,
+    description: 'Active questions in the bank with a matching tag',
+  })
+  availableQuestions: number;
+
+  @ApiProperty({ description: 'Start of the next scheduled tournament' })
+  nextStartDate: Date;
+
+  @ApiProperty({ example: 3, description: 'Tournaments created so far' })
+  tournamentCount: number;
+
+  @ApiProperty()
+  isActive: boolean;
+
+  @ApiPropertyOptional()
+  metadata?: any;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<TournamentTemplateResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class TournamentTemplateListResponseDto {
+  @ApiProperty({ type: [TournamentTemplateResponseDto] })
+  templates: TournamentTemplateResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class TournamentTemplateRunResponseDto {
+  @ApiProperty({ type: [TournamentResponseDto] })
+  created: TournamentResponseDto[];
+}
@@ -0,0 +1,456 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { CronService } from '../cron/cron.service';
+import { TournamentsService } from './tournaments.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  PayoutCurve,
+  Prisma,
+  TournamentStatus,
+  TournamentTemplate,
+  TournamentType,
+} from '@prisma/client';
+import {
+  CreateTournamentTemplateDto,
+  UpdateTournamentTemplateDto,
+  TournamentTemplateQueryDto,
+  TournamentTemplateResponseDto,
+  TournamentTemplateListResponseDto,
+  TournamentTemplateRunResponseDto,
+} from './tournament-templates.dtos';
+import { TournamentResponseDto } from './tournaments.dtos';
+
+type TemplateWithCount = TournamentTemplate & {
+  _count: { tournaments: number };
+};
+
+@Injectable()
+export class TournamentTemplatesService implements OnModuleInit {
+  private readonly logger = new Logger(TournamentTemplatesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private cronService: CronService,
+    private tournamentsService: TournamentsService,
+  ) {}
+
+  // Caps how many tournaments one template can create in a single run
+  private readonly maxInstancesPerRun = 10;
+
+  onModuleInit() {
+    this.cronService.register('tournament-templates', 60 * 60 * 1000, () =>
+      this.createScheduledTournaments(),
+    );
+  }
+
+  /**
+   * Map Prisma tournament template to TournamentTemplateResponseDto
+   */
+  private async mapTemplateToDto(
+    template: TemplateWithCount,
+  ): Promise<TournamentTemplateResponseDto> {
+    const { _count, ...rest } = template;
+
+    return new TournamentTemplateResponseDto({
+      ...rest,
+      description: template.description ?? undefined,
+      entryFee: template.entryFee.toFixed(2),
+      prizePool: template.prizePool.toFixed(2),
+      maxParticipants: template.maxParticipants ?? undefined,
+      minParticipants: template.minParticipants ?? undefined,
+      payoutWinners: template.payoutWinners ?? undefined,
+      availableQuestions: await this.prisma.questionTemplate.count({
+        where: { isActive: true, tags: { hasSome: template.questionTags } },
+      }),
+      nextStartDate: this.getNextStartDate(template, new Date()),
+      tournamentCount: _count.tournaments,
+    });
+  }
+
+  /**
+   * Create a recurring tournament template
+   */
+  async createTemplate(
+    createDto: CreateTournamentTemplateDto,
+    createdById?: string,
+  ): Promise<TournamentTemplateResponseDto> {
+    this.validateTemplate({
+      minParticipants: createDto.minParticipants ?? null,
+      maxParticipants: createDto.maxParticipants ?? null,
+      payoutCurve: createDto.payoutCurve ?? PayoutCurve.TOP_PERCENTAGES,
+      payoutPercentages: createDto.payoutPercentages ?? [],
+      payoutWinners: createDto.payoutWinners ?? null,
+    });
+
+    const template = await this.prisma.tournamentTemplate.create({
+      data: {
+        ...createDto,
+        entryFee: new Decimal(createDto.entryFee ?? 0),
+        prizePool: new Decimal(createDto.prizePool ?? 0),
+        questionTags: this.normalizeTags(createDto.questionTags),
+        createdById,
+      },
+      include: { _count: { select: { tournaments: true } } },
+    });
+
+    this.logger.log(`Tournament template created: ${template.id}`);
+    return this.mapTemplateToDto(template);
+  }
+
+  /**
+   * Get tournament templates with filtering and pagination
+   */
+  async getTemplates(
+    query: TournamentTemplateQueryDto,
+  ): Promise<TournamentTemplateListResponseDto> {
+    const { type, isActive, page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.TournamentTemplateWhereInput = {};
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive;
+    }
+
+    const [templates, total] = await Promise.all([
+      this.prisma.tournamentTemplate.findMany({
+        where,
+        include: { _count: { select: { tournaments: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.tournamentTemplate.count({ where }),
+    ]);
+
+    return {
+      templates: await Promise.all(
+        templates.map((template) => this.mapTemplateToDto(template)),
+      ),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Get a tournament template by ID
+   */
+  async getTemplateById(id: string): Promise<TournamentTemplateResponseDto> {
+    const template = await this.getTemplateOrThrow(id);
+    return this.mapTemplateToDto(template);
+  }
+
+  /**
+   * Update a template. Tournaments already created keep their own settings.
+   */
+  async updateTemplate(
+    id: string,
+    updateDto: UpdateTournamentTemplateDto,
+  ): Promise<TournamentTemplateResponseDto> {
+    const existing = await this.getTemplateOrThrow(id);
+
+    this.validateTemplate({
+      minParticipants: updateDto.minParticipants ?? existing.minParticipants,
+      maxParticipants: updateDto.maxParticipants ?? existing.maxParticipants,
+      payoutCurve: updateDto.payoutCurve ?? existing.payoutCurve,
+      payoutPercentages:
+        updateDto.payoutPercentages ?? existing.payoutPercentages,
+      payoutWinners: updateDto.payoutWinners ?? existing.payoutWinners,
+    });
+
+    const template = await this.prisma.tournamentTemplate.update({
+      where: { id },
+      data: {
+        ...updateDto,
+        entryFee:
+          updateDto.entryFee !== undefined
+            ? new Decimal(updateDto.entryFee)
+            : undefined,
+        prizePool:
+          updateDto.prizePool !== undefined
+            ? new Decimal(updateDto.prizePool)
+            : undefined,
+        questionTags: updateDto.questionTags
+          ? this.normalizeTags(updateDto.questionTags)
+          : undefined,
+      },
+      include: { _count: { select: { tournaments: true } } },
+    });
+
+    this.logger.log(`Tournament template updated: ${id}`);
+    return this.mapTemplateToDto(template);
+  }
+
+  /**
+   * Delete a template (soft delete by setting isActive to false).
+   * Tournaments it already created are unaffected.
+   */
+  async deleteTemplate(id: string): Promise<{ message: string }> {
+    await this.getTemplateOrThrow(id);
+
+    await this.prisma.tournamentTemplate.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    this.logger.log(`Tournament template deleted: ${id}`);
+    return { message: 'Tournament template deleted successfully' };
+  }
+
+  /**
+   * Create any tournaments that are due for one template now
+   */
+  async runTemplate(id: string): Promise<TournamentTemplateRunResponseDto> {
+    const template = await this.getTemplateOrThrow(id);
+
+    if (!template.isActive) {
+      throw new ConflictException('Tournament template is inactive');
+    }
+
+    return { created: await this.createDueTournaments(template, new Date()) };
+  }
+
+  /**
+   * Create the upcoming tournaments of every active template
+   */
+  async createScheduledTournaments(): Promise<{ created: number }> {
+    const now = new Date();
+    const templates = await this.prisma.tournamentTemplate.findMany({
+      where: { isActive: true },
+    });
+
+    let created = 0;
+    for (const template of templates) {
+      try {
+        created += (await this.createDueTournaments(template, now)).length;
+      } catch (error) {
+        this.logger.error(
+          `Failed to create tournaments for template ${template.id}`,
+          error.stack,
+        );
+      }
+    }
+
+    if (created > 0) {
+      this.logger.log(`Created ${created} tournaments from templates`);
+    }
+
+    return { created };
+  }
+
+  /**
+   * Create the template's tournaments that start within createAheadDays and
+   * do not exist yet. (templateId, startDate) is unique, so a start date is
+   * only ever created once.
+   */
+  private async createDueTournaments(
+    template: TournamentTemplate,
+    now: Date,
+  ): Promise<TournamentResponseDto[]> {
+    const horizon = new Date(
+      now.getTime() + template.createAheadDays * 24 * 60 * 60 * 1000,
+    );
+
+    const created: TournamentResponseDto[] = [];
+
+    for (let index = 0; ; index++) {
+      const startDate = this.getOccurrence(template, index);
+
+      if (startDate > horizon || created.length >= this.maxInstancesPerRun) {
+        break;
+      }
+
+      if (startDate <= now) {
+        continue;
+      }
+
+      const existing = await this.prisma.tournament.findUnique({
+        where: {
+          templateId_startDate: { templateId: template.id, startDate },
+        },
+        select: { id: true },
+      });
+
+      if (existing) {
+        continue;
+      }
+
+      const tournament = await this.createInstance(template, startDate);
+      if (tournament) {
+        created.push(tournament);
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Create and publish one tournament with a random draw from the question pool
+   */
+  private async createInstance(
+    template: TournamentTemplate,
+    startDate: Date,
+  ): Promise<TournamentResponseDto | null> {
+    const pool = await this.prisma.questionTemplate.findMany({
+      where: { isActive: true, tags: { hasSome: template.questionTags } },
+      select: { id: true, question: true, options: true, correctAnswer: true },
+    });
+
+    if (pool.length < template.questionCount) {
+      this.logger.warn(
+        `Template ${template.id} needs ${template.questionCount} questions but only ${pool.length} match its tags`,
+      );
+      return null;
+    }
+
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+
+    try {
+      const tournament = await this.prisma.tournament.create({
+        data: {
+          title: `${template.title} (${startDate.toISOString().slice(0, 10)})`,
+          description: template.description,
+          type: template.type,
+          entryFee: template.entryFee,
+          prizePool: template.prizePool,
+          startDate,
+          endDate: new Date(
+            startDate.getTime() + template.durationHours * 60 * 60 * 1000,
+          ),
+          status: TournamentStatus.UPCOMING,
+          maxParticipants: template.maxParticipants,
+          minParticipants: template.minParticipants,
+          payoutCurve: template.payoutCurve,
+          payoutPercentages: template.payoutPercentages,
+          payoutWinners: template.payoutWinners,
+          publishedAt: new Date(),
+          createdById: template.createdById,
+          templateId: template.id,
+          questions: {
+            create: pool
+              .slice(0, template.questionCount)
+              .map((question, order) => ({
+                question: question.question,
+                options: question.options,
+                correctAnswer: question.correctAnswer,
+                order,
+                timeLimit: template.questionTimeLimit,
+                metadata: { questionTemplateId: question.id },
+              })),
+          },
+        },
+      });
+
+      this.logger.log(
+        `Tournament ${tournament.id} created from template ${template.id}`,
+      );
+      return this.tournamentsService.getTournamentById(tournament.id);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        // Another run created this start date first
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Start of the index-th tournament. Monthly templates keep the day of
+   * month, moving to the last day in shorter months.
+   */
+  private getOccurrence(template: TournamentTemplate, index: number): Date {
+    const first = template.firstStartDate;
+
+    if (template.type === TournamentType.WEEKLY) {
+      return new Date(first.getTime() + index * 7 * 24 * 60 * 60 * 1000);
+    }
+
+    const year = first.getUTCFullYear();
+    const month = first.getUTCMonth() + index;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    return new Date(
+      Date.UTC(
+        year,
+        month,
+        Math.min(first.getUTCDate(), daysInMonth),
+        first.getUTCHours(),
+        first.getUTCMinutes(),
+        first.getUTCSeconds(),
+        first.getUTCMilliseconds(),
+      ),
+    );
+  }
+
+  private getNextStartDate(template: TournamentTemplate, now: Date): Date {
+    let index = 0;
+    let startDate = this.getOccurrence(template, index);
+
+    while (startDate <= now) {
+      startDate = this.getOccurrence(template, ++index);
+    }
+
+    return startDate;
+  }
+
+  private async getTemplateOrThrow(id: string): Promise<TemplateWithCount> {
+    const template = await this.prisma.tournamentTemplate.findUnique({
+      where: { id },
+      include: { _count: { select: { tournaments: true } } },
+    });
+
+    if (!template) {
+      throw new NotFoundException('Tournament template not found');
+    }
+
+    return template;
+  }
+
+  private validateTemplate(settings: {
+    minParticipants: number | null;
+    maxParticipants: number | null;
+    payoutCurve: PayoutCurve;
+    payoutPercentages: number[];
+    payoutWinners: number | null;
+  }): void {
+    this.tournamentsService.validateParticipants(
+      settings.minParticipants,
+      settings.maxParticipants,
+    );
+    this.tournamentsService.validatePayout(
+      settings.payoutCurve,
+      settings.payoutPercentages,
+      settings.payoutWinners,
+    );
+  }
+
+  private normalizeTags(tags: string[]): string[] {
+    const normalized = tags
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean);
+
+    if (normalized.length === 0) {
+      throw new BadRequestException('At least one question tag is required');
+    }
+
+    return [...new Set(normalized)];
+  }
+}
@@ -0,0 +1,949 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  MessageEvent,
+  Sse,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  SubscriptionTier,
+  TournamentStatus,
+  TournamentType,
+  UserRole,
+} from '@prisma/client';
+import { TournamentsService } from './tournaments.service';
+import { TournamentPlayService } from './tournament-play.service';
+import { TournamentPayoutService } from './tournament-payout.service';
+import { TournamentLeaderboardService } from './tournament-leaderboard.service';
+import {
+  CreateTournamentDto,
+  UpdateTournamentDto,
+  CancelTournamentDto,
+  AddTournamentQuestionsDto,
+  UpdateTournamentQuestionDto,
+  ReorderTournamentQuestionsDto,
+  TournamentQueryDto,
+  TournamentResponseDto,
+  TournamentListResponseDto,
+  TournamentBrowseQueryDto,
+  TournamentEntryResponseDto,
+  TournamentEntryListResponseDto,
+  PlayStateResponseDto,
+  SubmitTournamentAnswersDto,
+  SubmitTournamentAnswersResponseDto,
+  TournamentPayoutResponseDto,
+  JoinTournamentDto,
+  TournamentLeaderboardQueryDto,
+  TournamentLeaderboardResponseDto,
+} from './tournaments.dtos';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { TierGuard } from '../common/guards/tier.guard';
+import { RequiresTier } from '../common/decorators/requires-tier.decorator';
+import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+import { Observable } from 'rxjs';
+
+@ApiTags('Tournaments')
+@Controller('tournaments')
+export class TournamentsController {
+  constructor(
+    private readonly tournamentsService: TournamentsService,
+    private readonly tournamentPlayService: TournamentPlayService,
+    private readonly tournamentPayoutService: TournamentPayoutService,
+    private readonly tournamentLeaderboardService: TournamentLeaderboardService,
+  ) {}
+
+  @Post()
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Create tournament (Admin only)',
+    description:
+      'Creates a WEEKLY, MONTHLY or SPECIAL tournament as an unpublished draft. Add questions and publish it to make it visible to players.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Tournament created successfully',
+    type: SuccessResponse<TournamentResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or schedule',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  async createTournament(
+    @Req() req,
+    @Body() createDto: CreateTournamentDto,
+  ): Promise<SuccessResponse<TournamentResponseDto>> {
+    const result = await this.tournamentsService.createTournament(
+      createDto,
+      req.user.userId,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Tournament created successfully',
+      result,
+    );
+  }
+
+  @Get('admin')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get all tournaments (Admin only)',
+    description:
+      'Retrieves tournaments including unpublished drafts, with pagination and filtering.',
+  })
+  @ApiQuery({ name: 'status', required: false, enum: TournamentStatus })
+  @ApiQuery({ name: 'type', required: false, enum: TournamentType })
+  @ApiQuery({ name: 'published', required: false, type: Boolean })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournaments retrieved successfully',
+    type: SuccessResponse<TournamentListResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  async getTournaments(
+    @Query() query: TournamentQueryDto,
+  ): Promise<SuccessResponse<TournamentListResponseDto>> {
+    const result = await this.tournamentsService.getTournaments(query);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournaments retrieved successfully',
+      result,
+    );
+  }
+
+  @Get('admin/:id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get tournament details (Admin only)',
+    description:
+      'Retrieves a tournament with its ordered questions and correct answers.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament retrieved successfully',
+    type: SuccessResponse<TournamentResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  async getTournamentById(
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<TournamentResponseDto>> {
+    const result = await this.tournamentsService.getTournamentById(id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament retrieved successfully',
+      result,
+    );
+  }
+
+  @Put(':id')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Update tournament (Admin only)',
+    description:
+      'Updates a tournament that has not completed or been cancelled. Once it has started only the title, description, prize pool, end date and metadata can change.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament updated successfully',
+    type: SuccessResponse<TournamentResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or schedule',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Field cannot be changed in the current tournament state',
+    type: ErrorResponse,
+  })
+  async updateTournament(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateTournamentDto,
+  ): Promise<SuccessResponse<TournamentResponseDto>> {
+    const result = await this.tournamentsService.updateTournament(
+      id,
+      updateDto,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament updated successfully',
+      result,
+    );
+  }
+
+  @Post(':id/publish')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Publish tournament (Admin only)',
+    description:
+      'Publishes a draft so players can see and join it. The tournament needs at least one question and a start date in the future.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament published successfully',
+    type: SuccessResponse<TournamentResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Tournament has no questions or its start date has passed',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament is already published, completed or cancelled',
+    type: ErrorResponse,
+  })
+  async publishTournament(
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<TournamentResponseDto>> {
+    const result = await this.tournamentsService.publishTournament(id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament published successfully',
+      result,
+    );
+  }
+
+  @Post(':id/cancel')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Cancel tournament (Admin only)',
+    description:
+      'Cancels a tournament that has not completed yet. Every entry fee is refunded to the available balance and entrants are notified by email.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament cancelled successfully',
+    type: SuccessResponse<TournamentResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament is already completed or cancelled',
+    type: ErrorResponse,
+  })
+  async cancelTournament(
+    @Param('id') id: string,
+    @Body() cancelDto: CancelTournamentDto,
+  ): Promise<SuccessResponse<TournamentResponseDto>> {
+    const result = await this.tournamentsService.cancelTournament(
+      id,
+      cancelDto,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament cancelled successfully',
+      result,
+    );
+  }
+
+  @Post(':id/settle')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Settle tournament (Admin only)',
+    description:
+      'Ranks a completed tournament, pays the prize pool to the winners according to its payout curve and captures the entry fees. Completed tournaments are settled automatically; calling this again returns the recorded payout without paying twice.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament settled successfully',
+    type: SuccessResponse<TournamentPayoutResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament has not completed',
+    type: ErrorResponse,
+  })
+  async settleTournament(
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<TournamentPayoutResponseDto>> {
+    const result = await this.tournamentPayoutService.settleTournament(id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament settled successfully',
+      result,
+    );
+  }
+
+  @Post(':id/questions')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Add tournament questions (Admin only)',
+    description:
+      'Appends questions to a tournament that has not started, keeping the order they are sent in.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Questions added successfully',
+    type: SuccessResponse<TournamentResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid options or correct answer',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament has already started',
+    type: ErrorResponse,
+  })
+  async addQuestions(
+    @Param('id') id: string,
+    @Body() addDto: AddTournamentQuestionsDto,
+  ): Promise<SuccessResponse<TournamentResponseDto>> {
+    const result = await this.tournamentsService.addQuestions(id, addDto);
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Questions added successfully',
+      result,
+    );
+  }
+
+  @Put(':id/questions/order')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Reorder tournament questions (Admin only)',
+    description:
+      'Sets the order of all questions of a tournament that has not started.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Questions reordered successfully',
+    type: SuccessResponse<TournamentResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Question IDs do not match the tournament',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament has already started',
+    type: ErrorResponse,
+  })
+  async reorderQuestions(
+    @Param('id') id: string,
+    @Body() reorderDto: ReorderTournamentQuestionsDto,
+  ): Promise<SuccessResponse<TournamentResponseDto>> {
+    const result = await this.tournamentsService.reorderQuestions(
+      id,
+      reorderDto,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Questions reordered successfully',
+      result,
+    );
+  }
+
+  @Put(':id/questions/:questionId')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Update tournament question (Admin only)',
+    description: 'Edits a question of a tournament that has not started.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Question updated successfully',
+    type: SuccessResponse<TournamentResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid options or correct answer',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament or question not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament has already started',
+    type: ErrorResponse,
+  })
+  async updateQuestion(
+    @Param('id') id: string,
+    @Param('questionId') questionId: string,
+    @Body() updateDto: UpdateTournamentQuestionDto,
+  ): Promise<SuccessResponse<TournamentResponseDto>> {
+    const result = await this.tournamentsService.updateQuestion(
+      id,
+      questionId,
+      updateDto,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Question updated successfully',
+      result,
+    );
+  }
+
+  @Delete(':id/questions/:questionId')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Remove tournament question (Admin only)',
+    description: 'Removes a question from a tournament that has not started.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Question removed successfully',
+    type: SuccessResponse<TournamentResponseDto>,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament or question not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament has already started',
+    type: ErrorResponse,
+  })
+  async removeQuestion(
+    @Param('id') id: string,
+    @Param('questionId') questionId: string,
+  ): Promise<SuccessResponse<TournamentResponseDto>> {
+    const result = await this.tournamentsService.removeQuestion(id, questionId);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Question removed successfully',
+      result,
+    );
+  }
+
+  @Get('joinable')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get joinable tournaments',
+    description:
+      'Retrieves published tournaments that have not started, are not full and that the authenticated user has not joined yet, soonest first.',
+  })
+  @ApiQuery({ name: 'type', required: false, enum: TournamentType })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Joinable tournaments retrieved successfully',
+    type: SuccessResponse<TournamentListResponseDto>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  async getJoinableTournaments(
+    @Req() req,
+    @Query() query: TournamentBrowseQueryDto,
+  ): Promise<SuccessResponse<TournamentListResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tournamentsService.getJoinableTournaments(
+      userId,
+      query,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Joinable tournaments retrieved successfully',
+      result,
+    );
+  }
+
+  @Get('entered')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get entered tournaments',
+    description:
+      "Retrieves the authenticated user's tournament entries with score, rank and the entry fee paid.",
+  })
+  @ApiQuery({ name: 'type', required: false, enum: TournamentType })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Entered tournaments retrieved successfully',
+    type: SuccessResponse<TournamentEntryListResponseDto>,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponse,
+  })
+  async getEnteredTournaments(
+    @Req() req,
+    @Query() query: TournamentBrowseQueryDto,
+  ): Promise<SuccessResponse<TournamentEntryListResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tournamentsService.getEnteredTournaments(
+      userId,
+      query,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Entered tournaments retrieved successfully',
+      result,
+    );
+  }
+
+  @Get(':id')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get tournament',
+    description:
+      'Retrieves a published tournament. Private tournaments are only visible to their creator and entrants. Questions are only served once the tournament is being played.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament retrieved successfully',
+    type: SuccessResponse<TournamentResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  async getTournament(
+    @Req() req,
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<TournamentResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tournamentsService.getPublishedTournament(
+      userId,
+      id,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Tournament retrieved successfully',
+      result,
+    );
+  }
+
+  @Post(':id/join')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Join tournament',
+    description:
+      'Enters the authenticated user into a published tournament before it starts. The entry fee, less any promo code discount, is moved from the available wallet balance into a hold until the tournament is settled or cancelled.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Joined tournament successfully',
+    type: SuccessResponse<TournamentEntryResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Insufficient balance for the entry fee or promo code not usable',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Already joined, tournament full or no longer open for entry',
+    type: ErrorResponse,
+  })
+  async joinTournament(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() joinDto: JoinTournamentDto,
+  ): Promise<SuccessResponse<TournamentEntryResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tournamentsService.joinTournament(
+      userId,
+      id,
+      undefined,
+      joinDto.promoCode,
+    );
+    return new SuccessResponse(
+      HttpStatus.CREATED,
+      'Joined tournament successfully',
+      result,
+    );
+  }
+
+  @Post(':id/play/next')
+  @UseGuards(AuthGuard('jwt'))
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get next tournament question',
+    description:
+      'Serves the next question to an entrant while the tournament is running, starting its timer. Until it is answered or its deadline passes the same question is returned. Correct answers are never included.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Question served successfully',
+    type: SuccessResponse<PlayStateResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Not entered in this tournament',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament not running',
+    type: ErrorResponse,
+  })
+  async serveNextQuestion(
+    @Req() req,
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<PlayStateResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tournamentPlayService.serveNext(userId, id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Question served successfully',
+      result,
+    );
+  }
+
+  @Post(':id/play/batch')
+  @UseGuards(AuthGuard('jwt'))
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get remaining tournament questions',
+    description:
+      'Serves all remaining questions at once with a shared deadline equal to the sum of their time limits. Correct answers are never included.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Questions served successfully',
+    type: SuccessResponse<PlayStateResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Not entered in this tournament',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament not running',
+    type: ErrorResponse,
+  })
+  async serveQuestionBatch(
+    @Req() req,
+    @Param('id') id: string,
+  ): Promise<SuccessResponse<PlayStateResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tournamentPlayService.serveBatch(userId, id);
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Questions served successfully',
+      result,
+    );
+  }
+
+  @Post(':id/play/answers')
+  @UseGuards(AuthGuard('jwt'))
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Submit tournament answers',
+    description:
+      'Records answers to served questions. Points are computed server-side from the question points and the time taken; answers after the question deadline score nothing and answers after the tournament end date are rejected.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Answers recorded successfully',
+    type: SuccessResponse<SubmitTournamentAnswersResponseDto>,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Question not served or duplicated',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Not entered in this tournament',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament not running',
+    type: ErrorResponse,
+  })
+  async submitTournamentAnswers(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() submitDto: SubmitTournamentAnswersDto,
+  ): Promise<SuccessResponse<SubmitTournamentAnswersResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tournamentPlayService.submitAnswers(
+      userId,
+      id,
+      submitDto,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Answers recorded successfully',
+      result,
+    );
+  }
+
+  @Get(':id/leaderboard')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get tournament leaderboard',
+    description:
+      "Retrieves the standings of a published tournament, ranked by score and then by time taken, with the caller's own position returned separately and flagged in the list.",
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Leaderboard retrieved successfully',
+    type: SuccessResponse<TournamentLeaderboardResponseDto>,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  async getLeaderboard(
+    @Req() req,
+    @Param('id') id: string,
+    @Query() query: TournamentLeaderboardQueryDto,
+  ): Promise<SuccessResponse<TournamentLeaderboardResponseDto>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    const result = await this.tournamentLeaderboardService.getLeaderboard(
+      userId,
+      id,
+      query,
+    );
+    return new SuccessResponse(
+      HttpStatus.OK,
+      'Leaderboard retrieved successfully',
+      result,
+    );
+  }
+
+  @Sse(':id/leaderboard/stream')
+  @UseGuards(AuthGuard('jwt'), TierGuard)
+  @RequiresTier(SubscriptionTier.PRO)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Stream live tournament leaderboard',
+    description:
+      'Server-Sent Events stream of the top 20 standings while the tournament is ACTIVE. Requires an active PRO subscription; other players poll the leaderboard endpoint. A "leaderboard" event is sent on connect, whenever answers are graded on the same server instance and at least every 30 seconds; the stream ends once the tournament is over. Send the token in the Authorization header.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Event stream of TournamentLeaderboardResponseDto snapshots',
+  })
+  @ApiResponse({
+    status: 402,
+    description: 'Subscription expired - renew to stream the leaderboard',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - PRO tier required',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tournament not found',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Tournament is not active',
+    type: ErrorResponse,
+  })
+  async streamLeaderboard(
+    @Req() req,
+    @Param('id') id: string,
+  ): Promise<Observable<MessageEvent>> {
+    const userId = req.user.userId || req.user.sub;
+
+    if (!userId) {
+      throw new BadRequestException('User ID not found in token');
+    }
+
+    return this.tournamentLeaderboardService.streamLeaderboard(userId, id);
+  }
+}
@@ -0,0 +1,818 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PayoutCurve, TournamentStatus, TournamentType } from '@prisma/client';
+
+export class CreateTournamentDto {
+  @ApiProperty({ example: 'Weekly Reading Challenge' })
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ enum: TournamentType })
+  @IsEnum(TournamentType)
+  type: TournamentType;
+
+  @ApiPropertyOptional({ example: 5, default: 0 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  entryFee?: number;
+
+  @ApiPropertyOptional({ example: 100, default: 0 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  prizePool?: number;
+
+  @ApiProperty({ example: '2025-12-08T09:00:00.000Z' })
+  @IsDate()
+  @Type(() => Date)
+  startDate: Date;
+
+  @ApiProperty({ example: '2025-12-14T21:00:00.000Z' })
+  @IsDate()
+  @Type(() => Date)
+  endDate: Date;
+
+  @ApiPropertyOptional({ example: 500 })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Type(() => Number)
+  maxParticipants?: number;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description:
+      'The tournament is cancelled and refunded at its start date if fewer players have joined',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Type(() => Number)
+  minParticipants?: number;
+
+  @ApiPropertyOptional({
+    enum: PayoutCurve,
+    default: PayoutCurve.TOP_PERCENTAGES,
+    description: 'How the prize pool is split between the top ranks',
+  })
+  @IsOptional()
+  @IsEnum(PayoutCurve)
+  payoutCurve?: PayoutCurve;
+
+  @ApiPropertyOptional({
+    type: [Number],
+    example: [50, 30, 20],
+    description:
+      'Percentage of the prize pool per rank for TOP_PERCENTAGES, adding up to 100',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(100, { each: true })
+  payoutPercentages?: number[];
+
+  @ApiPropertyOptional({
+    example: 10,
+    description:
+      'Number of ranks sharing the prize pool equally for TOP_N_FLAT',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  payoutWinners?: number;
+
+  @ApiPropertyOptional({ description: 'Additional metadata' })
+  @IsOptional()
+  @IsObject()
+  metadata?: any;
+}
+
+export class UpdateTournamentDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  title?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ enum: TournamentType })
+  @IsOptional()
+  @IsEnum(TournamentType)
+  type?: TournamentType;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  entryFee?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  prizePool?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  startDate?: Date;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  endDate?: Date;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Type(() => Number)
+  maxParticipants?: number;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description:
+      'The tournament is cancelled and refunded at its start date if fewer players have joined',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Type(() => Number)
+  minParticipants?: number;
+
+  @ApiPropertyOptional({
+    enum: PayoutCurve,
+    description: 'How the prize pool is split between the top ranks',
+  })
+  @IsOptional()
+  @IsEnum(PayoutCurve)
+  payoutCurve?: PayoutCurve;
+
+  @ApiPropertyOptional({
+    type: [Number],
+    example: [50, 30, 20],
+    description:
+      'Percentage of the prize pool per rank for TOP_PERCENTAGES, adding up to 100',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(100, { each: true })
+  payoutPercentages?: number[];
+
+  @ApiPropertyOptional({
+    example: 10,
+    description:
+      'Number of ranks sharing the prize pool equally for TOP_N_FLAT',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  payoutWinners?: number;
+
+  @ApiPropertyOptional({ description: 'Additional metadata' })
+  @IsOptional()
+  @IsObject()
+  metadata?: any;
+}
+
+export class CancelTournamentDto {
+  @ApiPropertyOptional({ example: 'Not enough participants' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class TournamentQuestionInputDto {
+  @ApiProperty({ example: 'Who wrote "Atomic Habits"?' })
+  @IsString()
+  @IsNotEmpty()
+  question: string;
+
+  @ApiProperty({
+    type: [String],
+    example: ['James Clear', 'Cal Newport', 'Mark Manson', 'Robin Sharma'],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @IsString({ each: true })
+  options: string[];
+
+  @ApiProperty({
+    example: 'James Clear',
+    description: 'Must match one of the options',
+  })
+  @IsString()
+  @IsNotEmpty()
+  correctAnswer: string;
+
+  @ApiPropertyOptional({ example: 1, default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  points?: number;
+
+  @ApiPropertyOptional({
+    example: 30,
+    default: 30,
+    description: 'Seconds allowed to answer',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(600)
+  @Type(() => Number)
+  timeLimit?: number;
+
+  @ApiPropertyOptional({ description: 'Additional metadata' })
+  @IsOptional()
+  @IsObject()
+  metadata?: any;
+}
+
+export class AddTournamentQuestionsDto {
+  @ApiProperty({
+    type: [TournamentQuestionInputDto],
+    description: 'Appended after existing questions in the given order',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => TournamentQuestionInputDto)
+  questions: TournamentQuestionInputDto[];
+}
+
+export class UpdateTournamentQuestionDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  question?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @IsString({ each: true })
+  options?: string[];
+
+  @ApiPropertyOptional({ description: 'Must match one of the options' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  correctAnswer?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  points?: number;
+
+  @ApiPropertyOptional({ description: 'Seconds allowed to answer' })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(600)
+  @Type(() => Number)
+  timeLimit?: number;
+
+  @ApiPropertyOptional({ description: 'Additional metadata' })
+  @IsOptional()
+  @IsObject()
+  metadata?: any;
+}
+
+export class ReorderTournamentQuestionsDto {
+  @ApiProperty({
+    type: [String],
+    description: 'Every question ID of the tournament, in the new order',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  questionIds: string[];
+}
+
+export class TournamentQueryDto {
+  @ApiPropertyOptional({ enum: TournamentStatus })
+  @IsOptional()
+  @IsEnum(TournamentStatus)
+  status?: TournamentStatus;
+
+  @ApiPropertyOptional({ enum: TournamentType })
+  @IsOptional()
+  @IsEnum(TournamentType)
+  type?: TournamentType;
+
+  @ApiPropertyOptional({
+    description: 'Filter by published (true) or draft (false)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  published?: boolean;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number = 20;
+}
+
+export class TournamentQuestionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  question: string;
+
+  @ApiProperty({ type: [String] })
+  options: string[];
+
+  @ApiPropertyOptional({ description: 'Only included for admins' })
+  correctAnswer?: string;
+
+  @ApiProperty({ example: 1 })
+  points: number;
+
+  @ApiProperty({ example: 0 })
+  order: number;
+
+  @ApiProperty({ example: 30, description: 'Seconds allowed to answer' })
+  timeLimit: number;
+
+  @ApiPropertyOptional()
+  metadata?: any;
+
+  constructor(partial: Partial<TournamentQuestionResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class TournamentResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiProperty({ enum: TournamentType })
+  type: TournamentType;
+
+  @ApiProperty({ example: '5.00' })
+  entryFee: string;
+
+  @ApiProperty({ example: '100.00' })
+  prizePool: string;
+
+  @ApiProperty()
+  startDate: Date;
+
+  @ApiProperty()
+  endDate: Date;
+
+  @ApiProperty({ enum: TournamentStatus })
+  status: TournamentStatus;
+
+  @ApiPropertyOptional()
+  maxParticipants?: number;
+
+  @ApiPropertyOptional()
+  minParticipants?: number;
+
+  @ApiProperty({ enum: PayoutCurve })
+  payoutCurve: PayoutCurve;
+
+  @ApiProperty({ type: [Number], example: [50, 30, 20] })
+  payoutPercentages: number[];
+
+  @ApiPropertyOptional()
+  payoutWinners?: number;
+
+  @ApiPropertyOptional({
+    description: 'Not set while the tournament is a draft',
+  })
+  publishedAt?: Date;
+
+  @ApiPropertyOptional()
+  cancelledAt?: Date;
+
+  @ApiProperty({ example: 42 })
+  participantCount: number;
+
+  @ApiProperty({ example: 10 })
+  questionCount: number;
+
+  @ApiProperty({ description: 'Whether maxParticipants has been reached' })
+  isFull: boolean;
+
+  @ApiProperty({ description: 'Private tournaments are joined by invite code' })
+  isPrivate: boolean;
+
+  @ApiPropertyOptional({ description: 'Only shown to admins' })
+  inviteCode?: string;
+
+  @ApiPropertyOptional({ description: 'Content the questions were drawn from' })
+  contentId?: string;
+
+  @ApiPropertyOptional({ type: [TournamentQuestionResponseDto] })
+  questions?: TournamentQuestionResponseDto[];
+
+  @ApiPropertyOptional()
+  metadata?: any;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<TournamentResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class TournamentListResponseDto {
+  @ApiProperty({ type: [TournamentResponseDto] })
+  tournaments: TournamentResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class TournamentBrowseQueryDto {
+  @ApiPropertyOptional({ enum: TournamentType })
+  @IsOptional()
+  @IsEnum(TournamentType)
+  type?: TournamentType;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number = 20;
+}
+
+export class JoinTournamentDto {
+  @ApiPropertyOptional({
+    example: 'SPRING25',
+    description: 'Discount on the entry fee',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  promoCode?: string;
+}
+
+export class TournamentEntryResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  tournamentId: string;
+
+  @ApiProperty({ example: 0 })
+  score: number;
+
+  @ApiPropertyOptional({ description: 'Time taken in seconds' })
+  timeTaken?: number;
+
+  @ApiPropertyOptional()
+  rank?: number;
+
+  @ApiProperty({ example: '5.00', description: 'Entry fee paid' })
+  entryFee: string;
+
+  @ApiPropertyOptional({
+    example: '1.25',
+    description: 'Promo code discount on the entry fee',
+  })
+  entryFeeDiscount?: string;
+
+  @ApiPropertyOptional({ type: TournamentResponseDto })
+  tournament?: TournamentResponseDto;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  constructor(partial: Partial<TournamentEntryResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class TournamentEntryListResponseDto {
+  @ApiProperty({ type: [TournamentEntryResponseDto] })
+  entries: TournamentEntryResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class TournamentLeaderboardQueryDto {
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', default: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  limit?: number = 20;
+}
+
+export class LeaderboardEntryDto {
+  @ApiProperty({ example: 1 })
+  rank: number;
+
+  @ApiProperty()
+  entryId: string;
+
+  @ApiProperty({ example: 'Ada L.' })
+  displayName: string;
+
+  @ApiProperty({ example: 850 })
+  score: number;
+
+  @ApiPropertyOptional({ description: 'Time taken in seconds' })
+  timeTaken?: number;
+
+  @ApiProperty({ description: 'Whether every question has been answered' })
+  finished: boolean;
+
+  @ApiProperty({ description: 'Whether this is the caller' })
+  isCurrentUser: boolean;
+}
+
+export class TournamentLeaderboardResponseDto {
+  @ApiProperty()
+  tournamentId: string;
+
+  @ApiProperty({ enum: TournamentStatus })
+  status: TournamentStatus;
+
+  @ApiProperty({ type: [LeaderboardEntryDto] })
+  entries: LeaderboardEntryDto[];
+
+  @ApiPropertyOptional({
+    type: LeaderboardEntryDto,
+    description: "The caller's own position, if they joined",
+  })
+  currentUser?: LeaderboardEntryDto;
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  totalPages: number;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class TournamentPayoutLineDto {
+  @ApiProperty({ example: 1 })
+  rank: number;
+
+  @ApiProperty()
+  entryId: string;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty({ example: 50 })
+  score: number;
+
+  @ApiProperty({ example: '50.00' })
+  amount: string;
+
+  @ApiProperty({ description: 'TOURNAMENT_WIN wallet transaction' })
+  transactionId: string;
+}
+
+export class TournamentPayoutResponseDto {
+  @ApiProperty()
+  tournamentId: string;
+
+  @ApiProperty({ enum: PayoutCurve })
+  payoutCurve: PayoutCurve;
+
+  @ApiProperty({ example: '100.00' })
+  prizePool: string;
+
+  @ApiProperty({ example: '100.00' })
+  distributed: string;
+
+  @ApiProperty({
+    example: '0.00',
+    description: 'Left over when nobody played',
+  })
+  undistributed: string;
+
+  @ApiProperty({ example: 42, description: 'Entries ranked' })
+  participants: number;
+
+  @ApiProperty({
+    example: '210.00',
+    description: 'Entry fee holds captured from participants',
+  })
+  entryFeesCaptured: string;
+
+  @ApiProperty({ type: [TournamentPayoutLineDto] })
+  winners: TournamentPayoutLineDto[];
+
+  @ApiProperty()
+  settledAt: Date;
+}
+
+export class PlayQuestionDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  question: string;
+
+  @ApiProperty({ type: [String] })
+  options: string[];
+
+  @ApiProperty({ example: 1 })
+  points: number;
+
+  @ApiProperty({ example: 0 })
+  order: number;
+
+  @ApiProperty()
+  servedAt: Date;
+
+  @ApiProperty({
+    description: 'Answers received after this time score nothing',
+  })
+  deadline: Date;
+}
+
+export class PlayStateResponseDto {
+  @ApiProperty()
+  tournamentId: string;
+
+  @ApiProperty()
+  entryId: string;
+
+  @ApiProperty({
+    type: [PlayQuestionDto],
+    description: 'Questions awaiting an answer',
+  })
+  questions: PlayQuestionDto[];
+
+  @ApiProperty({ example: 3 })
+  answeredCount: number;
+
+  @ApiProperty({ example: 10 })
+  totalQuestions: number;
+
+  @ApiProperty({ example: 420 })
+  score: number;
+
+  @ApiProperty({
+    description: 'Whether every question has been answered or timed out',
+  })
+  finished: boolean;
+}
+
+export class TournamentAnswerInputDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  questionId: string;
+
+  @ApiProperty({ example: 'James Clear' })
+  @IsString()
+  @IsNotEmpty()
+  answer: string;
+}
+
+export class SubmitTournamentAnswersDto {
+  @ApiProperty({ type: [TournamentAnswerInputDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => TournamentAnswerInputDto)
+  answers: TournamentAnswerInputDto[];
+}
+
+export class TournamentAnswerResultDto {
+  @ApiProperty()
+  questionId: string;
+
+  @ApiProperty()
+  isCorrect: boolean;
+
+  @ApiProperty({ description: 'Answered after the deadline' })
+  timedOut: boolean;
+
+  @ApiProperty({
+    example: 85,
+    description: 'Points earned including the speed bonus',
+  })
+  points: number;
+
+  @ApiProperty({ example: 4200 })
+  timeTakenMs: number;
+}
+
+export class SubmitTournamentAnswersResponseDto {
+  @ApiProperty({ type: [TournamentAnswerResultDto] })
+  results: TournamentAnswerResultDto[];
+
+  @ApiProperty({ example: 3 })
+  answeredCount: number;
+
+  @ApiProperty({ example: 10 })
+  totalQuestions: number;
+
+  @ApiProperty({ example: 420 })
+  score: number;
+
+  @ApiProperty()
+  finished: boolean;
+}
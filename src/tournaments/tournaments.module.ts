@@ -0,0 +1,42 @@
+import { Module } from '@nestjs/common';
+import { TournamentsService } from './tournaments.service';
+import { TournamentPlayService } from './tournament-play.service';
+import { TournamentPayoutService } from './tournament-payout.service';
+import { TournamentLeaderboardService } from './tournament-leaderboard.service';
+import { TournamentTemplatesService } from './tournament-templates.service';
+import { PrivateTournamentsService } from './private-tournaments.service';
+import { TournamentsController } from './tournaments.controller';
+import { TournamentTemplatesController } from './tournament-templates.controller';
+import { PrivateTournamentsController } from './private-tournaments.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CronModule } from '../cron/cron.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { EmailModule } from '../email/email.module';
+import { QuestionBankModule } from '../question-bank/question-bank.module';
+import { PromoCodesModule } from '../promo-codes/promo-codes.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    CronModule,
+    WalletModule,
+    EmailModule,
+    QuestionBankModule,
+    PromoCodesModule,
+  ],
+  controllers: [
+    TournamentsController,
+    PrivateTournamentsController,
+    TournamentTemplatesController,
+  ],
+  providers: [
+    TournamentsService,
+    TournamentPlayService,
+    TournamentPayoutService,
+    TournamentLeaderboardService,
+    TournamentTemplatesService,
+    PrivateTournamentsService,
+  ],
+  exports: [TournamentsService],
+})
+export class TournamentsModule {}
@@ -0,0 +1,1092 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { CronService } from '../cron/cron.service';
+import { WalletService } from '../wallet/wallet.service';
+import { EmailService } from '../email/email.service';
+import { PromoCodesService } from '../promo-codes/promo-codes.service';
+import { TournamentPayoutService } from './tournament-payout.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  PayoutCurve,
+  Prisma,
+  PromoCodeTarget,
+  TournamentStatus,
+} from '@prisma/client';
+import {
+  CreateTournamentDto,
+  UpdateTournamentDto,
+  CancelTournamentDto,
+  AddTournamentQuestionsDto,
+  UpdateTournamentQuestionDto,
+  ReorderTournamentQuestionsDto,
+  TournamentQueryDto,
+  TournamentResponseDto,
+  TournamentListResponseDto,
+  TournamentQuestionResponseDto,
+  TournamentBrowseQueryDto,
+  TournamentEntryResponseDto,
+  TournamentEntryListResponseDto,
+} from './tournaments.dtos';
+
+export const tournamentInclude = {
+  questions: { orderBy: { order: 'asc' } },
+  _count: { select: { entries: true, questions: true } },
+} satisfies Prisma.TournamentInclude;
+
+export type TournamentWithDetails = Prisma.TournamentGetPayload<{
+  include: typeof tournamentInclude;
+}>;
+
+export type TournamentWithCounts = Prisma.TournamentGetPayload<{
+  include: { _count: { select: { entries: true; questions: true } } };
+}>;
+
+@Injectable()
+export class TournamentsService implements OnModuleInit {
+  private readonly logger = new Logger(TournamentsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private cronService: CronService,
+    private walletService: WalletService,
+    private payoutService: TournamentPayoutService,
+    private emailService: EmailService,
+    private promoCodesService: PromoCodesService,
+  ) {}
+
+  onModuleInit() {
+    this.cronService.register('tournament-status', 60 * 1000, () =>
+      this.updateTournamentStatuses(),
+    );
+  }
+
+  /**
+   * Map Prisma tournament to TournamentResponseDto
+   */
+  mapTournamentToDto(
+    tournament: TournamentWithCounts | TournamentWithDetails,
+    includeAnswers = false,
+  ): TournamentResponseDto {
+    const { _count, inviteCode, ...rest } = tournament;
+    const questions =
+      'questions' in tournament ? tournament.questions : undefined;
+
+    return new TournamentResponseDto({
+      ...rest,
+      inviteCode: includeAnswers ? (inviteCode ?? undefined) : undefined,
+      contentId: tournament.contentId ?? undefined,
+      description: tournament.description ?? undefined,
+      maxParticipants: tournament.maxParticipants ?? undefined,
+      minParticipants: tournament.minParticipants ?? undefined,
+      payoutWinners: tournament.payoutWinners ?? undefined,
+      publishedAt: tournament.publishedAt ?? undefined,
+      cancelledAt: tournament.cancelledAt ?? undefined,
+      entryFee: tournament.entryFee.toFixed(2),
+      prizePool: tournament.prizePool.toFixed(2),
+      participantCount: _count.entries,
+      questionCount: _count.questions,
+      isFull:
+        tournament.maxParticipants !== null &&
+        _count.entries >= tournament.maxParticipants,
+      questions: questions?.map(
+        (question) =>
+          new TournamentQuestionResponseDto({
+            id: question.id,
+            question: question.question,
+            options: question.options,
+            correctAnswer: includeAnswers ? question.correctAnswer : undefined,
+            points: question.points,
+            order: question.order,
+            timeLimit: question.timeLimit,
+            metadata: includeAnswers ? question.metadata : undefined,
+          }),
+      ),
+    });
+  }
+
+  /**
+   * Create a tournament as an unpublished draft
+   */
+  async createTournament(
+    createDto: CreateTournamentDto,
+    createdById?: string,
+  ): Promise<TournamentResponseDto> {
+    this.validateSchedule(createDto.startDate, createDto.endDate);
+    this.validateParticipants(
+      createDto.minParticipants ?? null,
+      createDto.maxParticipants ?? null,
+    );
+    this.validatePayout(
+      createDto.payoutCurve ?? PayoutCurve.TOP_PERCENTAGES,
+      createDto.payoutPercentages ?? [],
+      createDto.payoutWinners ?? null,
+    );
+
+    if (createDto.startDate <= new Date()) {
+      throw new BadRequestException('Start date must be in the future');
+    }
+
+    const tournament = await this.prisma.tournament.create({
+      data: {
+        ...createDto,
+        entryFee: new Decimal(createDto.entryFee ?? 0),
+        prizePool: new Decimal(createDto.prizePool ?? 0),
+        status: TournamentStatus.UPCOMING,
+        createdById,
+      },
+      include: tournamentInclude,
+    });
+
+    this.logger.log(`Tournament created: ${tournament.id}`);
+    return this.mapTournamentToDto(tournament, true);
+  }
+
+  /**
+   * Get all tournaments including drafts (admin)
+   */
+  async getTournaments(
+    query: TournamentQueryDto,
+  ): Promise<TournamentListResponseDto> {
+    const { status, type, published, page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.TournamentWhereInput = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (published !== undefined) {
+      where.publishedAt = published ? { not: null } : null;
+    }
+
+    const [tournaments, total] = await Promise.all([
+      this.prisma.tournament.findMany({
+        where,
+        include: { _count: { select: { entries: true, questions: true } } },
+        orderBy: { startDate: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.tournament.count({ where }),
+    ]);
+
+    return {
+      tournaments: tournaments.map((t) => this.mapTournamentToDto(t, true)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Get a tournament with its questions and answers (admin)
+   */
+  async getTournamentById(id: string): Promise<TournamentResponseDto> {
+    const tournament = await this.getTournamentOrThrow(id);
+    return this.mapTournamentToDto(tournament, true);
+  }
+
+  /**
+   * Update a tournament. Once it has started only presentation fields,
+   * the prize pool and the end date can change.
+   */
+  async updateTournament(
+    id: string,
+    updateDto: UpdateTournamentDto,
+  ): Promise<TournamentResponseDto> {
+    const tournament = await this.getTournamentOrThrow(id);
+    this.assertNotFinished(tournament);
+
+    const now = new Date();
+
+    if (tournament.status === TournamentStatus.ACTIVE) {
+      const locked = (
+        [
+          'type',
+          'entryFee',
+          'startDate',
+          'maxParticipants',
+          'minParticipants',
+          'payoutCurve',
+          'payoutPercentages',
+          'payoutWinners',
+        ] as const
+      ).filter((field) => updateDto[field] !== undefined);
+
+      if (locked.length > 0) {
+        throw new ConflictException(
+          `Cannot change ${locked.join(', ')} after the tournament has started`,
+        );
+      }
+    }
+
+    if (
+      updateDto.entryFee !== undefined &&
+      tournament._count.entries > 0 &&
+      !tournament.entryFee.equals(updateDto.entryFee)
+    ) {
+      throw new ConflictException(
+        'Cannot change the entry fee once players have joined',
+      );
+    }
+
+    if (
+      updateDto.maxParticipants !== undefined &&
+      updateDto.maxParticipants < tournament._count.entries
+    ) {
+      throw new BadRequestException(
+        `Max participants cannot be lower than the ${tournament._count.entries} players already joined`,
+      );
+    }
+
+    if (updateDto.startDate && updateDto.startDate <= now) {
+      throw new BadRequestException('Start date must be in the future');
+    }
+
+    if (updateDto.endDate && updateDto.endDate <= now) {
+      throw new BadRequestException('End date must be in the future');
+    }
+
+    this.validateSchedule(
+      updateDto.startDate ?? tournament.startDate,
+      updateDto.endDate ?? tournament.endDate,
+    );
+    this.validateParticipants(
+      updateDto.minParticipants ?? tournament.minParticipants,
+      updateDto.maxParticipants ?? tournament.maxParticipants,
+    );
+    this.validatePayout(
+      updateDto.payoutCurve ?? tournament.payoutCurve,
+      updateDto.payoutPercentages ?? tournament.payoutPercentages,
+      updateDto.payoutWinners ?? tournament.payoutWinners,
+    );
+
+    const updated = await this.prisma.tournament.update({
+      where: { id },
+      data: {
+        ...updateDto,
+        entryFee:
+          updateDto.entryFee !== undefined
+            ? new Decimal(updateDto.entryFee)
+            : undefined,
+        prizePool:
+          updateDto.prizePool !== undefined
+            ? new Decimal(updateDto.prizePool)
+            : undefined,
+      },
+      include: tournamentInclude,
+    });
+
+    this.logger.log(`Tournament updated: ${id}`);
+    return this.mapTournamentToDto(updated, true);
+  }
+
+  /**
+   * Publish a draft so players can see and join it
+   */
+  async publishTournament(id: string): Promise<TournamentResponseDto> {
+    const tournament = await this.getTournamentOrThrow(id);
+    this.assertNotFinished(tournament);
+
+    if (tournament.publishedAt) {
+      throw new ConflictException('Tournament is already published');
+    }
+
+    if (tournament.startDate <= new Date()) {
+      throw new BadRequestException(
+        'Start date has passed; move it to the future before publishing',
+      );
+    }
+
+    if (tournament._count.questions === 0) {
+      throw new BadRequestException(
+        'Add at least one question before publishing',
+      );
+    }
+
+    const updated = await this.prisma.tournament.update({
+      where: { id },
+      data: { publishedAt: new Date() },
+      include: tournamentInclude,
+    });
+
+    this.logger.log(`Tournament published: ${id}`);
+    return this.mapTournamentToDto(updated, true);
+  }
+
+  /**
+   * Cancel a tournament that has not completed yet, refunding every entry fee
+   */
+  async cancelTournament(
+    id: string,
+    cancelDto: CancelTournamentDto,
+  ): Promise<TournamentResponseDto> {
+    const tournament = await this.getTournamentOrThrow(id);
+    this.assertNotFinished(tournament);
+
+    await this.cancelWithRefunds(id, cancelDto.reason ?? null);
+
+    const updated = await this.getTournamentOrThrow(id);
+    return this.mapTournamentToDto(updated, true);
+  }
+
+  /**
+   * Append questions to a tournament that has not started
+   */
+  async addQuestions(
+    id: string,
+    addDto: AddTournamentQuestionsDto,
+  ): Promise<TournamentResponseDto> {
+    const tournament = await this.getTournamentOrThrow(id);
+    this.assertQuestionsEditable(tournament);
+
+    addDto.questions.forEach((question, index) => {
+      try {
+        this.validateQuestion(question.options, question.correctAnswer);
+      } catch (error) {
+        throw new BadRequestException(
+          `Question ${index + 1}: ${error.message}`,
+        );
+      }
+    });
+
+    const nextOrder = tournament.questions.length;
+
+    await this.prisma.tournamentQuestion.createMany({
+      data: addDto.questions.map((question, index) => ({
+        tournamentId: id,
+        question: question.question,
+        options: question.options.map((option) => option.trim()),
+        correctAnswer: question.correctAnswer.trim(),
+        points: question.points ?? 1,
+        order: nextOrder + index,
+        timeLimit: question.timeLimit,
+        metadata: question.metadata,
+      })),
+    });
+
+    this.logger.log(
+      `Added ${addDto.questions.length} questions to tournament ${id}`,
+    );
+    return this.getTournamentById(id);
+  }
+
+  /**
+   * Edit a question of a tournament that has not started
+   */
+  async updateQuestion(
+    id: string,
+    questionId: string,
+    updateDto: UpdateTournamentQuestionDto,
+  ): Promise<TournamentResponseDto> {
+    const tournament = await this.getTournamentOrThrow(id);
+    this.assertQuestionsEditable(tournament);
+
+    const question = tournament.questions.find((q) => q.id === questionId);
+    if (!question) {
+      throw new NotFoundException('Question not found');
+    }
+
+    const options = updateDto.options ?? question.options;
+    const correctAnswer = updateDto.correctAnswer ?? question.correctAnswer;
+    this.validateQuestion(options, correctAnswer);
+
+    await this.prisma.tournamentQuestion.update({
+      where: { id: questionId },
+      data: {
+        ...updateDto,
+        options: options.map((option) => option.trim()),
+        correctAnswer: correctAnswer.trim(),
+      },
+    });
+
+    return this.getTournamentById(id);
+  }
+
+  /**
+   * Remove a question and close the gap in the ordering
+   */
+  async removeQuestion(
+    id: string,
+    questionId: string,
+  ): Promise<TournamentResponseDto> {
+    const tournament = await this.getTournamentOrThrow(id);
+    this.assertQuestionsEditable(tournament);
+
+    if (!tournament.questions.some((q) => q.id === questionId)) {
+      throw new NotFoundException('Question not found');
+    }
+
+    const remaining = tournament.questions.filter((q) => q.id !== questionId);
+
+    await this.prisma.$transaction([
+      this.prisma.tournamentQuestion.delete({ where: { id: questionId } }),
+      ...remaining.map((question, order) =>
+        this.prisma.tournamentQuestion.update({
+          where: { id: question.id },
+          data: { order },
+        }),
+      ),
+    ]);
+
+    return this.getTournamentById(id);
+  }
+
+  /**
+   * Reorder all questions of a tournament that has not started
+   */
+  async reorderQuestions(
+    id: string,
+    reorderDto: ReorderTournamentQuestionsDto,
+  ): Promise<TournamentResponseDto> {
+    const tournament = await this.getTournamentOrThrow(id);
+    this.assertQuestionsEditable(tournament);
+
+    const existing = new Set(tournament.questions.map((q) => q.id));
+    const requested = new Set(reorderDto.questionIds);
+
+    if (
+      requested.size !== reorderDto.questionIds.length ||
+      requested.size !== existing.size ||
+      reorderDto.questionIds.some((questionId) => !existing.has(questionId))
+    ) {
+      throw new BadRequestException(
+        'questionIds must list every question of the tournament exactly once',
+      );
+    }
+
+    await this.prisma.$transaction(
+      reorderDto.questionIds.map((questionId, order) =>
+        this.prisma.tournamentQuestion.update({
+          where: { id: questionId },
+          data: { order },
+        }),
+      ),
+    );
+
+    return this.getTournamentById(id);
+  }
+
+  /**
+   * Get published tournaments the user can still join
+   */
+  async getJoinableTournaments(
+    userId: string,
+    query: TournamentBrowseQueryDto,
+  ): Promise<TournamentListResponseDto> {
+    const { type, page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+    const now = new Date();
+
+    // Capacity compares two columns, so open tournaments are resolved in SQL
+    const filter = Prisma.sql`
+      t."publishedAt" IS NOT NULL
+      AND t."isPrivate" = false
+      AND t."status" = 'UPCOMING'::"TournamentStatus"
+      AND t."startDate" > ${now}
+      ${type ? Prisma.sql`AND t."type" = ${type}::"TournamentType"` : Prisma.empty}
+      AND NOT EXISTS (
+        SELECT 1 FROM "tournament_entries" e
+        WHERE e."tournamentId" = t."id" AND e."userId" = ${userId}
+      )
+      AND (
+        t."maxParticipants" IS NULL
+        OR (SELECT COUNT(*) FROM "tournament_entries" e WHERE e."tournamentId" = t."id") < t."maxParticipants"
+      )
+    `;
+
+    const [rows, [{ count }]] = await Promise.all([
+      this.prisma.$queryRaw<{ id: string }[]>`
+        SELECT t."id" FROM "tournaments" t
+        WHERE ${filter}
+        ORDER BY t."startDate" ASC
+        LIMIT ${limit} OFFSET ${skip}
+      `,
+      this.prisma.$queryRaw<{ count: bigint }[]>`
+        SELECT COUNT(*) AS "count" FROM "tournaments" t WHERE ${filter}
+      `,
+    ]);
+
+    const tournaments = await this.prisma.tournament.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      include: { _count: { select: { entries: true, questions: true } } },
+      orderBy: { startDate: 'asc' },
+    });
+    const total = Number(count);
+
+    return {
+      tournaments: tournaments.map((t) => this.mapTournamentToDto(t)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Get the tournaments a user has entered, most recent first
+   */
+  async getEnteredTournaments(
+    userId: string,
+    query: TournamentBrowseQueryDto,
+  ): Promise<TournamentEntryListResponseDto> {
+    const { type, page = 1, limit = 20 } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.TournamentEntryWhereInput = { userId };
+
+    if (type) {
+      where.tournament = { type };
+    }
+
+    const [entries, total] = await Promise.all([
+      this.prisma.tournamentEntry.findMany({
+        where,
+        include: {
+          tournament: {
+            include: {
+              _count: { select: { entries: true, questions: true } },
+            },
+          },
+        },
+        orderBy: { tournament: { startDate: 'desc' } },
+        skip,
+        take: limit,
+      }),
+      this.prisma.tournamentEntry.count({ where }),
+    ]);
+
+    return {
+      entries: entries.map(
+        (entry) =>
+          new TournamentEntryResponseDto({
+            id: entry.id,
+            tournamentId: entry.tournamentId,
+            score: entry.score,
+            timeTaken: entry.timeTaken ?? undefined,
+            rank: entry.rank ?? undefined,
+            entryFee: this.getEntryFeePaid(entry.metadata),
+            tournament: this.mapTournamentToDto(entry.tournament),
+            createdAt: entry.createdAt,
+          }),
+      ),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Get a published tournament for players (questions are not included).
+   * Private tournaments are only visible to their creator and entrants.
+   */
+  async getPublishedTournament(
+    userId: string,
+    id: string,
+  ): Promise<TournamentResponseDto> {
+    const tournament = await this.prisma.tournament.findFirst({
+      where: { id, publishedAt: { not: null } },
+      include: { _count: { select: { entries: true, questions: true } } },
+    });
+
+    if (!tournament || !(await this.canViewPrivate(userId, tournament))) {
+      throw new NotFoundException('Tournament not found');
+    }
+
+    return this.mapTournamentToDto(tournament);
+  }
+
+  /**
+   * Join a tournament, holding the entry fee in the wallet until settlement.
+   * The tournament row is locked so capacity checks hold under concurrent joins.
+   * Private tournaments need their invite code and add the fee paid to the
+   * prize pool. A promo code discounts the fee and is used up with the entry.
+   */
+  async joinTournament(
+    userId: string,
+    id: string,
+    inviteCode?: string,
+    promoCode?: string,
+  ): Promise<TournamentEntryResponseDto> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const locked = await tx.$queryRaw<{ id: string }[]>`
+          SELECT "id" FROM "tournaments" WHERE "id" = ${id} FOR UPDATE
+        `;
+
+        if (locked.length === 0) {
+          throw new NotFoundException('Tournament not found');
+        }
+
+        const tournament = await tx.tournament.findUniqueOrThrow({
+          where: { id },
+          include: { _count: { select: { entries: true, questions: true } } },
+        });
+
+        if (
+          !tournament.publishedAt ||
+          (tournament.isPrivate && tournament.inviteCode !== inviteCode)
+        ) {
+          throw new NotFoundException('Tournament not found');
+        }
+
+        if (
+          tournament.status !== TournamentStatus.UPCOMING ||
+          tournament.startDate <= new Date()
+        ) {
+          throw new ConflictException('Tournament is no longer open for entry');
+        }
+
+        const existing = await tx.tournamentEntry.findUnique({
+          where: { tournamentId_userId: { tournamentId: id, userId } },
+        });
+
+        if (existing) {
+          throw new ConflictException(
+            'You have already joined this tournament',
+          );
+        }
+
+        if (
+          tournament.maxParticipants !== null &&
+          tournament._count.entries >= tournament.maxParticipants
+        ) {
+          throw new ConflictException('Tournament is full');
+        }
+
+        const discount = promoCode
+          ? await this.promoCodesService.redeem(tx, userId, promoCode, {
+              target: PromoCodeTarget.TOURNAMENT_ENTRY,
+              amount: tournament.entryFee,
+              reference: id,
+            })
+          : null;
+        const entryFee = discount?.amountPaid ?? tournament.entryFee;
+
+        const hold = entryFee.greaterThan(0)
+          ? await this.walletService.lockFunds(
+              userId,
+              entryFee,
+              `Entry fee: ${tournament.title}`,
+              {
+                tournamentId: id,
+                purpose: 'TOURNAMENT_ENTRY',
+                promoCode: discount?.code,
+              },
+              tx,
+            )
+          : null;
+
+        const joined =
+          tournament.isPrivate && entryFee.greaterThan(0)
+            ? await tx.tournament.update({
+                where: { id },
+                data: { prizePool: { increment: entryFee } },
+                include: {
+                  _count: { select: { entries: true, questions: true } },
+                },
+              })
+            : tournament;
+
+        const entry = await tx.tournamentEntry.create({
+          data: {
+            tournamentId: id,
+            userId,
+            metadata: {
+              entryFee: entryFee.toFixed(2),
+              holdTransactionId: hold?.id ?? null,
+              promoCodeId: discount?.promoCodeId ?? null,
+            },
+          },
+        });
+
+        this.logger.log(`User ${userId} joined tournament ${id}`);
+
+        return new TournamentEntryResponseDto({
+          id: entry.id,
+          tournamentId: entry.tournamentId,
+          score: entry.score,
+          entryFee: entryFee.toFixed(2),
+          entryFeeDiscount: discount?.discountAmount.toFixed(2),
+          tournament: this.mapTournamentToDto({
+            ...joined,
+            _count: {
+              ...joined._count,
+              entries: joined._count.entries + 1,
+            },
+          }),
+          createdAt: entry.createdAt,
+        });
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('You have already joined this tournament');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Move published tournaments from UPCOMING to ACTIVE to COMPLETED by date,
+   * then pay out the ones that have completed. Tournaments that reach their
+   * start date short of minParticipants are cancelled instead of started.
+   */
+  async updateTournamentStatuses(): Promise<{
+    cancelled: number;
+    activated: number;
+    completed: number;
+    settled: number;
+  }> {
+    const now = new Date();
+
+    const cancelled = await this.cancelUnderfilledTournaments(now);
+
+    const activated = await this.prisma.tournament.updateMany({
+      where: {
+        status: TournamentStatus.UPCOMING,
+        publishedAt: { not: null },
+        startDate: { lte: now },
+      },
+      data: { status: TournamentStatus.ACTIVE },
+    });
+
+    const completed = await this.prisma.tournament.updateMany({
+      where: {
+        status: TournamentStatus.ACTIVE,
+        endDate: { lte: now },
+      },
+      data: { status: TournamentStatus.COMPLETED },
+    });
+
+    if (cancelled > 0 || activated.count > 0 || completed.count > 0) {
+      this.logger.log(
+        `Tournament statuses updated: ${cancelled} cancelled, ${activated.count} started, ${completed.count} completed`,
+      );
+    }
+
+    const settled = await this.payoutService.settleCompletedTournaments();
+
+    return {
+      cancelled,
+      activated: activated.count,
+      completed: completed.count,
+      settled,
+    };
+  }
+
+  /**
+   * Cancel published tournaments that start without enough participants
+   */
+  private async cancelUnderfilledTournaments(now: Date): Promise<number> {
+    const underfilled = await this.prisma.$queryRaw<
+      { id: string; minParticipants: number }[]
+    >`
+      SELECT t."id", t."minParticipants"
+      FROM "tournaments" t
+      WHERE t."status" = 'UPCOMING'
+        AND t."publishedAt" IS NOT NULL
+        AND t."startDate" <= ${now}
+        AND t."minParticipants" IS NOT NULL
+        AND (
+          SELECT COUNT(*) FROM "tournament_entries" e
+          WHERE e."tournamentId" = t."id"
+        ) < t."minParticipants"
+    `;
+
+    let cancelled = 0;
+    for (const { id, minParticipants } of underfilled) {
+      try {
+        await this.cancelWithRefunds(
+          id,
+          `Fewer than ${minParticipants} participants joined`,
+        );
+        cancelled++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to auto-cancel tournament ${id}`,
+          error.stack,
+        );
+      }
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Mark a tournament CANCELLED and release each entrant's entry fee hold back
+   * to their available balance, then email the entrants. The tournament row
+   * is locked so no one can join while refunds are issued.
+   */
+  private async cancelWithRefunds(
+    id: string,
+    reason: string | null,
+  ): Promise<void> {
+    const { title, refunds } = await this.prisma.$transaction(
+      async (tx) => {
+        const locked = await tx.$queryRaw<{ id: string }[]>`
+          SELECT "id" FROM "tournaments" WHERE "id" = ${id} FOR UPDATE
+        `;
+
+        if (locked.length === 0) {
+          throw new NotFoundException('Tournament not found');
+        }
+
+        const tournament = await tx.tournament.findUniqueOrThrow({
+          where: { id },
+        });
+
+        if (
+          tournament.status === TournamentStatus.COMPLETED ||
+          tournament.status === TournamentStatus.CANCELLED
+        ) {
+          throw new ConflictException(
+            `Tournament is ${tournament.status.toLowerCase()} and can no longer be changed`,
+          );
+        }
+
+        const entries = await tx.tournamentEntry.findMany({
+          where: { tournamentId: id },
+          include: { user: { select: { email: true, firstName: true } } },
+        });
+
+        const refunds: {
+          email: string;
+          firstName: string;
+          amount: string | null;
+        }[] = [];
+
+        for (const entry of entries) {
+          const metadata = (entry.metadata as Prisma.JsonObject) ?? {};
+          const holdTransactionId = metadata.holdTransactionId as string;
+
+          const refund = holdTransactionId
+            ? await this.walletService.releaseLockedFunds(
+                holdTransactionId,
+                `Refund: ${tournament.title} was cancelled`,
+                {
+                  tournamentId: id,
+                  entryId: entry.id,
+                  purpose: 'TOURNAMENT_REFUND',
+                },
+                tx,
+              )
+            : null;
+
+          if (refund) {
+            await tx.tournamentEntry.update({
+              where: { id: entry.id },
+              data: {
+                metadata: {
+                  ...metadata,
+                  refundTransactionId: refund.id,
+                  refundedAt: new Date().toISOString(),
+                },
+              },
+            });
+          }
+
+          refunds.push({
+            email: entry.user.email,
+            firstName: entry.user.firstName,
+            amount: refund ? this.getEntryFeePaid(entry.metadata) : null,
+          });
+        }
+
+        await tx.tournament.update({
+          where: { id },
+          data: {
+            status: TournamentStatus.CANCELLED,
+            cancelledAt: new Date(),
+            metadata: {
+              ...((tournament.metadata as Prisma.JsonObject) ?? {}),
+              cancellationReason: reason,
+              refundedEntries: refunds.filter((refund) => refund.amount).length,
+            },
+          },
+        });
+
+        return { title: tournament.title, refunds };
+      },
+      { timeout: 60 * 1000 },
+    );
+
+    this.logger.log(
+      `Tournament cancelled: ${id} (${refunds.length} entrants notified)`,
+    );
+
+    for (const refund of refunds) {
+      try {
+        await this.emailService.sendTournamentCancelledEmail(
+          refund.email,
+          refund.firstName,
+          title,
+          refund.amount,
+          reason ?? undefined,
+        );
+      } catch (error) {
+        // Refunds are already committed, a failed email must not undo them
+        this.logger.error(
+          `Failed to send cancellation email to ${refund.email}`,
+          error.stack,
+        );
+      }
+    }
+  }
+
+  /**
+   * Public tournaments are visible to everyone; private ones only to their
+   * creator and entrants
+   */
+  async canViewPrivate(
+    userId: string,
+    tournament: { id: string; isPrivate: boolean; createdById: string | null },
+  ): Promise<boolean> {
+    if (!tournament.isPrivate || tournament.createdById === userId) {
+      return true;
+    }
+
+    const entry = await this.prisma.tournamentEntry.findUnique({
+      where: { tournamentId_userId: { tournamentId: tournament.id, userId } },
+      select: { id: true },
+    });
+    return !!entry;
+  }
+
+  private async getTournamentOrThrow(
+    id: string,
+  ): Promise<TournamentWithDetails> {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id },
+      include: tournamentInclude,
+    });
+
+    if (!tournament) {
+      throw new NotFoundException('Tournament not found');
+    }
+
+    return tournament;
+  }
+
+  private assertNotFinished(tournament: TournamentWithDetails): void {
+    if (
+      tournament.status === TournamentStatus.COMPLETED ||
+      tournament.status === TournamentStatus.CANCELLED
+    ) {
+      throw new ConflictException(
+        `Tournament is ${tournament.status.toLowerCase()} and can no longer be changed`,
+      );
+    }
+  }
+
+  private assertQuestionsEditable(tournament: TournamentWithDetails): void {
+    this.assertNotFinished(tournament);
+
+    if (
+      tournament.status !== TournamentStatus.UPCOMING ||
+      tournament.startDate <= new Date()
+    ) {
+      throw new ConflictException(
+        'Questions cannot be changed after the tournament has started',
+      );
+    }
+  }
+
+  private getEntryFeePaid(metadata: Prisma.JsonValue): string {
+    const entryFee = (metadata as Prisma.JsonObject)?.entryFee;
+    return typeof entryFee === 'string' ? entryFee : '0.00';
+  }
+
+  /**
+   * Also used to validate private tournaments
+   */
+  validateSchedule(startDate: Date, endDate: Date): void {
+    if (endDate <= startDate) {
+      throw new BadRequestException('End date must be after the start date');
+    }
+  }
+
+  /**
+   * Also used to validate recurring tournament templates
+   */
+  validateParticipants(
+    minParticipants: number | null,
+    maxParticipants: number | null,
+  ): void {
+    if (
+      minParticipants !== null &&
+      maxParticipants !== null &&
+      minParticipants > maxParticipants
+    ) {
+      throw new BadRequestException(
+        'Min participants cannot be greater than max participants',
+      );
+    }
+  }
+
+  /**
+   * Also used to validate recurring tournament templates
+   */
+  validatePayout(
+    payoutCurve: PayoutCurve,
+    payoutPercentages: number[],
+    payoutWinners: number | null,
+  ): void {
+    if (
+      payoutCurve === PayoutCurve.TOP_PERCENTAGES &&
+      payoutPercentages.length
+    ) {
+      // Summed as Decimal so that the check never depends on float rounding
+      const total = payoutPercentages.reduce(
+        (sum, share) => sum.plus(share),
+        new Decimal(0),
+      );
+
+      if (!total.equals(100)) {
+        throw new BadRequestException(
+          `Payout percentages must add up to 100, got ${total.toString()}`,
+        );
+      }
+    }
+
+    if (payoutCurve === PayoutCurve.TOP_N_FLAT && !payoutWinners) {
+      throw new BadRequestException(
+        'Payout winners is required for the TOP_N_FLAT payout curve',
+      );
+    }
+  }
+
+  /**
+   * Also used to validate the questions of private tournaments
+   */
+  validateQuestion(options: string[], correctAnswer: string): void {
+    const normalized = options.map((option) => option.trim().toLowerCase());
+
+    if (normalized.some((option) => !option)) {
+      throw new BadRequestException('Options cannot be empty');
+    }
+
+    if (new Set(normalized).size !== normalized.length) {
+      throw new BadRequestException('Options must be unique');
+    }
+
+    if (!normalized.includes(correctAnswer.trim().toLowerCase())) {
+      throw new BadRequestException(
+        'Correct answer must match one of the options',
+      );
+    }
+  }
+}
@@ -11,6 +11,7 @@ import {
   Param,
   ParseEnumPipe,
   BadRequestException,
+  UseInterceptors,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import {
@@ -19,6 +20,7 @@ import {
   ApiResponse,
   ApiTags,
   ApiQuery,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { WalletService } from './wallet.service';
 import {
@@ -33,6 +35,14 @@ import { TransactionStatus, UserRole } from '@prisma/client';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { SuccessResponse, ErrorResponse } from '../auth/auth.dtos';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+
+const idempotencyKeyHeader = {
+  name: 'Idempotency-Key',
+  required: false,
+  description:
+    'Unique key per request. A retry with the same key and body returns the original result instead of moving money again.',
+};
 
 @ApiTags('Wallet')
 @Controller('wallet')
@@ -119,6 +129,8 @@ export class WalletController {
 
   @Post('withdraw')
   @HttpCode(HttpStatus.OK)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiHeader(idempotencyKeyHeader)
   @ApiOperation({
     summary: 'Request withdrawal',
     description: 'Submits a withdrawal request from the user\'s available balance.',
@@ -138,6 +150,16 @@ export class WalletController {
     description: 'Unauthorized',
     type: ErrorResponse,
   })
+  @ApiResponse({
+    status: 409,
+    description: 'A request with this idempotency key is still being processed or did not finish',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Idempotency key was already used for a different request',
+    type: ErrorResponse,
+  })
   async requestWithdrawal(
     @Req() req,
     @Body() withdrawalDto: WithdrawalRequestDto
@@ -159,6 +181,8 @@ export class WalletController {
 
   @Post('transfer')
   @HttpCode(HttpStatus.OK)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiHeader(idempotencyKeyHeader)
   @ApiOperation({
     summary: 'Transfer funds to another user',
     description: 'Transfers funds from your wallet to another user\'s wallet.',
@@ -178,6 +202,16 @@ export class WalletController {
     description: 'Unauthorized',
     type: ErrorResponse,
   })
+  @ApiResponse({
+    status: 409,
+    description: 'A request with this idempotency key is still being processed or did not finish',
+    type: ErrorResponse,
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Idempotency key was already used for a different request',
+    type: ErrorResponse,
+  })
   async transferFunds(
     @Req() req,
     @Body() transferDto: TransferFundsDto
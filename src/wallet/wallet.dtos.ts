@@ -61,7 +61,7 @@ export class TransactionResponseDto {
 // Withdrawal Request DTO
 export class WithdrawalRequestDto {
   @ApiProperty({ example: 50.00, minimum: 1 })
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(1)
   amount: number;
 
@@ -79,7 +79,7 @@ export class WithdrawalRequestDto {
 // Fund Transfer DTO
 export class TransferFundsDto {
   @ApiProperty({ example: 25.00, minimum: 0.01 })
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(0.01)
   amount: number;
 
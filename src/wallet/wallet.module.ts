@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { WalletService } from './wallet.service';
 import { WalletController } from './wallet.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, LedgerModule, IdempotencyModule],
   controllers: [WalletController],
   providers: [WalletService],
   exports: [WalletService],
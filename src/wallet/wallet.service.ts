@@ -7,6 +7,13 @@ import {
   Logger 
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import {
+  LedgerService,
+  LedgerAccountRef,
+  systemAccount,
+  walletAccount,
+} from '../ledger/ledger.service';
+import { MoneyValue, formatMoney, toMoney } from '../common/money';
 import { 
   WalletResponseDto,
   TransactionResponseDto,
@@ -16,13 +23,42 @@ import {
   TransactionListResponse,
   WithdrawalResponse
 } from './wallet.dtos';
-import { TransactionType, TransactionStatus } from '@prisma/client';
+import { LedgerAccountType, Prisma, TransactionType, TransactionStatus } from '@prisma/client';
 
 @Injectable()
 export class WalletService {
   private readonly logger = new Logger(WalletService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * Run work inside the caller's transaction, or open a new one
+   */
+  private withTransaction<T>(
+    tx: Prisma.TransactionClient | undefined,
+    work: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    return tx ? work(tx) : this.prisma.$transaction(work);
+  }
+
+  /**
+   * System account on the other side of a credit or debit of this type
+   */
+  private getCounterAccount(type: TransactionType): LedgerAccountRef {
+    switch (type) {
+      case TransactionType.DEPOSIT:
+      case TransactionType.WITHDRAWAL:
+      case TransactionType.REFUND:
+        return systemAccount(LedgerAccountType.PAYMENT_CLEARING);
+      case TransactionType.TOURNAMENT_WIN:
+        return systemAccount(LedgerAccountType.PRIZE_ESCROW);
+      default:
+        return systemAccount(LedgerAccountType.PLATFORM_REVENUE);
+    }
+  }
 
   /**
    * Create a new wallet for user
@@ -48,17 +84,33 @@ export class WalletService {
   }
 
   /**
-   * Update wallet balance
+   * Adjust the wallet balance by a signed amount, balanced against platform
+   * revenue in the ledger. Recorded as an ADJUSTMENT through addFunds or
+   * deductFunds, so a debit must be covered by the balance.
    */
-  async updateBalance(userId: string, amount: number) {
-    return this.prisma.wallet.update({
-      where: { userId },
-      data: {
-        balance: {
-          increment: amount,
-        },
-      },
-    });
+  async updateBalance(
+    userId: string,
+    value: MoneyValue,
+  ): Promise<TransactionResponseDto> {
+    const amount = toMoney(value);
+
+    if (amount.isNegative()) {
+      return await this.deductFunds(
+        userId,
+        amount.abs(),
+        TransactionType.ADJUSTMENT,
+        'Balance adjustment',
+        { direction: 'debit' },
+      );
+    }
+
+    return await this.addFunds(
+      userId,
+      amount,
+      TransactionType.ADJUSTMENT,
+      'Balance adjustment',
+      { direction: 'credit' },
+    );
   }
 
   /**
@@ -73,19 +125,15 @@ export class WalletService {
       throw new NotFoundException('Wallet not found');
     }
 
-    const totalBalance = Number(wallet.balance) + Number(wallet.locked);
-    const availableBalance = Number(wallet.balance);
-    const lockedBalance = Number(wallet.locked);
-
     return {
       wallet: new WalletResponseDto({
         ...wallet,
         balance: wallet.balance.toString(),
         locked: wallet.locked.toString(),
       }),
-      totalBalance: totalBalance.toFixed(2),
-      availableBalance: availableBalance.toFixed(2),
-      lockedBalance: lockedBalance.toFixed(2),
+      totalBalance: formatMoney(wallet.balance.plus(wallet.locked)),
+      availableBalance: formatMoney(wallet.balance),
+      lockedBalance: formatMoney(wallet.locked),
     };
   }
 
@@ -164,39 +212,40 @@ export class WalletService {
     userId: string, 
     withdrawalDto: WithdrawalRequestDto
   ): Promise<WithdrawalResponse> {
-    const { amount, paymentMethod, accountDetails } = withdrawalDto;
+    const { paymentMethod, accountDetails } = withdrawalDto;
+    const amount = toMoney(withdrawalDto.amount);
+
+    // Validate minimum withdrawal amount
+    if (amount.lessThan(1)) {
+      throw new BadRequestException('Minimum withdrawal amount is $1');
+    }
 
     return await this.prisma.$transaction(async (tx) => {
-      // Get and lock wallet for update
       const wallet = await tx.wallet.findUnique({
         where: { userId },
-        select: { id: true, balance: true, locked: true },
+        select: { id: true },
       });
 
       if (!wallet) {
         throw new NotFoundException('Wallet not found');
       }
 
-      const availableBalance = Number(wallet.balance);
-      
-      // Validate sufficient balance
-      if (availableBalance < amount) {
-        throw new BadRequestException('Insufficient balance for withdrawal');
-      }
+      // Lock the withdrawn amount; the balance guard makes concurrent requests safe
+      const debited = await tx.wallet.updateMany({
+        where: { id: wallet.id, balance: { gte: amount } },
+        data: {
+          balance: { decrement: amount },
+          locked: { increment: amount },
+        },
+      });
 
-      // Validate minimum withdrawal amount
-      if (amount < 1) {
-        throw new BadRequestException('Minimum withdrawal amount is $1');
+      if (debited.count === 0) {
+        throw new BadRequestException('Insufficient balance for withdrawal');
       }
 
-      // Update wallet balance
-      const newBalance = availableBalance - amount;
-      await tx.wallet.update({
+      const { balance: newBalance } = await tx.wallet.findUniqueOrThrow({
         where: { id: wallet.id },
-        data: { 
-          balance: newBalance,
-          locked: Number(wallet.locked) + amount, // Lock the withdrawn amount
-        },
+        select: { balance: true },
       });
 
       // Create withdrawal transaction
@@ -215,12 +264,21 @@ export class WalletService {
         },
       });
 
+      await this.ledgerService.transfer(
+        tx,
+        walletAccount(wallet.id),
+        walletAccount(wallet.id, LedgerAccountType.USER_LOCKED),
+        amount,
+        transaction.description,
+        transaction.id,
+      );
+
       return {
         transaction: new TransactionResponseDto({
           ...transaction,
           amount: transaction.amount.toString(),
         }),
-        newBalance: newBalance.toFixed(2),
+        newBalance: formatMoney(newBalance),
         message: 'Withdrawal request submitted successfully',
       };
     });
@@ -233,24 +291,20 @@ export class WalletService {
     userId: string, 
     transferDto: TransferFundsDto
   ): Promise<TransactionResponseDto> {
-    const { amount, recipientEmail, description } = transferDto;
+    const { recipientEmail, description } = transferDto;
+    const amount = toMoney(transferDto.amount);
 
     return await this.prisma.$transaction(async (tx) => {
       // Get sender's wallet
       const senderWallet = await tx.wallet.findUnique({
         where: { userId },
-        select: { id: true, balance: true },
+        select: { id: true },
       });
 
       if (!senderWallet) {
         throw new NotFoundException('Sender wallet not found');
       }
 
-      // Check if sender has sufficient balance
-      if (Number(senderWallet.balance) < amount) {
-        throw new BadRequestException('Insufficient balance for transfer');
-      }
-
       // Find recipient by email
       const recipient = await tx.user.findUnique({
         where: { email: recipientEmail },
@@ -269,25 +323,37 @@ export class WalletService {
         throw new BadRequestException('Cannot transfer funds to yourself');
       }
 
-      // Update sender's balance
-      const newSenderBalance = Number(senderWallet.balance) - amount;
-      await tx.wallet.update({
-        where: { id: senderWallet.id },
-        data: { balance: newSenderBalance },
-      });
+      // Wallets are updated in id order so that opposing transfers cannot
+      // deadlock; the sender's balance guard makes concurrent transfers safe
+      const recipientWalletId = recipient.wallet.id;
+      const creditRecipient = () =>
+        tx.wallet.update({
+          where: { id: recipientWalletId },
+          data: { balance: { increment: amount } },
+        });
 
-      // Update recipient's balance
-      const newRecipientBalance = Number(recipient.wallet.balance) + amount;
-      await tx.wallet.update({
-        where: { id: recipient.wallet.id },
-        data: { balance: newRecipientBalance },
+      if (recipientWalletId < senderWallet.id) {
+        await creditRecipient();
+      }
+
+      const debited = await tx.wallet.updateMany({
+        where: { id: senderWallet.id, balance: { gte: amount } },
+        data: { balance: { decrement: amount } },
       });
 
+      if (debited.count === 0) {
+        throw new BadRequestException('Insufficient balance for transfer');
+      }
+
+      if (recipientWalletId > senderWallet.id) {
+        await creditRecipient();
+      }
+
       // Create transaction for sender (debit)
       const senderTransaction = await tx.transaction.create({
         data: {
           walletId: senderWallet.id,
-          type: TransactionType.WITHDRAWAL,
+          type: TransactionType.TRANSFER_OUT,
           amount: amount,
           description: description || `Transfer to ${recipientEmail}`,
           status: TransactionStatus.COMPLETED,
@@ -299,22 +365,36 @@ export class WalletService {
         },
       });
 
+      const sender = await tx.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { firstName: true, lastName: true },
+      });
+
       // Create transaction for recipient (credit)
       await tx.transaction.create({
         data: {
           walletId: recipient.wallet.id,
-          type: TransactionType.TASK_REWARD, // Using task reward type for incoming transfers
+          type: TransactionType.TRANSFER_IN,
           amount: amount,
           description: `Transfer from user`,
           status: TransactionStatus.COMPLETED,
           metadata: {
             transferType: 'peer_to_peer',
             senderId: userId,
-            senderName: `${recipient.firstName} ${recipient.lastName}`,
+            senderName: `${sender.firstName} ${sender.lastName}`,
           },
         },
       });
 
+      await this.ledgerService.transfer(
+        tx,
+        walletAccount(senderWallet.id),
+        walletAccount(recipient.wallet.id),
+        amount,
+        senderTransaction.description,
+        senderTransaction.id,
+      );
+
       return new TransactionResponseDto({
         ...senderTransaction,
         amount: senderTransaction.amount.toString(),
@@ -323,16 +403,20 @@ export class WalletService {
   }
 
   /**
-   * Add funds to wallet (for admin/task rewards/referral bonuses)
+   * Add funds to wallet (for admin/task rewards/referral bonuses).
+   * Pass `tx` to make the credit part of a larger transaction.
    */
   async addFunds(
     userId: string,
-    amount: number,
+    value: MoneyValue,
     type: TransactionType,
     description: string,
-    metadata?: any
+    metadata?: any,
+    tx?: Prisma.TransactionClient,
   ): Promise<TransactionResponseDto> {
-    return await this.prisma.$transaction(async (tx) => {
+    const amount = toMoney(value);
+
+    return await this.withTransaction(tx, async (tx) => {
       const wallet = await tx.wallet.findUnique({
         where: { userId },
       });
@@ -342,10 +426,9 @@ export class WalletService {
       }
 
       // Update wallet balance
-      const newBalance = Number(wallet.balance) + amount;
       await tx.wallet.update({
         where: { id: wallet.id },
-        data: { balance: newBalance },
+        data: { balance: { increment: amount } },
       });
 
       // Create transaction record
@@ -360,6 +443,15 @@ export class WalletService {
         },
       });
 
+      await this.ledgerService.transfer(
+        tx,
+        this.getCounterAccount(type),
+        walletAccount(wallet.id),
+        amount,
+        description,
+        transaction.id,
+      );
+
       return new TransactionResponseDto({
         ...transaction,
         amount: transaction.amount.toString(),
@@ -368,15 +460,20 @@ export class WalletService {
   }
 
   /**
-   * Lock funds in wallet (for pending transactions)
+   * Charge the available balance (for subscriptions and other purchases).
+   * Pass `tx` to make the debit part of a larger transaction.
    */
-  async lockFunds(
+  async deductFunds(
     userId: string,
-    amount: number,
+    value: MoneyValue,
+    type: TransactionType,
     description: string,
-    metadata?: any
+    metadata?: any,
+    tx?: Prisma.TransactionClient,
   ): Promise<TransactionResponseDto> {
-    return await this.prisma.$transaction(async (tx) => {
+    const amount = toMoney(value);
+
+    return await this.withTransaction(tx, async (tx) => {
       const wallet = await tx.wallet.findUnique({
         where: { userId },
       });
@@ -385,38 +482,100 @@ export class WalletService {
         throw new NotFoundException('Wallet not found');
       }
 
-      const availableBalance = Number(wallet.balance);
-      if (availableBalance < amount) {
-        throw new BadRequestException('Insufficient balance to lock funds');
+      // The balance guard makes concurrent debits safe
+      const debited = await tx.wallet.updateMany({
+        where: { id: wallet.id, balance: { gte: amount } },
+        data: { balance: { decrement: amount } },
+      });
+
+      if (debited.count === 0) {
+        throw new BadRequestException('Insufficient balance');
       }
 
-      // Move funds from balance to locked
-      const newBalance = availableBalance - amount;
-      const newLocked = Number(wallet.locked) + amount;
+      // Create transaction record
+      const transaction = await tx.transaction.create({
+        data: {
+          walletId: wallet.id,
+          type,
+          amount,
+          description,
+          status: TransactionStatus.COMPLETED,
+          metadata,
+        },
+      });
+
+      await this.ledgerService.transfer(
+        tx,
+        walletAccount(wallet.id),
+        this.getCounterAccount(type),
+        amount,
+        description,
+        transaction.id,
+      );
 
-      await tx.wallet.update({
-        where: { id: wallet.id },
-        data: { 
-          balance: newBalance,
-          locked: newLocked,
+      return new TransactionResponseDto({
+        ...transaction,
+        amount: transaction.amount.toString(),
+      });
+    });
+  }
+
+  /**
+   * Lock funds in wallet (for pending transactions).
+   * Pass `tx` to make the hold part of a larger transaction.
+   */
+  async lockFunds(
+    userId: string,
+    value: MoneyValue,
+    description: string,
+    metadata?: any,
+    tx?: Prisma.TransactionClient,
+  ): Promise<TransactionResponseDto> {
+    const amount = toMoney(value);
+
+    return await this.withTransaction(tx, async (tx) => {
+      const wallet = await tx.wallet.findUnique({
+        where: { userId },
+      });
+
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      // Move funds from balance to locked; the balance guard makes concurrent holds safe
+      const locked = await tx.wallet.updateMany({
+        where: { id: wallet.id, balance: { gte: amount } },
+        data: {
+          balance: { decrement: amount },
+          locked: { increment: amount },
         },
       });
 
+      if (locked.count === 0) {
+        throw new BadRequestException('Insufficient balance to lock funds');
+      }
+
       // Create transaction record
       const transaction = await tx.transaction.create({
         data: {
           walletId: wallet.id,
-          type: TransactionType.WITHDRAWAL,
+          type: TransactionType.HOLD,
           amount: amount,
           description,
           status: TransactionStatus.PENDING,
-          metadata: {
-            ...metadata,
-            lockType: 'funds_locked',
-          },
+          metadata,
         },
       });
 
+      await this.ledgerService.transfer(
+        tx,
+        walletAccount(wallet.id),
+        walletAccount(wallet.id, LedgerAccountType.USER_LOCKED),
+        amount,
+        description,
+        transaction.id,
+      );
+
       return new TransactionResponseDto({
         ...transaction,
         amount: transaction.amount.toString(),
@@ -425,15 +584,19 @@ export class WalletService {
   }
 
   /**
-   * Unlock funds in wallet
+   * Unlock funds in wallet.
+   * Pass `tx` to make the release part of a larger transaction.
    */
   async unlockFunds(
     userId: string,
-    amount: number,
+    value: MoneyValue,
     description: string,
-    metadata?: any
+    metadata?: any,
+    tx?: Prisma.TransactionClient,
   ): Promise<TransactionResponseDto> {
-    return await this.prisma.$transaction(async (tx) => {
+    const amount = toMoney(value);
+
+    return await this.withTransaction(tx, async (tx) => {
       const wallet = await tx.wallet.findUnique({
         where: { userId },
       });
@@ -442,38 +605,149 @@ export class WalletService {
         throw new NotFoundException('Wallet not found');
       }
 
-      const lockedBalance = Number(wallet.locked);
-      if (lockedBalance < amount) {
-        throw new BadRequestException('Insufficient locked funds to unlock');
-      }
-
       // Move funds from locked to balance
-      const newBalance = Number(wallet.balance) + amount;
-      const newLocked = lockedBalance - amount;
-
-      await tx.wallet.update({
-        where: { id: wallet.id },
-        data: { 
-          balance: newBalance,
-          locked: newLocked,
+      const unlocked = await tx.wallet.updateMany({
+        where: { id: wallet.id, locked: { gte: amount } },
+        data: {
+          balance: { increment: amount },
+          locked: { decrement: amount },
         },
       });
 
+      if (unlocked.count === 0) {
+        throw new BadRequestException('Insufficient locked funds to unlock');
+      }
+
       // Create transaction record
       const transaction = await tx.transaction.create({
         data: {
           walletId: wallet.id,
-          type: TransactionType.TASK_REWARD,
+          type: TransactionType.RELEASE,
           amount: amount,
           description,
           status: TransactionStatus.COMPLETED,
+          metadata,
+        },
+      });
+
+      await this.ledgerService.transfer(
+        tx,
+        walletAccount(wallet.id, LedgerAccountType.USER_LOCKED),
+        walletAccount(wallet.id),
+        amount,
+        description,
+        transaction.id,
+      );
+
+      return new TransactionResponseDto({
+        ...transaction,
+        amount: transaction.amount.toString(),
+      });
+    });
+  }
+
+  /**
+   * Release a hold created by lockFunds back to the available balance.
+   * The hold is marked FAILED and the refund gets its own transaction.
+   */
+  async releaseLockedFunds(
+    transactionId: string,
+    description: string,
+    metadata?: any,
+    tx?: Prisma.TransactionClient,
+  ): Promise<TransactionResponseDto> {
+    return await this.withTransaction(tx, async (tx) => {
+      const hold = await tx.transaction.findUnique({
+        where: { id: transactionId },
+        include: { wallet: true },
+      });
+
+      if (!hold || hold.type !== TransactionType.HOLD) {
+        throw new NotFoundException('Funds hold not found');
+      }
+
+      if (hold.status !== TransactionStatus.PENDING) {
+        throw new BadRequestException('Funds hold already settled');
+      }
+
+      const refund = await this.unlockFunds(
+        hold.wallet.userId,
+        hold.amount,
+        description,
+        { ...metadata, holdTransactionId: hold.id },
+        tx,
+      );
+
+      await tx.transaction.update({
+        where: { id: hold.id },
+        data: {
+          status: TransactionStatus.FAILED,
           metadata: {
+            ...(hold.metadata as any),
+            releasedAt: new Date(),
+            releaseTransactionId: refund.id,
+          },
+        },
+      });
+
+      return refund;
+    });
+  }
+
+  /**
+   * Capture a hold created by lockFunds: the locked amount leaves the wallet
+   * and the hold transaction is completed as an entry fee
+   */
+  async captureLockedFunds(
+    transactionId: string,
+    metadata?: any,
+    tx?: Prisma.TransactionClient,
+  ): Promise<TransactionResponseDto> {
+    return await this.withTransaction(tx, async (tx) => {
+      const hold = await tx.transaction.findUnique({
+        where: { id: transactionId },
+      });
+
+      if (!hold || hold.type !== TransactionType.HOLD) {
+        throw new NotFoundException('Funds hold not found');
+      }
+
+      if (hold.status !== TransactionStatus.PENDING) {
+        throw new BadRequestException('Funds hold already settled');
+      }
+
+      const captured = await tx.wallet.updateMany({
+        where: { id: hold.walletId, locked: { gte: hold.amount } },
+        data: { locked: { decrement: hold.amount } },
+      });
+
+      if (captured.count === 0) {
+        throw new BadRequestException('Insufficient locked funds to capture');
+      }
+
+      const transaction = await tx.transaction.update({
+        where: { id: hold.id },
+        data: {
+          type: TransactionType.ENTRY_FEE,
+          status: TransactionStatus.COMPLETED,
+          metadata: {
+            ...(hold.metadata as any),
             ...metadata,
-            unlockType: 'funds_unlocked',
+            capturedAt: new Date(),
           },
         },
       });
 
+      // Captured holds are entry fees, which fund prizes
+      await this.ledgerService.transfer(
+        tx,
+        walletAccount(hold.walletId, LedgerAccountType.USER_LOCKED),
+        systemAccount(LedgerAccountType.PRIZE_ESCROW),
+        hold.amount,
+        hold.description,
+        hold.id,
+      );
+
       return new TransactionResponseDto({
         ...transaction,
         amount: transaction.amount.toString(),
@@ -507,9 +781,9 @@ export class WalletService {
         throw new BadRequestException('Withdrawal already processed');
       }
 
-      // Update transaction status
-      const updatedTransaction = await tx.transaction.update({
-        where: { id: withdrawalId },
+      // Update transaction status; the status guard stops two admins settling it twice
+      const processed = await tx.transaction.updateMany({
+        where: { id: withdrawalId, status: TransactionStatus.PENDING },
         data: { 
           status,
           metadata: {
@@ -520,37 +794,57 @@ export class WalletService {
         },
       });
 
+      if (processed.count === 0) {
+        throw new BadRequestException('Withdrawal already processed');
+      }
+
+      const updatedTransaction = await tx.transaction.findUniqueOrThrow({
+        where: { id: withdrawalId },
+      });
+
       // If rejected, return funds to available balance
       if (status === TransactionStatus.FAILED) {
-        const wallet = await tx.wallet.findUnique({
-          where: { id: transaction.walletId },
+        const released = await tx.wallet.updateMany({
+          where: { id: transaction.walletId, locked: { gte: transaction.amount } },
+          data: {
+            balance: { increment: transaction.amount },
+            locked: { decrement: transaction.amount },
+          },
         });
 
-        if (wallet) {
-          await tx.wallet.update({
-            where: { id: transaction.walletId },
-            data: {
-              balance: Number(wallet.balance) + Number(transaction.amount),
-              locked: Number(wallet.locked) - Number(transaction.amount),
-            },
-          });
+        if (released.count === 0) {
+          throw new BadRequestException('Insufficient locked funds for withdrawal');
         }
+
+        await this.ledgerService.transfer(
+          tx,
+          walletAccount(transaction.walletId, LedgerAccountType.USER_LOCKED),
+          walletAccount(transaction.walletId),
+          transaction.amount,
+          `Withdrawal rejected: ${transaction.description}`,
+          transaction.id,
+        );
       }
 
-      // If approved, keep funds locked (they will be paid out externally)
+      // If approved, the locked funds leave the wallet (they are paid out externally)
       if (status === TransactionStatus.COMPLETED) {
-        const wallet = await tx.wallet.findUnique({
-          where: { id: transaction.walletId },
+        const paidOut = await tx.wallet.updateMany({
+          where: { id: transaction.walletId, locked: { gte: transaction.amount } },
+          data: { locked: { decrement: transaction.amount } },
         });
 
-        if (wallet) {
-          await tx.wallet.update({
-            where: { id: transaction.walletId },
-            data: {
-              locked: Number(wallet.locked) - Number(transaction.amount),
-            },
-          });
+        if (paidOut.count === 0) {
+          throw new BadRequestException('Insufficient locked funds for withdrawal');
         }
+
+        await this.ledgerService.transfer(
+          tx,
+          walletAccount(transaction.walletId, LedgerAccountType.USER_LOCKED),
+          systemAccount(LedgerAccountType.PAYOUT_CLEARING),
+          transaction.amount,
+          transaction.description,
+          transaction.id,
+        );
       }
 
       return new TransactionResponseDto({
@@ -604,10 +898,10 @@ export class WalletService {
     const recentTransactions = wallet.transactions.slice(0, 5);
 
     return {
-      totalEarnings: Number(totalEarnings._sum.amount || 0),
-      totalWithdrawals: Number(totalWithdrawals._sum.amount || 0),
-      currentBalance: Number(wallet.balance),
-      lockedBalance: Number(wallet.locked),
+      totalEarnings: formatMoney(totalEarnings._sum.amount || 0),
+      totalWithdrawals: formatMoney(totalWithdrawals._sum.amount || 0),
+      currentBalance: formatMoney(wallet.balance),
+      lockedBalance: formatMoney(wallet.locked),
       recentTransactions: recentTransactions.map(tx => 
         new TransactionResponseDto({
           ...tx,
@@ -651,9 +945,9 @@ export class WalletService {
 
     return {
       totalWallets,
-      totalBalance: Number(totalBalance._sum.balance || 0),
-      totalLocked: Number(totalLocked._sum.locked || 0),
-      totalPlatformValue: Number(totalBalance._sum.balance || 0) + Number(totalLocked._sum.locked || 0),
+      totalBalance: formatMoney(totalBalance._sum.balance || 0),
+      totalLocked: formatMoney(totalLocked._sum.locked || 0),
+      totalPlatformValue: formatMoney(toMoney(totalBalance._sum.balance || 0).plus(totalLocked._sum.locked || 0)),
       recentTransactions: recentTransactions.map(tx => ({
         ...tx,
         amount: tx.amount.toString(),
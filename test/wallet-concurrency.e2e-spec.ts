@@ -0,0 +1,225 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { TransactionStatus, TransactionType } from '@prisma/client';
+import { PrismaService } from './../src/prisma/prisma.service';
+import { LedgerService } from './../src/ledger/ledger.service';
+import { WalletModule } from './../src/wallet/wallet.module';
+import { WalletService } from './../src/wallet/wallet.service';
+
+// These run against a real database, so they are skipped unless DATABASE_URL
+// points at one. Every user they create is deleted afterwards.
+const describeWithDatabase = process.env.DATABASE_URL
+  ? describe
+  : describe.skip;
+
+describeWithDatabase('Wallet concurrency (e2e)', () => {
+  let moduleFixture: TestingModule;
+  let prisma: PrismaService;
+  let walletService: WalletService;
+  let ledgerService: LedgerService;
+
+  const runId = Date.now().toString(36);
+  const userIds: string[] = [];
+
+  const createUser = async (name: string, balance: number) => {
+    const user = await prisma.user.create({
+      data: {
+        email: `${name}-${runId}@concurrency.test`,
+        password: 'not-a-password-hash',
+        firstName: name,
+        lastName: 'Concurrency',
+        wallet: { create: {} },
+      },
+    });
+    userIds.push(user.id);
+
+    if (balance > 0) {
+      await walletService.addFunds(
+        user.id,
+        balance,
+        TransactionType.DEPOSIT,
+        'Concurrency test deposit',
+      );
+    }
+
+    return user;
+  };
+
+  const getWallet = (userId: string) =>
+    prisma.wallet.findUniqueOrThrow({ where: { userId } });
+
+  const settle = async (attempts: Promise<unknown>[]) => {
+    const results = await Promise.allSettled(attempts);
+    const rejected = results.filter(
+      (result): result is PromiseRejectedResult => result.status === 'rejected',
+    );
+
+    // Losing a race must surface as a business error, not a deadlock or timeout
+    for (const { reason } of rejected) {
+      expect(reason).toBeInstanceOf(BadRequestException);
+    }
+
+    return results.length - rejected.length;
+  };
+
+  const expectLedgerToMatch = async (userId: string) => {
+    const ledger = await ledgerService.getWalletLedger(userId);
+    expect(ledger.matches).toBe(true);
+  };
+
+  beforeAll(async () => {
+    moduleFixture = await Test.createTestingModule({
+      imports: [WalletModule],
+    }).compile();
+    await moduleFixture.init();
+
+    prisma = moduleFixture.get(PrismaService);
+    walletService = moduleFixture.get(WalletService);
+    ledgerService = moduleFixture.get(LedgerService);
+  });
+
+  afterAll(async () => {
+    await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+    await moduleFixture.close();
+  });
+
+  it('accepts only the withdrawals the balance covers', async () => {
+    const user = await createUser('withdrawer', 10);
+
+    const succeeded = await settle(
+      Array.from({ length: 8 }, () =>
+        walletService.requestWithdrawal(user.id, {
+          amount: 3,
+          paymentMethod: 'bank_transfer',
+          accountDetails: '1234567890',
+        }),
+      ),
+    );
+
+    const wallet = await getWallet(user.id);
+    expect(succeeded).toBe(3);
+    expect(wallet.balance.toFixed(2)).toBe('1.00');
+    expect(wallet.locked.toFixed(2)).toBe('9.00');
+    await expectLedgerToMatch(user.id);
+  });
+
+  it('accepts only the transfers the balance covers', async () => {
+    const sender = await createUser('sender', 10);
+    const recipient = await createUser('recipient', 0);
+
+    const succeeded = await settle(
+      Array.from({ length: 8 }, () =>
+        walletService.transferFunds(sender.id, {
+          amount: 3,
+          recipientEmail: recipient.email,
+        }),
+      ),
+    );
+
+    const [senderWallet, recipientWallet] = await Promise.all([
+      getWallet(sender.id),
+      getWallet(recipient.id),
+    ]);
+    expect(succeeded).toBe(3);
+    expect(senderWallet.balance.toFixed(2)).toBe('1.00');
+    expect(recipientWallet.balance.toFixed(2)).toBe('9.00');
+    await expectLedgerToMatch(sender.id);
+    await expectLedgerToMatch(recipient.id);
+  });
+
+  it('completes opposing transfers without deadlocking', async () => {
+    const alice = await createUser('alice', 10);
+    const bob = await createUser('bob', 10);
+
+    const succeeded = await settle(
+      Array.from({ length: 5 }, () => [
+        walletService.transferFunds(alice.id, {
+          amount: 2,
+          recipientEmail: bob.email,
+        }),
+        walletService.transferFunds(bob.id, {
+          amount: 2,
+          recipientEmail: alice.email,
+        }),
+      ]).flat(),
+    );
+
+    const [aliceWallet, bobWallet] = await Promise.all([
+      getWallet(alice.id),
+      getWallet(bob.id),
+    ]);
+    expect(succeeded).toBe(10);
+    expect(aliceWallet.balance.toFixed(2)).toBe('10.00');
+    expect(bobWallet.balance.toFixed(2)).toBe('10.00');
+  });
+
+  it('never takes the balance below zero across mixed debits', async () => {
+    const user = await createUser('spender', 10);
+    const recipient = await createUser('payee', 0);
+
+    await settle(
+      Array.from({ length: 4 }, () => [
+        walletService.requestWithdrawal(user.id, {
+          amount: 2.5,
+          paymentMethod: 'bank_transfer',
+          accountDetails: '1234567890',
+        }),
+        walletService.transferFunds(user.id, {
+          amount: 2.5,
+          recipientEmail: recipient.email,
+        }),
+        walletService.deductFunds(
+          user.id,
+          2.5,
+          TransactionType.SUBSCRIPTION_PAYMENT,
+          'Concurrency test charge',
+        ),
+        walletService.lockFunds(user.id, 2.5, 'Concurrency test hold'),
+      ]).flat(),
+    );
+
+    const [wallet, recipientWallet, charged] = await Promise.all([
+      getWallet(user.id),
+      getWallet(recipient.id),
+      prisma.transaction.aggregate({
+        where: {
+          wallet: { userId: user.id },
+          type: TransactionType.SUBSCRIPTION_PAYMENT,
+        },
+        _sum: { amount: true },
+      }),
+    ]);
+    expect(wallet.balance.isNegative()).toBe(false);
+    expect(
+      wallet.balance
+        .plus(wallet.locked)
+        .plus(recipientWallet.balance)
+        .plus(charged._sum.amount ?? 0)
+        .toFixed(2),
+    ).toBe('10.00');
+    await expectLedgerToMatch(user.id);
+  });
+
+  it('settles a withdrawal only once', async () => {
+    const user = await createUser('payout', 10);
+    const { transaction } = await walletService.requestWithdrawal(user.id, {
+      amount: 5,
+      paymentMethod: 'bank_transfer',
+      accountDetails: '1234567890',
+    });
+
+    const succeeded = await settle([
+      walletService.processWithdrawal(
+        transaction.id,
+        TransactionStatus.COMPLETED,
+      ),
+      walletService.processWithdrawal(transaction.id, TransactionStatus.FAILED),
+    ]);
+
+    const wallet = await getWallet(user.id);
+    expect(succeeded).toBe(1);
+    expect(wallet.locked.toFixed(2)).toBe('0.00');
+    expect(wallet.balance.plus(wallet.locked).lessThanOrEqualTo(10)).toBe(true);
+    await expectLedgerToMatch(user.id);
+  });
+});